@@ -41,6 +41,43 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true; // Required to use sendResponse asynchronously
   }
 
+  // Cookies for an authenticated audit, including HttpOnly ones that
+  // document.cookie cannot see
+  if (message.type === "GET_SESSION_COOKIES" && message.tabId) {
+    getSessionCookies(message.tabId, message.url)
+      .then((cookies) => {
+        sendResponse({ success: true, cookies: cookies });
+      })
+      .catch((error) => {
+        sendResponse({ success: false, error: error.message });
+      });
+    return true; // Required to use sendResponse asynchronously
+  }
+
+  // Cookie writes from the server, made through chrome.cookies so that
+  // HttpOnly cookies can be set and removed too
+  if (message.type === "SET_COOKIE" && message.tabId) {
+    setCookie(message.tabId, message.cookie)
+      .then((cookie) => {
+        sendResponse({ success: true, cookie: cookie });
+      })
+      .catch((error) => {
+        sendResponse({ success: false, error: error.message, reason: error.reason });
+      });
+    return true; // Required to use sendResponse asynchronously
+  }
+
+  if (message.type === "REMOVE_COOKIES" && message.tabId) {
+    removeCookies(message.tabId, message.url, message.name)
+      .then((removed) => {
+        sendResponse({ success: true, removed: removed });
+      })
+      .catch((error) => {
+        sendResponse({ success: false, error: error.message });
+      });
+    return true; // Required to use sendResponse asynchronously
+  }
+
   if (message.type === "CAPTURE_SCREENSHOT" && message.tabId) {
     // First get the server settings
     chrome.storage.local.get(["browserConnectorSettings"], (result) => {
@@ -50,7 +87,11 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       };
 
       // Validate server identity first
-      validateServerIdentity(settings.serverHost, settings.serverPort)
+      validateServerIdentity(
+        settings.serverHost,
+        settings.serverPort,
+        settings.authToken
+      )
         .then((isValid) => {
           if (!isValid) {
             console.error(
@@ -79,10 +120,16 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   }
 });
 
+// Headers that authenticate requests to the browser connector
+function getAuthHeaders(authToken) {
+  return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+}
+
 // Validate server identity
-async function validateServerIdentity(host, port) {
+async function validateServerIdentity(host, port, authToken) {
   try {
     const response = await fetch(`http://${host}:${port}/.identity`, {
+      headers: getAuthHeaders(authToken),
       signal: AbortSignal.timeout(3000), // 3 second timeout
     });
 
@@ -99,6 +146,12 @@ async function validateServerIdentity(host, port) {
       return false;
     }
 
+    // Every other request would be rejected without the pairing token
+    if (identity.authRequired && !identity.authorized) {
+      console.error("Missing or invalid pairing token for the browser tools server");
+      return false;
+    }
+
     return true;
   } catch (error) {
     console.error("Error validating server identity:", error);
@@ -124,6 +177,116 @@ function processTabForAudit(tab, tabId) {
 const tabUrls = new Map();
 
 // Function to get the current URL for a tab
+// Maps chrome.cookies sameSite values to the names used by the DevTools protocol
+const SAME_SITE_VALUES = {
+  no_restriction: "None",
+  lax: "Lax",
+  strict: "Strict",
+};
+
+// Returns the cookies the browser would send to a URL (the tab's URL by default)
+async function getSessionCookies(tabId, url) {
+  const targetUrl = url || (await getCurrentTabUrl(tabId));
+  if (!targetUrl) {
+    throw new Error("No URL to get cookies for");
+  }
+
+  const cookies = await chrome.cookies.getAll({ url: targetUrl });
+  console.log(
+    `Background: Found ${cookies.length} cookies for ${targetUrl}`
+  );
+
+  return cookies.map((cookie) => ({
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    sameSite: SAME_SITE_VALUES[cookie.sameSite],
+    expires: cookie.session ? undefined : cookie.expirationDate,
+  }));
+}
+
+const CHROME_SAME_SITE_VALUES = {
+  None: "no_restriction",
+  Lax: "lax",
+  Strict: "strict",
+};
+
+// Sets a cookie for a URL (the tab's URL by default)
+async function setCookie(tabId, cookie) {
+  const targetUrl = cookie.url || (await getCurrentTabUrl(tabId));
+  if (!targetUrl) {
+    throw new Error("No URL to set the cookie for");
+  }
+
+  // The browser rejects cookies whose domain, path or secure attribute does
+  // not fit the URL
+  const invalidCookieError = (message) => {
+    const error = new Error(`Cookie ${cookie.name} was rejected for ${targetUrl}: ${message}`);
+    error.reason = "invalid-cookie";
+    return error;
+  };
+
+  let result;
+  try {
+    result = await chrome.cookies.set({
+      url: targetUrl,
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      secure: cookie.secure,
+      httpOnly: cookie.httpOnly,
+      sameSite: cookie.sameSite && CHROME_SAME_SITE_VALUES[cookie.sameSite],
+      expirationDate: cookie.expires,
+    });
+  } catch (error) {
+    throw invalidCookieError(error.message);
+  }
+  if (!result) {
+    throw invalidCookieError("check its domain, path and secure attributes");
+  }
+
+  console.log(`Background: Set cookie ${result.name} for ${targetUrl}`);
+  // The value is not echoed back, since cookies often hold credentials
+  return {
+    name: result.name,
+    domain: result.domain,
+    path: result.path,
+    secure: result.secure,
+    httpOnly: result.httpOnly,
+    sameSite: SAME_SITE_VALUES[result.sameSite],
+    expires: result.session ? undefined : result.expirationDate,
+  };
+}
+
+// Removes the cookies the browser would send to a URL (the tab's URL by
+// default), or only those with the given name, and returns how many it removed
+async function removeCookies(tabId, url, name) {
+  const targetUrl = url || (await getCurrentTabUrl(tabId));
+  if (!targetUrl) {
+    throw new Error("No URL to remove cookies for");
+  }
+
+  const cookies = await chrome.cookies.getAll(
+    name ? { url: targetUrl, name: name } : { url: targetUrl }
+  );
+
+  // A cookie is only removed through a URL that matches its own domain and path
+  for (const cookie of cookies) {
+    await chrome.cookies.remove({
+      url: `${cookie.secure ? "https" : "http"}://${cookie.domain.replace(/^\./, "")}${cookie.path}`,
+      name: cookie.name,
+      storeId: cookie.storeId,
+    });
+  }
+
+  console.log(`Background: Removed ${cookies.length} cookies for ${targetUrl}`);
+  return cookies.length;
+}
+
 async function getCurrentTabUrl(tabId) {
   try {
     console.log("Background: Getting URL for tab", tabId);
@@ -258,6 +421,7 @@ async function updateServerWithUrl(tabId, url, source = "background_update") {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            ...getAuthHeaders(settings.authToken),
           },
           body: JSON.stringify({
             url: url,
@@ -319,7 +483,8 @@ async function retestConnectionOnRefresh(tabId) {
     // Test the connection with the last known host and port
     const isConnected = await validateServerIdentity(
       settings.serverHost,
-      settings.serverPort
+      settings.serverPort,
+      settings.authToken
     );
 
     // Notify all devtools instances about the connection status
@@ -454,6 +619,7 @@ function captureAndSendScreenshot(message, settings, sendResponse) {
                   method: "POST",
                   headers: {
                     "Content-Type": "application/json",
+                    ...getAuthHeaders(settings.authToken),
                   },
                   body: JSON.stringify({
                     data: dataUrl,
@@ -492,10 +658,14 @@ function captureAndSendScreenshot(message, settings, sendResponse) {
 }
 
 // Function to check WebSocket connectivity by attempting to connect
-async function checkWebSocketConnectivity(host, port) {
+async function checkWebSocketConnectivity(host, port, authToken) {
   return new Promise((resolve) => {
     try {
-      const ws = new WebSocket(`ws://${host}:${port}/extension-ws`);
+      // Marked as a probe so the server does not register it as a tab connection
+      const tokenParam = authToken ? `&token=${encodeURIComponent(authToken)}` : "";
+      const ws = new WebSocket(
+        `ws://${host}:${port}/extension-ws?probe=true${tokenParam}`
+      );
 
       const timeout = setTimeout(() => {
         ws.close();
@@ -535,7 +705,11 @@ setInterval(async () => {
       serverPort: 3025,
     };
 
-    const connected = await checkWebSocketConnectivity(settings.serverHost, settings.serverPort);
+    const connected = await checkWebSocketConnectivity(
+      settings.serverHost,
+      settings.serverPort,
+      settings.authToken
+    );
     websocketConnected = connected;
   });
 }, 10000); // Check every 10 seconds
\ No newline at end of file
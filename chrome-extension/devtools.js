@@ -12,6 +12,7 @@ let settings = {
   screenshotPath: "", // Add new setting for screenshot path
   serverHost: "localhost", // Default server host
   serverPort: 3025, // Default server port
+  authToken: "", // Pairing token from the server's auth-token file
   allowAutoPaste: false, // Default auto-paste setting
   targetIDE: "cursor", // Default target IDE
   customAppName: "", // Custom application name
@@ -212,16 +213,25 @@ chrome.storage.local.get(["browserConnectorSettings"], (result) => {
   }
 });
 
+// Headers that authenticate requests to the browser connector
+function getAuthHeaders() {
+  return settings.authToken
+    ? { Authorization: `Bearer ${settings.authToken}` }
+    : {};
+}
+
 // Listen for settings updates
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === "SETTINGS_UPDATED") {
+    const previousSettings = settings;
     settings = message.settings;
 
     // If server settings changed and we have a WebSocket, reconnect
     if (
       ws &&
-      (message.settings.serverHost !== settings.serverHost ||
-        message.settings.serverPort !== settings.serverPort)
+      (previousSettings.serverHost !== settings.serverHost ||
+        previousSettings.serverPort !== settings.serverPort ||
+        previousSettings.authToken !== settings.authToken)
     ) {
       console.log("Server settings changed, reconnecting WebSocket...");
       setupWebSocket();
@@ -491,6 +501,7 @@ async function sendToBrowserConnector(logData) {
   const payload = {
     data: {
       ...processedData,
+      tabId: chrome.devtools.inspectedWindow.tabId,
       timestamp: Date.now(),
     },
     settings: {
@@ -518,7 +529,7 @@ async function sendToBrowserConnector(logData) {
 
   fetch(serverUrl, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
     body: JSON.stringify(payload),
   })
     .then((response) => {
@@ -546,6 +557,7 @@ async function validateServerIdentity() {
     const response = await fetch(
       `http://${settings.serverHost}:${settings.serverPort}/.identity`,
       {
+        headers: getAuthHeaders(),
         signal: AbortSignal.timeout(3000), // 3 second timeout
       }
     );
@@ -584,6 +596,20 @@ async function validateServerIdentity() {
       return false;
     }
 
+    // The server rejects every other request until the panel is paired
+    if (identity.authRequired && !identity.authorized) {
+      console.error("Server identity validation failed: Missing or invalid pairing token");
+
+      chrome.runtime.sendMessage({
+        type: "SERVER_VALIDATION_FAILED",
+        reason: "unauthorized",
+        serverHost: settings.serverHost,
+        serverPort: settings.serverPort,
+      });
+
+      return false;
+    }
+
     console.log(
       `Server identity confirmed: ${identity.name} v${identity.version}`
     );
@@ -613,16 +639,17 @@ async function validateServerIdentity() {
   }
 }
 
-// Function to clear logs on the server
+// Function to clear this tab's logs on the server
 function wipeLogs() {
-  console.log("Wiping all logs...");
+  console.log("Wiping logs for the inspected tab...");
 
   const serverUrl = `http://${settings.serverHost}:${settings.serverPort}/wipelogs`;
   console.log(`Sending wipe request to ${serverUrl}`);
 
   fetch(serverUrl, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify({ tabId: chrome.devtools.inspectedWindow.tabId }),
   })
     .then((response) => {
       if (!response.ok) {
@@ -669,6 +696,13 @@ chrome.devtools.network.onRequestFinished.addListener((request) => {
         url: request.request.url,
         method: request.request.method,
         status: request.response.status,
+        statusText: request.response.statusText,
+        httpVersion: request.response.httpVersion,
+        mimeType: request.response.content?.mimeType,
+        // HAR timing data, used by the server's HAR export
+        startedDateTime: request.startedDateTime,
+        time: request.time,
+        timings: request.timings,
         requestHeaders: request.request.headers,
         responseHeaders: request.response.headers,
         requestBody: request.request.postData?.text ?? "",
@@ -929,6 +963,876 @@ let reconnectAfterValidation = false;
 // Track if we're intentionally closing the connection
 let intentionalClosure = false;
 
+// Loads a data URL into an image element
+function loadImage(dataUrl) {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to decode screenshot"));
+    image.src = dataUrl;
+  });
+}
+
+// Re-encodes a screenshot for inline display by the MCP client: scales it down
+// to maxWidth and, for JPEG, lowers quality (then size) until it fits maxBytes
+async function encodeInlineScreenshot(dataUrl, options) {
+  const format = options.format === "png" ? "png" : "jpeg";
+  const maxBytes = options.maxBytes || 1000000;
+  let quality = Math.min(Math.max(options.quality || 80, 1), 100) / 100;
+
+  const image = await loadImage(dataUrl);
+  let scale = Math.min(1, (options.maxWidth || image.width) / image.width);
+
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+
+  for (let attempt = 0; attempt < 8; attempt++) {
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const encoded = canvas.toDataURL(`image/${format}`, quality);
+    // Base64 encodes 3 bytes in 4 characters
+    const bytes = Math.floor(((encoded.length - encoded.indexOf(",") - 1) * 3) / 4);
+
+    if (bytes <= maxBytes || attempt === 7) {
+      return {
+        data: encoded,
+        mimeType: `image/${format}`,
+        width: canvas.width,
+        height: canvas.height,
+        bytes,
+      };
+    }
+
+    if (format === "jpeg" && quality > 0.4) {
+      quality = Math.max(0.4, quality - 0.15);
+    } else {
+      scale *= Math.max(0.5, Math.sqrt(maxBytes / bytes));
+    }
+  }
+}
+
+// Errors that tell the server to retry a screenshot in its headless browser
+function debuggerUnavailableError(message) {
+  const error = new Error(message);
+  error.reason = "debugger-unavailable";
+  return error;
+}
+
+// chrome.runtime.lastError messages meaning the debugger is gone, rather than
+// a command failing, e.g. "Execution context was destroyed" while navigating
+const DEBUGGER_DETACHED_PATTERN = /not attached|detached|no tab with given id/i;
+
+function sendDebuggerCommand(method, params) {
+  return new Promise((resolve, reject) => {
+    chrome.debugger.sendCommand({ tabId: currentTabId }, method, params, (result) => {
+      const lastError = chrome.runtime.lastError;
+      if (lastError) {
+        if (DEBUGGER_DETACHED_PATTERN.test(lastError.message)) {
+          reject(debuggerUnavailableError(lastError.message));
+        } else {
+          const error = new Error(`${method} failed: ${lastError.message}`);
+          error.reason = "debugger-command-failed";
+          reject(error);
+        }
+        return;
+      }
+      resolve(result);
+    });
+  });
+}
+
+// Returns the document-relative bounding box of the first element matching selector
+function getElementBox(selector) {
+  return new Promise((resolve, reject) => {
+    chrome.devtools.inspectedWindow.eval(
+      `(function() {
+        const element = document.querySelector(${JSON.stringify(selector)});
+        if (!element) return null;
+        const rect = element.getBoundingClientRect();
+        return {
+          x: rect.left + window.scrollX,
+          y: rect.top + window.scrollY,
+          width: rect.width,
+          height: rect.height,
+        };
+      })()`,
+      (result, exceptionInfo) => {
+        if (exceptionInfo && (exceptionInfo.isError || exceptionInfo.isException)) {
+          const error = new Error(
+            `Invalid selector: ${exceptionInfo.value || exceptionInfo.description || selector}`
+          );
+          error.reason = "invalid-selector";
+          reject(error);
+          return;
+        }
+        if (!result) {
+          const error = new Error(`No element matches selector: ${selector}`);
+          error.reason = "selector-not-found";
+          reject(error);
+          return;
+        }
+        if (result.width === 0 || result.height === 0) {
+          const error = new Error(`Element has no visible size: ${selector}`);
+          error.reason = "selector-not-found";
+          reject(error);
+          return;
+        }
+        resolve(result);
+      }
+    );
+  });
+}
+
+// Captures one element or the full page through the attached debugger (CDP),
+// which can render content outside the visible viewport
+async function captureWithDebugger(message) {
+  if (!isDebuggerAttached) {
+    throw debuggerUnavailableError("Debugger is not attached to the inspected tab");
+  }
+
+  let clip;
+  if (message.selector) {
+    const box = await getElementBox(message.selector);
+    const padding = message.padding || 0;
+    const x = Math.max(0, box.x - padding);
+    const y = Math.max(0, box.y - padding);
+    clip = {
+      x,
+      y,
+      width: box.x + box.width + padding - x,
+      height: box.y + box.height + padding - y,
+      scale: 1,
+    };
+  } else {
+    const metrics = await sendDebuggerCommand("Page.getLayoutMetrics", {});
+    const size = metrics.cssContentSize || metrics.contentSize;
+    clip = {
+      x: 0,
+      y: 0,
+      width: Math.ceil(size.width),
+      height: Math.ceil(size.height),
+      scale: 1,
+    };
+  }
+
+  const result = await sendDebuggerCommand("Page.captureScreenshot", {
+    format: "png",
+    clip,
+    captureBeyondViewport: true,
+  });
+  return `data:image/png;base64,${result.data}`;
+}
+
+// Browser automation commands sent by the server. They run through the
+// attached debugger (CDP), so input events are trusted like a real user's.
+function automationError(message, reason) {
+  const error = new Error(message);
+  error.reason = reason;
+  return error;
+}
+
+function wait(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Evaluates an expression in the inspected page, awaiting promises
+async function evaluateInPage(expression) {
+  const { result, exceptionDetails } = await sendDebuggerCommand("Runtime.evaluate", {
+    expression,
+    returnByValue: true,
+    awaitPromise: true,
+  });
+  if (exceptionDetails) {
+    throw automationError(
+      (exceptionDetails.exception && exceptionDetails.exception.description) ||
+        exceptionDetails.text,
+      "evaluation-error"
+    );
+  }
+  return result.value;
+}
+
+// Runs body in the page with `element` bound to the first match of selector.
+// body returns a plain object, or { error, reason } to fail the command.
+async function runOnElement(selector, body) {
+  const value = await evaluateInPage(`(function() {
+    const selector = ${JSON.stringify(selector)};
+    let element;
+    try {
+      element = document.querySelector(selector);
+    } catch (e) {
+      return { error: "Invalid selector: " + selector, reason: "invalid-selector" };
+    }
+    if (!element) {
+      return { error: "No element matches selector: " + selector, reason: "selector-not-found" };
+    }
+    ${body}
+  })()`);
+  if (value && value.reason) {
+    throw automationError(value.error, value.reason);
+  }
+  return value;
+}
+
+// Scrolls the element into view and returns its center in viewport coordinates
+function getElementCenter(selector) {
+  return runOnElement(
+    selector,
+    `element.scrollIntoView({ block: "center", inline: "center" });
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return { error: "Element is not visible: " + selector, reason: "element-not-visible" };
+    }
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };`
+  );
+}
+
+const MOUSE_BUTTONS = { left: 1, right: 2, middle: 4 };
+
+const AUTOMATION_KEYS = {
+  Enter: { code: "Enter", keyCode: 13, text: "\r" },
+  Tab: { code: "Tab", keyCode: 9 },
+  Escape: { code: "Escape", keyCode: 27 },
+  Backspace: { code: "Backspace", keyCode: 8 },
+  Delete: { code: "Delete", keyCode: 46 },
+  Space: { key: " ", code: "Space", keyCode: 32, text: " " },
+  ArrowUp: { code: "ArrowUp", keyCode: 38 },
+  ArrowDown: { code: "ArrowDown", keyCode: 40 },
+  ArrowLeft: { code: "ArrowLeft", keyCode: 37 },
+  ArrowRight: { code: "ArrowRight", keyCode: 39 },
+  Home: { code: "Home", keyCode: 36 },
+  End: { code: "End", keyCode: 35 },
+  PageUp: { code: "PageUp", keyCode: 33 },
+  PageDown: { code: "PageDown", keyCode: 34 },
+};
+
+// CDP modifier bit flags
+const KEY_MODIFIER_FLAGS = { Alt: 1, Control: 2, Meta: 4, Shift: 8 };
+
+function describeKey(key) {
+  if (AUTOMATION_KEYS[key]) {
+    return { key, ...AUTOMATION_KEYS[key] };
+  }
+  if (key.length === 1) {
+    const upper = key.toUpperCase();
+    return {
+      key,
+      code: /[A-Z]/.test(upper) ? `Key${upper}` : /[0-9]/.test(key) ? `Digit${key}` : "",
+      keyCode: /[A-Z0-9]/.test(upper) ? upper.charCodeAt(0) : 0,
+      text: key,
+    };
+  }
+  throw automationError(
+    `Unsupported key: ${key}. Use a single character or one of: ${Object.keys(AUTOMATION_KEYS).join(", ")}`,
+    "unknown-key"
+  );
+}
+
+async function dispatchKey(key, modifiers = []) {
+  const { code, keyCode, text, ...rest } = describeKey(key);
+  const flags = modifiers.reduce((sum, modifier) => sum + KEY_MODIFIER_FLAGS[modifier], 0);
+  // Shortcuts such as Control+A must not insert their character
+  const insertsText = text && modifiers.every((modifier) => modifier === "Shift");
+  const event = {
+    key: rest.key,
+    code,
+    windowsVirtualKeyCode: keyCode,
+    modifiers: flags,
+  };
+
+  await sendDebuggerCommand("Input.dispatchKeyEvent", {
+    ...event,
+    type: insertsText ? "keyDown" : "rawKeyDown",
+    ...(insertsText && { text, unmodifiedText: text }),
+  });
+  await sendDebuggerCommand("Input.dispatchKeyEvent", { ...event, type: "keyUp" });
+}
+
+async function clickElement(command) {
+  const { x, y } = await getElementCenter(command.selector);
+  const button = command.button;
+  await sendDebuggerCommand("Input.dispatchMouseEvent", { type: "mouseMoved", x, y });
+  for (let clickCount = 1; clickCount <= command.clickCount; clickCount++) {
+    await sendDebuggerCommand("Input.dispatchMouseEvent", {
+      type: "mousePressed",
+      x,
+      y,
+      button,
+      buttons: MOUSE_BUTTONS[button],
+      clickCount,
+    });
+    await sendDebuggerCommand("Input.dispatchMouseEvent", {
+      type: "mouseReleased",
+      x,
+      y,
+      button,
+      buttons: 0,
+      clickCount,
+    });
+  }
+  return { selector: command.selector, x, y };
+}
+
+async function hoverElement(command) {
+  const { x, y } = await getElementCenter(command.selector);
+  await sendDebuggerCommand("Input.dispatchMouseEvent", { type: "mouseMoved", x, y });
+  return { selector: command.selector, x, y };
+}
+
+// The typed text is not echoed back, since it may be a password
+async function typeText(command) {
+  if (command.selector) {
+    await runOnElement(
+      command.selector,
+      `element.focus();
+      if (document.activeElement !== element) {
+        return { error: "Element cannot receive focus: " + selector, reason: "element-not-visible" };
+      }
+      if (${command.clear}) {
+        if ("value" in element) {
+          element.value = "";
+          element.dispatchEvent(new Event("input", { bubbles: true }));
+        } else if (element.isContentEditable) {
+          element.textContent = "";
+        }
+      }
+      return {};`
+    );
+  }
+
+  for (const character of command.text) {
+    if (character === "\n") {
+      await dispatchKey("Enter");
+    } else {
+      await sendDebuggerCommand("Input.dispatchKeyEvent", {
+        type: "keyDown",
+        key: character,
+        text: character,
+        unmodifiedText: character,
+      });
+      await sendDebuggerCommand("Input.dispatchKeyEvent", { type: "keyUp", key: character });
+    }
+    if (command.delay) await wait(command.delay);
+  }
+  return { selector: command.selector, characters: [...command.text].length };
+}
+
+async function pressKey(command) {
+  await dispatchKey(command.key, command.modifiers);
+  return { key: command.key, modifiers: command.modifiers };
+}
+
+async function scrollPage(command) {
+  if (command.selector) {
+    await runOnElement(
+      command.selector,
+      `element.scrollIntoView({ block: "center", inline: "center" });
+      return {};`
+    );
+  } else if (command.to) {
+    await evaluateInPage(
+      command.to === "top"
+        ? "window.scrollTo(0, 0)"
+        : "window.scrollTo(window.scrollX, document.documentElement.scrollHeight)"
+    );
+  } else {
+    await evaluateInPage(`window.scrollBy(${command.x}, ${command.y})`);
+  }
+  return evaluateInPage("({ scrollX: window.scrollX, scrollY: window.scrollY })");
+}
+
+async function selectOption(command) {
+  const wanted = JSON.stringify({ value: command.value, label: command.label });
+  return runOnElement(
+    command.selector,
+    `if (element.tagName !== "SELECT") {
+      return { error: "Element is not a <select>: " + selector, reason: "not-a-select" };
+    }
+    const wanted = ${wanted};
+    const option = Array.from(element.options).find((option) =>
+      wanted.value !== undefined
+        ? option.value === wanted.value
+        : option.label.trim() === wanted.label || option.text.trim() === wanted.label
+    );
+    if (!option) {
+      return {
+        error: "No option with " + (wanted.value !== undefined ? "value " + wanted.value : "label " + wanted.label),
+        reason: "option-not-found",
+      };
+    }
+    element.value = option.value;
+    element.dispatchEvent(new Event("input", { bubbles: true }));
+    element.dispatchEvent(new Event("change", { bubbles: true }));
+    return { selector, value: option.value, label: option.label };`
+  );
+}
+
+async function waitForSelector(command) {
+  const startTime = Date.now();
+  const expression = `(function() {
+    const selector = ${JSON.stringify(command.selector)};
+    let element;
+    try {
+      element = document.querySelector(selector);
+    } catch (e) {
+      return { error: "Invalid selector: " + selector, reason: "invalid-selector" };
+    }
+    if (!element) return { attached: false, visible: false };
+    const rect = element.getBoundingClientRect();
+    const style = getComputedStyle(element);
+    return {
+      attached: true,
+      visible: rect.width > 0 && rect.height > 0 && style.visibility !== "hidden",
+    };
+  })()`;
+
+  while (true) {
+    let state;
+    try {
+      state = await evaluateInPage(expression);
+    } catch (error) {
+      // The page may be navigating and its execution context replaced; keep
+      // polling unless the debugger itself went away
+      if (error.reason === "debugger-unavailable") throw error;
+    }
+    if (state && state.reason) throw automationError(state.error, state.reason);
+
+    if (
+      state &&
+      (command.state === "attached"
+        ? state.attached
+        : command.state === "visible"
+        ? state.visible
+        : !state.visible)
+    ) {
+      return {
+        selector: command.selector,
+        state: command.state,
+        elapsed: Date.now() - startTime,
+      };
+    }
+
+    if (Date.now() - startTime >= command.timeout) {
+      throw automationError(
+        `Timed out after ${command.timeout} ms waiting for ${command.selector} to be ${command.state}`,
+        "timeout"
+      );
+    }
+    await wait(100);
+  }
+}
+
+async function navigateTo(command) {
+  const startTime = Date.now();
+  const { errorText } = await sendDebuggerCommand("Page.navigate", { url: command.url });
+  if (errorText) {
+    throw automationError(`Navigation to ${command.url} failed: ${errorText}`, "navigation-failed");
+  }
+
+  if (command.waitUntil !== "none") {
+    const readyStates =
+      command.waitUntil === "load" ? ["complete"] : ["interactive", "complete"];
+    while (true) {
+      let readyState;
+      try {
+        readyState = await evaluateInPage("document.readyState");
+      } catch (error) {
+        // The execution context is replaced while the new document loads
+        if (error.reason === "debugger-unavailable") throw error;
+      }
+      if (readyStates.includes(readyState)) break;
+
+      if (Date.now() - startTime >= command.timeout) {
+        throw automationError(
+          `Timed out after ${command.timeout} ms waiting for ${command.url} to ${command.waitUntil === "load" ? "load" : "become interactive"}`,
+          "timeout"
+        );
+      }
+      await wait(100);
+    }
+  }
+
+  const page = await evaluateInPage("({ url: location.href, title: document.title })");
+  return { ...page, loadTime: Date.now() - startTime };
+}
+
+const AUTOMATION_HANDLERS = {
+  navigate: navigateTo,
+  click: clickElement,
+  "type-text": typeText,
+  "press-key": pressKey,
+  scroll: scrollPage,
+  hover: hoverElement,
+  "select-option": selectOption,
+  "wait-for-selector": waitForSelector,
+};
+
+async function runAutomationCommand(command) {
+  if (!isDebuggerAttached) {
+    throw debuggerUnavailableError("Debugger is not attached to the inspected tab");
+  }
+  const handler = AUTOMATION_HANDLERS[command.action];
+  if (!handler) {
+    throw automationError(`Unsupported automation action: ${command.action}`, "unsupported-action");
+  }
+  return handler(command);
+}
+
+// Cookie and storage writes sent by the server. Cookies are written by the
+// background worker through chrome.cookies, which also reaches HttpOnly
+// cookies; storage is written in the inspected page.
+const STORAGE_COMMAND_TYPES = [
+  "set-cookie",
+  "delete-cookie",
+  "clear-cookies",
+  "set-storage-item",
+  "remove-storage-item",
+  "clear-storage",
+];
+
+function sendToBackground(message) {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(message, (response) => {
+      if (chrome.runtime.lastError || !response || !response.success) {
+        const error = new Error(
+          (chrome.runtime.lastError && chrome.runtime.lastError.message) ||
+            (response && response.error) ||
+            "No response from the background worker"
+        );
+        error.reason = response && response.reason;
+        reject(error);
+        return;
+      }
+      resolve(response);
+    });
+  });
+}
+
+function evalInInspectedWindow(expression) {
+  return new Promise((resolve, reject) => {
+    chrome.devtools.inspectedWindow.eval(expression, (result, exceptionInfo) => {
+      if (exceptionInfo && (exceptionInfo.isError || exceptionInfo.isException)) {
+        reject(new Error(exceptionInfo.value || exceptionInfo.description || "Evaluation failed"));
+        return;
+      }
+      resolve(result);
+    });
+  });
+}
+
+// Runs body in the page with `storage` bound to localStorage or sessionStorage
+function runOnStorage(area, body) {
+  return evalInInspectedWindow(`(function() {
+    const storage = ${area === "session" ? "sessionStorage" : "localStorage"};
+    ${body}
+  })()`);
+}
+
+async function runStorageCommand(command) {
+  const tabId = chrome.devtools.inspectedWindow.tabId;
+
+  switch (command.operation) {
+    case "set-cookie": {
+      const { operation, ...cookie } = command;
+      const response = await sendToBackground({ type: "SET_COOKIE", tabId, cookie });
+      return { cookie: response.cookie };
+    }
+    case "delete-cookie":
+    case "clear-cookies": {
+      const response = await sendToBackground({
+        type: "REMOVE_COOKIES",
+        tabId,
+        url: command.url,
+        name: command.name,
+      });
+      return { removed: response.removed };
+    }
+    case "set-storage-item":
+      return runOnStorage(
+        command.storage,
+        `const key = ${JSON.stringify(command.key)};
+        const replaced = storage.getItem(key) !== null;
+        storage.setItem(key, ${JSON.stringify(command.value)});
+        return { storage: ${JSON.stringify(command.storage)}, key, replaced };`
+      );
+    case "remove-storage-item":
+      return runOnStorage(
+        command.storage,
+        `const key = ${JSON.stringify(command.key)};
+        const removed = storage.getItem(key) !== null;
+        storage.removeItem(key);
+        return { storage: ${JSON.stringify(command.storage)}, key, removed };`
+      );
+    case "clear-storage":
+      return runOnStorage(
+        command.storage,
+        `const removed = storage.length;
+        storage.clear();
+        return { storage: ${JSON.stringify(command.storage)}, removed };`
+      );
+    default:
+      throw new Error(`Unsupported storage operation: ${command.operation}`);
+  }
+}
+
+// Serializes an evaluation result into JSON-safe data, limiting strings,
+// nesting depth and properties per object. Runs in the inspected page through
+// Runtime.callFunctionOn, so it must not reference anything outside itself.
+function serializeEvaluationResult(root, options) {
+  let truncated = false;
+
+  function limitString(value) {
+    if (value.length <= options.stringSizeLimit) return value;
+    truncated = true;
+    return `${value.slice(0, options.stringSizeLimit)}... [${
+      value.length - options.stringSizeLimit
+    } more characters]`;
+  }
+
+  function describeNode(node) {
+    if (node.nodeType === 1) {
+      const id = node.id ? `#${node.id}` : "";
+      const classes =
+        typeof node.className === "string" && node.className.trim()
+          ? `.${node.className.trim().split(/\s+/).join(".")}`
+          : "";
+      return `<${node.nodeName.toLowerCase()}${id}${classes}>`;
+    }
+    if (node.nodeType === 3) return `#text ${limitString(JSON.stringify(node.textContent))}`;
+    if (node.nodeType === 9) return `#document ${node.URL}`;
+    return node.nodeName;
+  }
+
+  function serialize(value, depth, maxDepth, seen) {
+    switch (typeof value) {
+      case "string":
+        return limitString(value);
+      case "number":
+        return Number.isFinite(value) && !Object.is(value, -0) ? value : String(value);
+      case "boolean":
+        return value;
+      case "undefined":
+        return "[undefined]";
+      case "bigint":
+        return `${value}n`;
+      case "symbol":
+        return value.toString();
+      case "function":
+        return `[Function${value.name ? `: ${value.name}` : ""}]`;
+    }
+    if (value === null) return null;
+    if (seen.has(value)) return "[Circular]";
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+    }
+    if (value instanceof RegExp) return value.toString();
+    if (typeof Node !== "undefined" && value instanceof Node) return describeNode(value);
+
+    const isList =
+      Array.isArray(value) ||
+      value instanceof Set ||
+      (ArrayBuffer.isView(value) && !(value instanceof DataView));
+    if (depth >= maxDepth) {
+      truncated = true;
+      if (isList) return `[Array(${value.length ?? value.size})]`;
+      return `[${(value.constructor && value.constructor.name) || "Object"}]`;
+    }
+
+    seen.add(value);
+    try {
+      if (value instanceof Error) {
+        return {
+          name: value.name,
+          message: serialize(value.message, depth + 1, maxDepth, seen),
+          stack: serialize(value.stack, depth + 1, maxDepth, seen),
+        };
+      }
+      if (value instanceof Map) {
+        // Maps become [key, value] pairs, since keys need not be strings
+        const entries = Array.from(value.entries()).slice(0, options.maxProperties);
+        if (value.size > entries.length) truncated = true;
+        return entries.map(([key, item]) => [
+          serialize(key, depth + 1, maxDepth, seen),
+          serialize(item, depth + 1, maxDepth, seen),
+        ]);
+      }
+      if (isList) {
+        const items = Array.from(value);
+        const result = items
+          .slice(0, options.maxProperties)
+          .map((item) => serialize(item, depth + 1, maxDepth, seen));
+        if (items.length > options.maxProperties) {
+          truncated = true;
+          result.push(`... [${items.length - options.maxProperties} more items]`);
+        }
+        return result;
+      }
+
+      const result = {};
+      const keys = Object.keys(value);
+      for (const key of keys.slice(0, options.maxProperties)) {
+        try {
+          result[key] = serialize(value[key], depth + 1, maxDepth, seen);
+        } catch (error) {
+          // Getters and cross-origin objects can throw
+          result[key] = `[Exception: ${error && error.message}]`;
+        }
+      }
+      if (keys.length > options.maxProperties) {
+        truncated = true;
+        result["..."] = `[${keys.length - options.maxProperties} more properties]`;
+      }
+      return result;
+    } finally {
+      // Only ancestors count as circular; repeated references are serialized again
+      seen.delete(value);
+    }
+  }
+
+  const type =
+    root === null
+      ? "null"
+      : Array.isArray(root)
+      ? "array"
+      : typeof root === "object"
+      ? (root.constructor && root.constructor.name) || "object"
+      : typeof root;
+
+  // Lower the depth until the result fits in maxResultSize
+  for (let maxDepth = options.maxDepth; maxDepth >= 0; maxDepth--) {
+    truncated = false;
+    const value = serialize(root, 0, maxDepth, new Set());
+    const size = (JSON.stringify(value) || "").length;
+    if (size <= options.maxResultSize) {
+      return { type, value, depth: maxDepth, truncated: truncated || maxDepth < options.maxDepth };
+    }
+    if (maxDepth === 0) {
+      const json = JSON.stringify(value);
+      return {
+        type,
+        value: `${json.slice(0, options.maxResultSize)}... [${json.length - options.maxResultSize} more characters]`,
+        depth: 0,
+        truncated: true,
+      };
+    }
+  }
+}
+
+// Values that Runtime.evaluate cannot return by value, e.g. NaN or 10n
+function parseUnserializableValue(remoteObject) {
+  const text = remoteObject.unserializableValue;
+  if (remoteObject.type === "bigint") return BigInt(text.slice(0, -1));
+  if (text === "-0") return -0;
+  return Number(text);
+}
+
+// Evaluates a script in the inspected page through the attached debugger,
+// which awaits promises and is not subject to the page's CSP
+async function evaluateScript(message) {
+  if (!isDebuggerAttached) {
+    throw debuggerUnavailableError("Debugger is not attached to the inspected tab");
+  }
+
+  const options = {
+    maxDepth: message.maxDepth,
+    maxProperties: message.maxProperties,
+    stringSizeLimit: message.stringSizeLimit,
+    maxResultSize: message.maxResultSize,
+  };
+  const objectGroup = `webai-evaluate-${message.requestId}`;
+  const startTime = Date.now();
+  let timer;
+
+  const evaluation = (async () => {
+    const { result, exceptionDetails } = await sendDebuggerCommand("Runtime.evaluate", {
+      expression: message.expression,
+      objectGroup,
+      awaitPromise: true,
+      replMode: true, // Allows top-level await and redeclaring let/const
+      userGesture: true,
+      timeout: message.timeout, // Stops synchronous scripts that run too long
+    });
+    if (exceptionDetails) {
+      throw automationError(
+        (exceptionDetails.exception && exceptionDetails.exception.description) ||
+          exceptionDetails.text,
+        "evaluation-error"
+      );
+    }
+
+    if (!result.objectId) {
+      const value =
+        "unserializableValue" in result ? parseUnserializableValue(result) : result.value;
+      return serializeEvaluationResult(value, options);
+    }
+
+    const serialized = await sendDebuggerCommand("Runtime.callFunctionOn", {
+      objectId: result.objectId,
+      functionDeclaration: `function(options) { return (${serializeEvaluationResult.toString()})(this, options); }`,
+      arguments: [{ value: options }],
+      returnByValue: true,
+    });
+    if (serialized.exceptionDetails) {
+      throw new Error(
+        `Failed to serialize the result: ${serialized.exceptionDetails.text}`
+      );
+    }
+    return serialized.result.value;
+  })();
+
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          automationError(`Script did not finish within ${message.timeout} ms`, "timeout")
+        ),
+      message.timeout
+    );
+  });
+
+  try {
+    const result = await Promise.race([evaluation, timeout]);
+    return { ...result, duration: Date.now() - startTime };
+  } finally {
+    clearTimeout(timer);
+    sendDebuggerCommand("Runtime.releaseObjectGroup", { objectGroup }).catch(() => {});
+  }
+}
+
+// Sends a captured screenshot to the server, with an inline copy if requested
+async function sendScreenshotData(message, dataUrl, source) {
+  const response = {
+    type: "screenshot-data",
+    data: dataUrl,
+    requestId: message.requestId,
+    // Only include path if it's configured in settings
+    ...(settings.screenshotPath && { path: settings.screenshotPath }),
+    // Include auto-paste settings
+    autoPaste: settings.allowAutoPaste,
+    targetIDE: settings.targetIDE,
+    customAppName: settings.customAppName,
+  };
+
+  if (message.inline) {
+    try {
+      response.inline = await encodeInlineScreenshot(dataUrl, message.inline);
+    } catch (error) {
+      // The server falls back to the full-size PNG
+      console.error("Chrome Extension: Failed to encode inline screenshot:", error);
+    }
+  }
+
+  console.log(`Chrome Extension: Sending ${source} screenshot data response`, {
+    ...response,
+    data: "[base64 data]",
+    inline: response.inline ? "[base64 data]" : undefined,
+  });
+
+  ws.send(JSON.stringify(response));
+}
+
 // Function to send a heartbeat to keep the WebSocket connection alive
 function sendHeartbeat() {
   if (ws && ws.readyState === WebSocket.OPEN) {
@@ -984,11 +1888,17 @@ async function setupWebSocket() {
   // Reset reconnect flag since validation succeeded
   reconnectAfterValidation = false;
 
-  const wsUrl = `ws://${settings.serverHost}:${settings.serverPort}/extension-ws`;
+  // Identify the inspected tab so the server can route commands to this panel
+  const wsUrl = `ws://${settings.serverHost}:${settings.serverPort}/extension-ws?tabId=${chrome.devtools.inspectedWindow.tabId}`;
   console.log(`Connecting to WebSocket at ${wsUrl}`);
 
   try {
-    ws = new WebSocket(wsUrl);
+    // Browsers cannot set headers on a WebSocket, so the token goes in the URL
+    ws = new WebSocket(
+      settings.authToken
+        ? `${wsUrl}&token=${encodeURIComponent(settings.authToken)}`
+        : wsUrl
+    );
 
     ws.onopen = () => {
       console.log(`Chrome Extension: WebSocket connected to ${wsUrl}`);
@@ -1149,6 +2059,100 @@ async function setupWebSocket() {
           // Just a heartbeat response, no action needed
           // Uncomment the next line for debug purposes only
           // console.log("Chrome Extension: Received heartbeat response");
+        } else if (
+          message.type === "take-screenshot" &&
+          (message.selector || message.fullPage)
+        ) {
+          console.log(
+            "Chrome Extension: Taking screenshot via debugger:",
+            message.selector ? `element ${message.selector}` : "full page"
+          );
+
+          captureWithDebugger(message)
+            .then((dataUrl) => sendScreenshotData(message, dataUrl, "debugger"))
+            .catch((error) => {
+              console.error("Chrome Extension: Debugger screenshot failed:", error);
+              ws.send(
+                JSON.stringify({
+                  type: "screenshot-error",
+                  error: error.message,
+                  reason: error.reason,
+                  requestId: message.requestId,
+                })
+              );
+            });
+        } else if (STORAGE_COMMAND_TYPES.includes(message.type)) {
+          console.log("Chrome Extension: Running storage command:", message.type);
+
+          runStorageCommand(message.command)
+            .then((result) => {
+              ws.send(
+                JSON.stringify({
+                  type: "storage-command-result",
+                  result,
+                  requestId: message.requestId,
+                })
+              );
+            })
+            .catch((error) => {
+              console.error("Chrome Extension: Storage command failed:", error);
+              ws.send(
+                JSON.stringify({
+                  type: "storage-command-error",
+                  error: error.message,
+                  reason: error.reason,
+                  requestId: message.requestId,
+                })
+              );
+            });
+        } else if (message.type === "evaluate-script") {
+          console.log("Chrome Extension: Evaluating script in the inspected page");
+
+          evaluateScript(message)
+            .then((result) => {
+              ws.send(
+                JSON.stringify({
+                  type: "evaluation-result",
+                  result,
+                  requestId: message.requestId,
+                })
+              );
+            })
+            .catch((error) => {
+              console.error("Chrome Extension: Script evaluation failed:", error);
+              ws.send(
+                JSON.stringify({
+                  type: "evaluation-error",
+                  error: error.message,
+                  reason: error.reason,
+                  requestId: message.requestId,
+                })
+              );
+            });
+        } else if (message.type === "automation-command") {
+          console.log("Chrome Extension: Running automation command:", message.command.action);
+
+          runAutomationCommand(message.command)
+            .then((result) => {
+              ws.send(
+                JSON.stringify({
+                  type: "automation-result",
+                  result,
+                  requestId: message.requestId,
+                })
+              );
+            })
+            .catch((error) => {
+              console.error("Chrome Extension: Automation command failed:", error);
+              ws.send(
+                JSON.stringify({
+                  type: "automation-error",
+                  error: error.message,
+                  reason: error.reason,
+                  requestId: message.requestId,
+                })
+              );
+            });
         } else if (message.type === "take-screenshot") {
           console.log("Chrome Extension: Taking screenshot...");
 
@@ -1184,24 +2188,7 @@ async function setupWebSocket() {
 
                   if (response && response.success && response.dataUrl) {
                     console.log("Chrome Extension: Background screenshot captured successfully");
-                    const screenshotResponse = {
-                      type: "screenshot-data",
-                      data: response.dataUrl,
-                      requestId: message.requestId,
-                      // Only include path if it's configured in settings
-                      ...(settings.screenshotPath && { path: settings.screenshotPath }),
-                      // Include auto-paste settings
-                      autoPaste: settings.allowAutoPaste,
-                      targetIDE: settings.targetIDE,
-                      customAppName: settings.customAppName,
-                    };
-
-                    console.log("Chrome Extension: Sending background screenshot data response", {
-                      ...screenshotResponse,
-                      data: "[base64 data]",
-                    });
-
-                    ws.send(JSON.stringify(screenshotResponse));
+                    sendScreenshotData(message, response.dataUrl, "background");
                   } else {
                     console.error("Chrome Extension: Background screenshot failed:", response?.error);
                     ws.send(
@@ -1219,24 +2206,7 @@ async function setupWebSocket() {
 
             console.log("Chrome Extension: Direct screenshot captured successfully");
             // Just send the screenshot data, let the server handle paths
-            const response = {
-              type: "screenshot-data",
-              data: dataUrl,
-              requestId: message.requestId,
-              // Only include path if it's configured in settings
-              ...(settings.screenshotPath && { path: settings.screenshotPath }),
-              // Include auto-paste settings
-              autoPaste: settings.allowAutoPaste,
-              targetIDE: settings.targetIDE,
-              customAppName: settings.customAppName,
-            };
-
-            console.log("Chrome Extension: Sending direct screenshot data response", {
-              ...response,
-              data: "[base64 data]",
-            });
-
-            ws.send(JSON.stringify(response));
+            sendScreenshotData(message, dataUrl, "direct");
           });
         } else if (message.type === "inspect-elements-by-selector") {
           console.log("Chrome Extension: Received request for inspecting elements by selector:", message.selector);
@@ -1574,6 +2544,42 @@ async function setupWebSocket() {
           };
 
           requestCurrentUrl();
+        } else if (message.type === "get-cookies" && message.session) {
+          // Authenticated audits need every cookie, including HttpOnly ones,
+          // with unredacted values; they stay on the local server
+          console.log("Chrome Extension: Getting session cookies for audit...");
+          chrome.runtime.sendMessage(
+            {
+              type: "GET_SESSION_COOKIES",
+              tabId: chrome.devtools.inspectedWindow.tabId,
+              url: message.url,
+            },
+            (response) => {
+              if (chrome.runtime.lastError || !response || !response.success) {
+                const error =
+                  (chrome.runtime.lastError && chrome.runtime.lastError.message) ||
+                  (response && response.error) ||
+                  "Failed to get session cookies";
+                console.error("Chrome Extension: " + error);
+                ws.send(
+                  JSON.stringify({
+                    type: "cookies-error",
+                    error: error,
+                    requestId: message.requestId,
+                  })
+                );
+                return;
+              }
+
+              ws.send(
+                JSON.stringify({
+                  type: "cookies-data",
+                  cookies: response.cookies,
+                  requestId: message.requestId,
+                })
+              );
+            }
+          );
         } else if (message.type === "get-cookies") {
           console.log("Chrome Extension: Getting cookies...");
           // Get cookies from the current tab
@@ -1674,9 +2680,10 @@ async function setupWebSocket() {
                 result
               );
 
-              // Filter sensitive data if showSensitive is false
+              // Filter sensitive data if showSensitive is false; audits
+              // (message.session) need the real values
               let storageData = result;
-              if (settings.sensitiveDataMode !== "show-all") {
+              if (settings.sensitiveDataMode !== "show-all" && !message.session) {
                 console.log(
                   "Chrome Extension: Filtering sensitive localStorage data"
                 );
@@ -11,6 +11,7 @@ let settings = {
   // Add server connection settings
   serverHost: "localhost",
   serverPort: 3025,
+  authToken: "", // Pairing token from the server's auth-token file
   allowAutoPaste: false, // Default auto-paste setting
   targetIDE: "cursor", // Default target IDE
   customAppName: "", // Custom application name
@@ -126,6 +127,13 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     serverConnected = false;
     updateConnectionBanner(false, null);
 
+    // Rediscovering the server does not help until the panel is paired
+    if (message.reason === "unauthorized") {
+      connectionStatusDiv.style.display = "block";
+      statusIcon.className = "status-indicator status-disconnected";
+      statusText.textContent = PAIRING_REQUIRED_MESSAGE;
+    }
+
     // Start auto-discovery if this was a page refresh validation
     if (
       message.reason === "connection_error" ||
@@ -327,6 +335,7 @@ const captureScreenshotButton = document.getElementById("capture-screenshot");
 // Server connection UI elements
 const serverHostInput = document.getElementById("server-host");
 const serverPortInput = document.getElementById("server-port");
+const authTokenInput = document.getElementById("auth-token");
 const discoverServerButton = document.getElementById("discover-server");
 const testConnectionButton = document.getElementById("test-connection");
 const connectionStatusDiv = document.getElementById("connection-status");
@@ -379,6 +388,7 @@ function updateUIFromSettings() {
   screenshotPathInput.value = settings.screenshotPath;
   serverHostInput.value = settings.serverHost;
   serverPortInput.value = settings.serverPort;
+  authTokenInput.value = settings.authToken;
   allowAutoPasteCheckbox.checked = settings.allowAutoPaste;
   targetIDESelect.value = settings.targetIDE;
   customAppNameInput.value = settings.customAppName;
@@ -405,6 +415,16 @@ function updateUIFromSettings() {
 }
 
 // Save settings
+// Headers that authenticate requests to the browser connector
+function getAuthHeaders() {
+  return settings.authToken
+    ? { Authorization: `Bearer ${settings.authToken}` }
+    : {};
+}
+
+const PAIRING_REQUIRED_MESSAGE =
+  "The server requires a pairing token: paste the contents of ~/.webai-mcp/auth-token from the server machine into Pairing Token";
+
 function saveSettings() {
   chrome.storage.local.set({ browserConnectorSettings: settings });
   // Notify devtools.js about settings change
@@ -486,6 +506,13 @@ serverPortInput.addEventListener("change", (e) => {
   testConnection(settings.serverHost, settings.serverPort);
 });
 
+authTokenInput.addEventListener("change", (e) => {
+  settings.authToken = e.target.value.trim();
+  saveSettings();
+  // Automatically test connection when the pairing token is changed
+  testConnection(settings.serverHost, settings.serverPort);
+});
+
 // Add event listener for auto-paste checkbox
 allowAutoPasteCheckbox.addEventListener("change", (e) => {
   settings.allowAutoPaste = e.target.checked;
@@ -559,6 +586,7 @@ async function testConnection(host, port) {
   try {
     // Use the identity endpoint instead of .port for more reliable validation
     const response = await fetch(`http://${host}:${port}/.identity`, {
+      headers: getAuthHeaders(),
       signal: AbortSignal.timeout(5000), // 5 second timeout
     });
 
@@ -575,6 +603,14 @@ async function testConnection(host, port) {
         return false;
       }
 
+      if (identity.authRequired && !identity.authorized) {
+        statusIcon.className = "status-indicator status-disconnected";
+        statusText.textContent = PAIRING_REQUIRED_MESSAGE;
+        serverConnected = false;
+        updateConnectionBanner(false, null);
+        return false;
+      }
+
       statusIcon.className = "status-indicator status-connected";
       statusText.textContent = `Connected successfully to ${identity.name} v${identity.version} at ${host}:${port}`;
       serverConnected = true;
@@ -638,6 +674,24 @@ function scheduleReconnectAttempt() {
   }, 30000); // 30 seconds
 }
 
+// Asks a server that passed the signature check whether the pairing token is
+// valid. Discovery probes other hosts without the token, so it only ever goes
+// to the Browser Tools server.
+async function checkPairing(host, port, identity) {
+  if (!identity.authRequired || !settings.authToken) {
+    return identity;
+  }
+  try {
+    const response = await fetch(`http://${host}:${port}/.identity`, {
+      headers: getAuthHeaders(),
+      signal: AbortSignal.timeout(2000),
+    });
+    return response.ok ? await response.json() : identity;
+  } catch (error) {
+    return identity;
+  }
+}
+
 // Helper function to try connecting to a server
 async function tryServerConnection(host, port) {
   try {
@@ -653,7 +707,8 @@ async function tryServerConnection(host, port) {
     }, 500); // 500ms timeout for each connection attempt
 
     try {
-      // Use identity endpoint for validation
+      // Use identity endpoint for validation; it is public, so the pairing
+      // token is not sent to hosts that may not be our server
       const response = await fetch(`http://${host}:${port}/.identity`, {
         // Use a local controller for this specific request timeout
         // but also respect the global discovery cancellation
@@ -670,7 +725,7 @@ async function tryServerConnection(host, port) {
       }
 
       if (response.ok) {
-        const identity = await response.json();
+        let identity = await response.json();
 
         // Verify this is actually our server by checking the signature
         if (identity.signature !== "mcp-browser-connector-24x7") {
@@ -681,6 +736,7 @@ async function tryServerConnection(host, port) {
         }
 
         console.log(`Successfully found server at ${host}:${port}`);
+        identity = await checkPairing(host, port, identity);
 
         // Update settings with discovered server
         settings.serverHost = host;
@@ -691,6 +747,10 @@ async function tryServerConnection(host, port) {
 
         statusIcon.className = "status-indicator status-connected";
         statusText.textContent = `Discovered ${identity.name} v${identity.version} at ${host}:${identity.port}`;
+        if (identity.authRequired && !identity.authorized) {
+          statusIcon.className = "status-indicator status-disconnected";
+          statusText.textContent += `. ${PAIRING_REQUIRED_MESSAGE}`;
+        }
 
         // Update connection banner with server info
         updateConnectionBanner(true, identity);
@@ -1041,7 +1101,7 @@ wipeLogsButton.addEventListener("click", () => {
 
   fetch(serverUrl, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
   })
     .then((response) => response.json())
     .then((result) => {
@@ -1081,6 +1141,7 @@ function getExtensionVersion() {
 async function getServerInfo() {
   try {
     const response = await fetch(`http://${settings.serverHost}:${settings.serverPort}/.identity`, {
+      headers: getAuthHeaders(),
       signal: AbortSignal.timeout(3000)
     });
 
@@ -1109,6 +1170,7 @@ async function checkMCPServerConnectivity() {
   try {
     // Check if the browser-tools-server is running (which hosts the MCP server)
     const response = await fetch(`http://${settings.serverHost}:${settings.serverPort}/.identity`, {
+      headers: getAuthHeaders(),
       signal: AbortSignal.timeout(3000)
     });
 
@@ -41,6 +41,7 @@ export class ErrorHandler {
     NETWORK_ERROR: /network error|fetch failed/i,
 
     // Server errors
+    UNAUTHORIZED: /Server returned 401|auth token/i,
     SERVER_NOT_FOUND: /Failed to discover|No server found|server not found/i,
     WRONG_SIGNATURE: /wrong signature|not the Browser Tools server/i,
     SERVER_ERROR: /Server returned [45]\d\d/i,
@@ -75,6 +76,10 @@ export class ErrorHandler {
   }
 
   private static categorizeError(errorMessage: string): EnhancedError['type'] {
+    if (this.ERROR_PATTERNS.UNAUTHORIZED.test(errorMessage)) {
+      return 'configuration';
+    }
+
     if (this.ERROR_PATTERNS.ECONNREFUSED.test(errorMessage) ||
         this.ERROR_PATTERNS.ENOTFOUND.test(errorMessage) ||
         this.ERROR_PATTERNS.TIMEOUT.test(errorMessage) ||
@@ -151,6 +156,9 @@ export class ErrorHandler {
         return `Browser-related error. Please check your Chrome installation and extension setup.`;
 
       case 'configuration':
+        if (this.ERROR_PATTERNS.UNAUTHORIZED.test(errorMessage)) {
+          return `Browser Tools Server at ${context.host}:${context.port} rejected the request because the auth token is missing or wrong.`;
+        }
         if (this.ERROR_PATTERNS.BUILD_FAILED.test(errorMessage)) {
           return `Build process failed. The Browser Tools packages may not be properly built.`;
         }
@@ -269,6 +277,16 @@ export class ErrorHandler {
         break;
 
       case 'configuration':
+        if (this.ERROR_PATTERNS.UNAUTHORIZED.test(errorMessage)) {
+          solutions.push({
+            title: 'Provide the Auth Token',
+            description: 'The MCP server reads the token the Browser Tools Server writes on startup. Set BROWSER_TOOLS_TOKEN if the server runs on another machine or uses AUTH_TOKEN_FILE.',
+            commands: ['cat ~/.webai-mcp/auth-token'],
+            priority: 'high'
+          });
+          break;
+        }
+
         solutions.push({
           title: 'Rebuild Packages',
           description: 'Clean and rebuild all WebAI-MCP packages.',
@@ -0,0 +1,210 @@
+/**
+ * Streamable HTTP Transport for WebAI-MCP
+ *
+ * Serves the MCP tools over MCP's Streamable HTTP transport instead of stdio,
+ * so remote agents and several clients can share one MCP server process.
+ * Each client session gets its own McpServer; responses and server-initiated
+ * messages are streamed as Server-Sent Events. Host and Origin headers are
+ * checked so that web pages cannot reach the tools through DNS rebinding, and
+ * sessions of clients that went away without closing them are evicted.
+ */
+
+import { randomUUID, timingSafeEqual } from "crypto";
+import type { Server } from "http";
+import express, { type NextFunction, type Request, type Response } from "express";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  path: string; // Endpoint the MCP client connects to, e.g. /mcp
+  getAuthToken: () => string | undefined; // Token clients must send, if any
+  sessionTimeout: number; // Ms without requests or open streams before a session is closed
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  openStreams: number; // GET streams waiting for server-initiated messages
+}
+
+const SESSION_HEADER = "mcp-session-id";
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+const WILDCARD_HOSTS = ["0.0.0.0", "::"];
+
+function formatHost(host: string, port: number): string {
+  return host.includes(":") ? `[${host}]:${port}` : `${host}:${port}`;
+}
+
+// Host header values clients may use; a DNS rebinding page sends its own
+// domain. Servers on every interface cannot list their names and rely on the
+// token instead.
+function getAllowedHosts(host: string, port: number): string[] {
+  if (WILDCARD_HOSTS.includes(host)) return [];
+  const names = LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host];
+  return names.map((name) => formatHost(name, port));
+}
+
+function sendJsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+function isTokenValid(expected: string, authorization?: string): boolean {
+  if (!authorization?.startsWith("Bearer ")) return false;
+  const received = Buffer.from(authorization.substring("Bearer ".length).trim());
+  const token = Buffer.from(expected);
+  return received.length === token.length && timingSafeEqual(received, token);
+}
+
+/**
+ * Starts an HTTP server for MCP clients
+ * @param createServer Creates the McpServer for a new client session
+ * @param options Where to listen and how to authenticate clients
+ * @returns The listening HTTP server
+ */
+export async function startHttpTransport(
+  createServer: () => McpServer,
+  options: HttpTransportOptions
+): Promise<Server> {
+  // Anyone on the network could use the browser without a token
+  if (!LOOPBACK_HOSTS.includes(options.host) && !options.getAuthToken()) {
+    throw new Error(
+      `Refusing to listen on ${options.host} without an auth token. Start the browser connector first or set BROWSER_TOOLS_TOKEN`
+    );
+  }
+
+  const allowedHosts = getAllowedHosts(options.host, options.port);
+  const sessions = new Map<string, Session>();
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+
+  // Clients authenticate with the same token as the browser connector
+  app.use(options.path, (req: Request, res: Response, next: NextFunction) => {
+    const token = options.getAuthToken();
+    if (token && !isTokenValid(token, req.headers.authorization)) {
+      sendJsonRpcError(res, 401, "Unauthorized: missing or invalid auth token");
+      return;
+    }
+    next();
+  });
+
+  app.post(options.path, async (req: Request, res: Response) => {
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+
+    try {
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      let transport = session?.transport;
+
+      if (!transport) {
+        if (sessionId || !isInitializeRequest(req.body)) {
+          sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+          return;
+        }
+
+        // A new client: give it its own transport and server
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, {
+              transport: newTransport,
+              lastActivity: Date.now(),
+              openStreams: 0,
+            });
+            console.error(`MCP HTTP session started: ${id}`);
+          },
+          enableDnsRebindingProtection: allowedHosts.length > 0,
+          allowedHosts,
+          allowedOrigins: allowedHosts.map((host) => `http://${host}`),
+        });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            sessions.delete(newTransport.sessionId);
+            console.error(`MCP HTTP session closed: ${newTransport.sessionId}`);
+          }
+        };
+        await createServer().connect(newTransport);
+        transport = newTransport;
+      } else {
+        session!.lastActivity = Date.now();
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error("Error handling MCP HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  // GET opens the SSE stream for server-initiated messages; DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      sendJsonRpcError(res, 400, "Bad Request: invalid or missing session ID");
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    if (req.method === "GET") {
+      session.openStreams++;
+      res.on("close", () => {
+        session.openStreams--;
+        session.lastActivity = Date.now();
+      });
+    }
+    await session.transport.handleRequest(req, res);
+  };
+  app.get(options.path, handleSessionRequest);
+  app.delete(options.path, handleSessionRequest);
+
+  const httpServer = await new Promise<Server>((resolve, reject) => {
+    const listener = app.listen(options.port, options.host, (error?: Error) =>
+      error ? reject(error) : resolve(listener)
+    );
+  });
+
+  console.error(
+    `MCP server listening on http://${options.host}:${options.port}${options.path}`
+  );
+  if (!options.getAuthToken()) {
+    console.error(
+      "No auth token found: MCP HTTP clients are not authenticated. Start the browser connector first or set BROWSER_TOOLS_TOKEN"
+    );
+  }
+
+  // Clients may go away without ending their session; closing the transport
+  // also closes its McpServer and resource subscriptions
+  const evictionTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.openStreams === 0 && now - session.lastActivity > options.sessionTimeout) {
+        console.error(`MCP HTTP session idle, closing: ${id}`);
+        session.transport.close().catch(() => undefined);
+      }
+    }
+  }, Math.min(options.sessionTimeout, 60000));
+  evictionTimer.unref();
+
+  // Close every session so clients see the server go away
+  const shutdown = async () => {
+    clearInterval(evictionTimer);
+    for (const session of sessions.values()) {
+      await session.transport.close().catch(() => undefined);
+    }
+    httpServer.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  return httpServer;
+}
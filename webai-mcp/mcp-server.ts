@@ -1,15 +1,29 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+  type RegisteredPrompt,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import path from "path";
 import fs from "fs";
 import os from "os";
+import { execSync } from "child_process";
 // Using zod from the @modelcontextprotocol/sdk dependencies
 // This avoids adding zod as a direct dependency to package.json
 import { z } from "zod";
 import { ErrorHandler, type ErrorContext } from "./error-handler.js";
 import { VersionChecker } from "./version-checker.js";
+import { startHttpTransport } from "./http-transport.js";
+import { ResourceSubscriptions } from "./resource-subscriptions.js";
+import {
+  BUILT_IN_PROMPTS,
+  getDefaultPromptDirectory,
+  getRootPromptDirectory,
+  loadPromptTemplates,
+  type PromptDefinition,
+} from "./prompts.js";
 
 // Get version from package.json
 let packageVersion = "1.4.0"; // fallback version
@@ -23,11 +37,25 @@ try {
   console.warn("Could not read package.json version, using fallback:", packageVersion);
 }
 
-// Create the MCP server
-const server = new McpServer({
-  name: "Browser Tools MCP",
-  version: packageVersion,
-});
+// Create an MCP server with every tool, resource and prompt registered: the
+// stdio server, or one per client session in HTTP mode
+function createMcpServer(): McpServer {
+  const mcpServer = new McpServer({
+    name: "Browser Tools MCP",
+    version: packageVersion,
+  });
+  registerAll(mcpServer);
+  resourceSubscriptions.attach(mcpServer);
+  return mcpServer;
+}
+
+// Transport from the command line (--http) or MCP_TRANSPORT; stdio by default
+function getTransportMode(): "stdio" | "http" {
+  if (process.argv.includes("--http")) {
+    return "http";
+  }
+  return process.env.MCP_TRANSPORT === "http" ? "http" : "stdio";
+}
 
 // Track the discovered server connection
 let discoveredHost = "127.0.0.1";
@@ -72,6 +100,46 @@ function getDefaultServerHost(): string {
   return "127.0.0.1";
 }
 
+// Function to get the auth token the browser connector requires
+function getAuthToken(): string | undefined {
+  // Check environment variable first
+  if (process.env.BROWSER_TOOLS_TOKEN) {
+    return process.env.BROWSER_TOOLS_TOKEN.trim();
+  }
+
+  // Then a token file next to the .port file, then the one the server writes
+  const tokenFiles = [
+    path.join(__dirname, ".auth-token"),
+    process.env.AUTH_TOKEN_FILE ||
+      path.join(os.homedir(), ".webai-mcp", "auth-token"),
+  ];
+  for (const tokenFile of tokenFiles) {
+    try {
+      if (fs.existsSync(tokenFile)) {
+        const token = fs.readFileSync(tokenFile, "utf8").trim();
+        if (token) {
+          return token;
+        }
+      }
+    } catch (err) {
+      console.error("Error reading auth token file:", err);
+    }
+  }
+
+  return undefined;
+}
+
+// fetch() with the auth token the browser connector requires; the token file
+// is read on every call so a server started later is still found
+function fetchFromServer(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getAuthToken();
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  return fetch(url, { ...init, headers });
+}
+
 // Server discovery function - similar to what you have in the Chrome extension
 async function discoverServer(): Promise<boolean> {
   console.log("Starting server discovery process");
@@ -99,13 +167,14 @@ async function discoverServer(): Promise<boolean> {
       try {
         console.log(`Checking ${host}:${port}...`);
 
-        // Use the identity endpoint for validation
+        // Use the identity endpoint for validation; it is public, so the
+        // auth token is not sent to hosts that may not be our server
         const response = await fetch(`http://${host}:${port}/.identity`, {
           signal: AbortSignal.timeout(1000), // 1 second timeout
         });
 
         if (response.ok) {
-          const identity = await response.json();
+          let identity = await response.json();
 
           // Verify this is actually our server by checking the signature
           if (identity.signature === "mcp-browser-connector-24x7") {
@@ -116,6 +185,23 @@ async function discoverServer(): Promise<boolean> {
             discoveredPort = port;
             serverDiscovered = true;
 
+            // Now that the server is known, check that the token is accepted
+            if (identity.authRequired && getAuthToken()) {
+              const authResponse = await fetchFromServer(
+                `http://${host}:${port}/.identity`,
+                { signal: AbortSignal.timeout(1000) }
+              ).catch(() => null);
+              if (authResponse?.ok) {
+                identity = await authResponse.json();
+              }
+            }
+
+            if (identity.authRequired && !identity.authorized) {
+              console.error(
+                "The server requires an auth token: set BROWSER_TOOLS_TOKEN or check ~/.webai-mcp/auth-token"
+              );
+            }
+
             return true;
           }
         }
@@ -226,43 +312,311 @@ async function withServerConnection<T>(
   }
 }
 
-// We'll define our tools that retrieve data from the browser connector
-server.tool("getConsoleLogs", "Check our browser logs", async () => {
-  return await withServerConnection(async () => {
-    const response = await fetch(
-      `http://${discoveredHost}:${discoveredPort}/console-logs`
+// Targets a command at one inspected tab; see the listTabs tool
+const tabTargetSchema = {
+  tabId: z
+    .union([z.number().int(), z.string()])
+    .optional()
+    .describe("ID of the browser tab to target (see listTabs). Defaults to the most recently active tab"),
+};
+
+// Builds the tab-targeting query string for GET endpoints
+function buildTabQueryString(tabId?: number | string): string {
+  return tabId !== undefined ? `?tabId=${encodeURIComponent(String(tabId))}` : "";
+}
+
+// Filters and pagination shared by the log tools (parsed by log-query.ts on the server)
+const logFilterSchema = {
+  tabId: z
+    .union([z.number().int(), z.string()])
+    .optional()
+    .describe("Only include entries captured in this browser tab (see listTabs)"),
+  since: z
+    .union([z.number(), z.string()])
+    .optional()
+    .describe("Only include entries at or after this time (epoch milliseconds or ISO 8601 date)"),
+  until: z
+    .union([z.number(), z.string()])
+    .optional()
+    .describe("Only include entries at or before this time (epoch milliseconds or ISO 8601 date)"),
+  search: z.string().optional().describe("Case-insensitive text to search for in messages, URLs and bodies"),
+};
+
+const logPaginationSchema = {
+  cursor: z.string().optional().describe("The nextCursor value from a previous call, to fetch the next page"),
+  limit: z.number().int().positive().optional().describe("Maximum number of entries to return"),
+  order: z
+    .enum(["asc", "desc"])
+    .optional()
+    .describe("Sort order: 'desc' returns the newest entries first (default), 'asc' the oldest first"),
+};
+
+const consoleLogFilterSchema = {
+  level: z
+    .array(z.string())
+    .optional()
+    .describe("Only include these console levels (e.g., ['error', 'warning', 'log', 'info', 'debug'])"),
+  ...logFilterSchema,
+  ...logPaginationSchema,
+};
+
+const networkRequestFilterSchema = {
+  url: z.string().optional().describe("Only include requests whose URL contains this substring"),
+  urlPattern: z
+    .string()
+    .refine((pattern) => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    }, "urlPattern must be a valid regular expression")
+    .optional()
+    .describe("Only include requests whose URL matches this regular expression (case-insensitive)"),
+  method: z.array(z.string()).optional().describe("Only include these HTTP methods (e.g., ['GET', 'POST'])"),
+  statusMin: z.number().int().optional().describe("Only include responses with at least this status code"),
+  statusMax: z.number().int().optional().describe("Only include responses with at most this status code"),
+  ...logFilterSchema,
+};
+
+const networkLogFilterSchema = {
+  ...networkRequestFilterSchema,
+  ...logPaginationSchema,
+};
+
+// Builds the query string for a log endpoint, skipping unset parameters
+function buildLogQueryString(params: Record<string, unknown>): string {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    searchParams.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  const queryString = searchParams.toString();
+  return queryString ? `?${queryString}` : "";
+}
+
+// Define audit categories as enum to match the server's AuditCategory enum
+enum AuditCategory {
+  ACCESSIBILITY = "accessibility",
+  PERFORMANCE = "performance",
+  SEO = "seo",
+  BEST_PRACTICES = "best-practices",
+  PWA = "pwa",
+}
+
+// Lighthouse run settings shared by the audit tools (validated by the server)
+const auditSettingsSchema = {
+  formFactor: z
+    .enum(["mobile", "desktop"])
+    .optional()
+    .describe("Device to emulate (default: desktop)"),
+  throttling: z
+    .enum(["none", "simulated4G", "slow4G", "custom"])
+    .optional()
+    .describe(
+      "Network and CPU throttling: 'none', 'simulated4G' (fast 4G, the desktop default), 'slow4G' (slow 4G on a mid-tier phone, the mobile default) or 'custom' (see customThrottling)"
+    ),
+  customThrottling: z
+    .object({
+      rttMs: z.number().nonnegative().optional().describe("Round trip time in ms"),
+      throughputKbps: z.number().nonnegative().optional().describe("Download throughput in Kbps"),
+      cpuSlowdownMultiplier: z.number().min(1).optional().describe("CPU slowdown, 1 means none"),
+    })
+    .optional()
+    .describe("Throttling values used when throttling is 'custom'"),
+  screenEmulation: z
+    .object({
+      width: z.number().int().positive().optional(),
+      height: z.number().int().positive().optional(),
+      deviceScaleFactor: z.number().positive().optional(),
+      mobile: z.boolean().optional().describe("Must be true for the mobile form factor and false for desktop"),
+    })
+    .optional()
+    .describe("Viewport to emulate; missing values default to the form factor's viewport"),
+  locale: z
+    .string()
+    .optional()
+    .describe("Locale the page is requested in, sent as Accept-Language (e.g., 'de-DE')"),
+  saveRawReport: z
+    .boolean()
+    .optional()
+    .describe(
+      "Also save the complete Lighthouse JSON and HTML reports; the response's rawReport has their file paths (not for PWA audits)"
+    ),
+};
+
+// Budgets checked by the performance and full audits, in budget.json format
+const budgetSchema = {
+  budgets: z
+    .array(
+      z.object({
+        path: z.string().optional().describe("Pages the budget applies to, e.g. '/checkout/*'; all pages if omitted"),
+        timings: z
+          .array(
+            z.object({
+              metric: z.string().describe("Metric such as 'largest-contentful-paint' or 'lcp', 'tbt', 'cls'"),
+              budget: z.number().nonnegative().describe("Limit in ms (unitless for cls)"),
+              tolerance: z.number().nonnegative().optional(),
+            })
+          )
+          .optional(),
+        resourceSizes: z
+          .array(z.object({ resourceType: z.string(), budget: z.number().nonnegative().describe("Limit in KB") }))
+          .optional(),
+        resourceCounts: z
+          .array(z.object({ resourceType: z.string(), budget: z.number().nonnegative().describe("Limit in requests") }))
+          .optional(),
+      })
+    )
+    .optional()
+    .describe(
+      "Performance budgets; resource types are document, font, image, media, other, script, stylesheet, third-party and total"
+    ),
+  budgetPath: z
+    .string()
+    .optional()
+    .describe("Path to a budget.json file on this machine, read by the MCP server; use instead of budgets"),
+};
+
+// The browser connector only accepts inline budgets over HTTP, so a budget
+// file is read here and sent as budgets
+function readBudgetFile<T extends { budgets?: unknown; budgetPath?: string }>(
+  params: T
+): Omit<T, "budgetPath"> {
+  const { budgetPath, ...rest } = params;
+  if (!budgetPath) return rest;
+  if (rest.budgets !== undefined) {
+    throw new Error("Provide either budgets or budgetPath, not both");
+  }
+
+  try {
+    return { ...rest, budgets: JSON.parse(fs.readFileSync(budgetPath, "utf8")) };
+  } catch (error) {
+    throw new Error(
+      `Could not read budget file ${budgetPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+// Pages to audit; without them the audit runs on the inspected tab's page
+const auditTargetSchema = {
+  url: z
+    .string()
+    .optional()
+    .describe("URL to audit instead of the current page; works without the extension connected"),
+  urls: z
+    .array(z.string())
+    .optional()
+    .describe("Several URLs to audit one after another (at most 10); use instead of url"),
+  useBrowserSession: z
+    .boolean()
+    .optional()
+    .describe(
+      "Audit as the signed-in user by copying the browser's cookies for the audited URL; session values are scrubbed from the report"
+    ),
+  includeLocalStorage: z
+    .boolean()
+    .optional()
+    .describe("With useBrowserSession, also copy the inspected tab's localStorage (same origin only)"),
+  label: z
+    .string()
+    .optional()
+    .describe("Label saved with the run in the audit history (e.g., 'before refactor'); the current git commit is saved automatically"),
+  ...tabTargetSchema,
+};
+
+// Short hash of the git commit checked out in the working directory, if any
+function getGitCommit(): string | undefined {
+  try {
+    return (
+      execSync("git rev-parse --short HEAD", {
+        encoding: "utf8",
+        stdio: ["ignore", "pipe", "ignore"],
+        timeout: 2000,
+      }).trim() || undefined
     );
+  } catch {
+    return undefined;
+  }
+}
 
-    if (!response.ok) {
-      throw new Error(`Server returned ${response.status}: ${response.statusText}`);
-    }
+// Flattens a report by merging its metadata with the report contents
+function flattenAuditReport(json: any): any {
+  if (!json?.report) {
+    // Return as-is if it's not in the new format
+    return json;
+  }
+  const { metadata, report } = json;
+  return { ...metadata, ...report };
+}
 
-    const json = await response.json();
+// Formats a single-URL report or a multi-URL { results } response
+function formatAuditResponse(json: any): any {
+  if (Array.isArray(json?.results)) {
     return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(json, null, 2),
-        },
-      ],
+      results: json.results.map((result: any) =>
+        result.report
+          ? { url: result.url, ...flattenAuditReport(result.report) }
+          : result
+      ),
     };
-  }, "get console logs");
-});
+  }
+  return flattenAuditReport(json);
+}
 
-server.tool(
-  "getConsoleErrors",
-  "Check our browsers console errors",
-  async () => {
-    return await withServerConnection(async () => {
-      const response = await fetch(
-        `http://${discoveredHost}:${discoveredPort}/console-errors`
+// Filters shared by the audit history tools
+const auditHistoryFilterSchema = {
+  url: z.string().optional().describe("Only include runs of this URL"),
+  category: z
+    .enum(["accessibility", "performance", "seo", "best-practices", "pwa", "full"])
+    .optional()
+    .describe("Only include runs of this audit"),
+  device: z.enum(["mobile", "desktop"]).optional().describe("Only include runs on this form factor"),
+  label: z.string().optional().describe("Only include runs saved with this label"),
+  commit: z.string().optional().describe("Only include runs of this git commit (prefix match)"),
+};
+
+// Builds the query string for the audit history endpoints
+function buildAuditHistoryQuery(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+  const text = query.toString();
+  return text ? `?${text}` : "";
+}
+
+// Posts a command for the inspected tab to a server endpoint, which forwards
+// it to the extension; used by the automation and cookie/storage write tools
+async function sendBrowserCommand(
+  endpoint: string,
+  body: Record<string, unknown>,
+  description: string
+) {
+  return await withServerConnection(async () => {
+    try {
+      const response = await fetchFromServer(
+        `http://${discoveredHost}:${discoveredPort}/${endpoint}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify(body),
+        }
       );
 
+      const json = await response.json().catch(() => ({}));
       if (!response.ok) {
-        throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+        // Errors carry a reason the client can act on, e.g. selector-not-found
+        const reason = json.reason ? ` (${json.reason})` : "";
+        throw new Error(`${json.error || `Server returned ${response.status}`}${reason}`);
       }
 
-      const json = await response.json();
       return {
         content: [
           {
@@ -271,415 +625,709 @@ server.tool(
           },
         ],
       };
-    }, "get console errors");
-  }
-);
-
-server.tool("getNetworkErrors", "Check our network ERROR logs", async () => {
-  return await withServerConnection(async () => {
-    const response = await fetch(
-      `http://${discoveredHost}:${discoveredPort}/network-errors`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Server returned ${response.status}: ${response.statusText}`);
-    }
-
-    const json = await response.json();
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(json, null, 2),
-        },
-      ],
-      isError: true,
-    };
-  }, "get network errors");
-});
-
-server.tool("getNetworkLogs", "Check ALL our network logs", async () => {
-  return await withServerConnection(async () => {
-    const response = await fetch(
-      `http://${discoveredHost}:${discoveredPort}/network-success`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Server returned ${response.status}: ${response.statusText}`);
-    }
-
-    const json = await response.json();
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(json, null, 2),
-        },
-      ],
-    };
-  }, "get network logs");
-});
-
-server.tool(
-  "takeScreenshot",
-  "Take a screenshot of the current browser tab",
-  async () => {
-    return await withServerConnection(async () => {
-      try {
-        const response = await fetch(
-          `http://${discoveredHost}:${discoveredPort}/capture-screenshot`,
-          {
-            method: "POST",
-          }
-        );
-
-        const result = await response.json();
-
-        if (response.ok) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "Successfully saved screenshot",
-              },
-            ],
-          };
-        } else {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error taking screenshot: ${result.error}`,
-              },
-            ],
-          };
-        }
-      } catch (error: any) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Failed to take screenshot: ${errorMessage}`,
-            },
-          ],
-        };
-      }
-    });
-  }
-);
-
-server.tool(
-  "getSelectedElement",
-  "Get the selected element from the browser",
-  async () => {
-    return await withServerConnection(async () => {
-      const response = await fetch(
-        `http://${discoveredHost}:${discoveredPort}/selected-element`
-      );
-      const json = await response.json();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error in ${description}:`, errorMessage);
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(json, null, 2),
+            text: `Failed to ${description}: ${errorMessage}`,
           },
         ],
+        isError: true,
       };
+    }
+  }, description);
+}
+
+const automationSelectorSchema = z
+  .string()
+  .describe("CSS selector of the target element; the first match is used");
+
+// Removals only run with confirm: true, so that they are never a side effect
+const confirmSchema = {
+  confirm: z
+    .boolean()
+    .optional()
+    .describe("Must be true to remove data; confirm with the user before setting it"),
+};
+
+const storageAreaSchema = z
+  .enum(["local", "session"])
+  .describe("localStorage or sessionStorage");
+
+const cookieUrlSchema = z
+  .string()
+  .optional()
+  .describe("URL whose cookies are changed (default: the inspected tab's URL)");
+
+// Read-only browser data as resources. Clients can subscribe to the log and
+// selected element resources; new screenshots and audit runs change the lists.
+const resourceSubscriptions = new ResourceSubscriptions({
+  topicUris: {
+    "console-logs": "browser://console/logs",
+    "console-errors": "browser://console/errors",
+    "network-errors": "browser://network/errors",
+    "network-success": "browser://network/success",
+    "selected-element": "browser://selected-element",
+  },
+  listTopics: ["screenshots", "audits"],
+  openEventStream: async (signal) => {
+    if (!serverDiscovered && !(await discoverServer())) {
+      return null;
+    }
+    return fetchFromServer(`http://${discoveredHost}:${discoveredPort}/events`, {
+      signal,
     });
+  },
+});
+
+// Fetches a resource from the browser connector, discovering it if needed
+async function readFromServer(endpoint: string): Promise<Response> {
+  if (!serverDiscovered && !(await discoverServer())) {
+    throw new Error("Browser Tools Server not found. Please start the server.");
+  }
+  const response = await fetchFromServer(
+    `http://${discoveredHost}:${discoveredPort}${endpoint}`
+  );
+  if (!response.ok) {
+    const json = await response.json().catch(() => ({}));
+    throw new Error(json.error || `Server returned ${response.status}`);
   }
-);
+  return response;
+}
 
-server.tool(
-  "inspectElementsBySelector",
-  "Get HTML elements and their CSS styles matching a CSS selector",
+const logResources = [
   {
-    selector: z.string().describe("CSS selector to find elements (e.g., '.classname', '#id', 'div.container > p')"),
-    resultLimit: z.number().optional().default(1).describe("Maximum number of elements to process (default: 1)"),
-    includeComputedStyles: z.array(z.string()).optional().default([]).describe("Array of specific CSS properties to include in the computed styles output (empty array means no computed styles)")
+    name: "console-logs",
+    uri: "browser://console/logs",
+    endpoint: "/console-logs",
+    description: "Console logs captured in the browser, newest first",
   },
-  async ({ selector, resultLimit = 1, includeComputedStyles = [] }) => {
-    return await withServerConnection(async () => {
-      try {
-        // Call the browser-connector endpoint
-        const response = await fetch(
-          `http://${discoveredHost}:${discoveredPort}/inspect-elements-by-selector`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json"
-            },
-            body: JSON.stringify({ selector, resultLimit, includeComputedStyles })
-          }
+  {
+    name: "console-errors",
+    uri: "browser://console/errors",
+    endpoint: "/console-errors",
+    description: "Console errors captured in the browser, newest first",
+  },
+  {
+    name: "network-errors",
+    uri: "browser://network/errors",
+    endpoint: "/network-errors",
+    description: "Failed network requests (status 400 and above), newest first",
+  },
+  {
+    name: "network-success",
+    uri: "browser://network/success",
+    endpoint: "/network-success",
+    description: "Successful network requests, newest first",
+  },
+];
+
+// Registers every tool, resource and prompt on an MCP server instance
+function registerAll(server: McpServer): void {
+  // We'll define our tools that retrieve data from the browser connector
+  server.tool(
+    "getConsoleLogs",
+    "Check our browser logs. Supports filtering and cursor-based pagination",
+    consoleLogFilterSchema,
+    async (params) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/console-logs${buildLogQueryString(params)}`
         );
 
-        const result = await response.json().catch(() => null);
-        if (result?.error) {
-          throw new Error(result.error);
-        }
-        if (!response.ok || result === null) {
-          throw new Error(`Server returned error: ${response.status}`);
+        if (!response.ok) {
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
         }
 
+        const json = await response.json();
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(result.data || {}, null, 2)
-            }
-          ]
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
         };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error("Error inspecting elements by selector:", errorMessage);
+      }, "get console logs");
+    }
+  );
+
+  server.tool(
+    "getConsoleErrors",
+    "Check our browsers console errors. Supports filtering and cursor-based pagination",
+    consoleLogFilterSchema,
+    async (params) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/console-errors${buildLogQueryString(params)}`
+        );
+
+        if (!response.ok) {
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+        }
+
+        const json = await response.json();
         return {
           content: [
             {
               type: "text",
-              text: `Failed to inspect elements by selector: ${errorMessage}`
-            }
+              text: JSON.stringify(json, null, 2),
+            },
           ],
-          isError: true
         };
-      }
-    });
-  }
-);
-
-server.tool("wipeLogs", "Wipe all browser logs from memory", async () => {
-  return await withServerConnection(async () => {
-    const response = await fetch(
-      `http://${discoveredHost}:${discoveredPort}/wipelogs`,
-      {
-        method: "POST",
-      }
-    );
-    const json = await response.json();
-    return {
-      content: [
-        {
-          type: "text",
-          text: json.message,
-        },
-      ],
-    };
-  });
-});
+      }, "get console errors");
+    }
+  );
+
+  server.tool(
+    "getNetworkErrors",
+    "Check our network ERROR logs. Supports filtering and cursor-based pagination",
+    networkLogFilterSchema,
+    async (params) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/network-errors${buildLogQueryString(params)}`
+        );
 
-// Define audit categories as enum to match the server's AuditCategory enum
-enum AuditCategory {
-  ACCESSIBILITY = "accessibility",
-  PERFORMANCE = "performance",
-  SEO = "seo",
-  BEST_PRACTICES = "best-practices",
-  PWA = "pwa",
-}
+        if (!response.ok) {
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+        }
 
-// Add tool for accessibility audits, launches a headless browser instance
-server.tool(
-  "runAccessibilityAudit",
-  "Run an accessibility audit on the current page",
-  {},
-  async () => {
-    return await withServerConnection(async () => {
-      try {
-        // Simplified approach - let the browser connector handle the current tab and URL
-        console.log(
-          `Sending POST request to http://${discoveredHost}:${discoveredPort}/accessibility-audit`
-        );
-        const response = await fetch(
-          `http://${discoveredHost}:${discoveredPort}/accessibility-audit`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
+        const json = await response.json();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
             },
-            body: JSON.stringify({
-              category: AuditCategory.ACCESSIBILITY,
-              source: "mcp_tool",
-              timestamp: Date.now(),
-            }),
-          }
+          ],
+          isError: true,
+        };
+      }, "get network errors");
+    }
+  );
+
+  server.tool(
+    "getNetworkLogs",
+    "Check ALL our network logs. Supports filtering and cursor-based pagination",
+    networkLogFilterSchema,
+    async (params) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/network-success${buildLogQueryString(params)}`
         );
 
-        // Log the response status
-        console.log(`Accessibility audit response status: ${response.status}`);
-
         if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`Accessibility audit error: ${errorText}`);
-          throw new Error(`Server returned ${response.status}: ${errorText}`);
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
         }
 
         const json = await response.json();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
+        };
+      }, "get network logs");
+    }
+  );
 
-        // flatten it by merging metadata with the report contents
-        if (json.report) {
-          const { metadata, report } = json;
-          const flattened = {
-            ...metadata,
-            ...report,
-          };
+  server.tool(
+    "exportHar",
+    "Export captured network traffic as a HAR 1.2 document for DevTools, Charles or replay tools",
+    {
+      ...networkRequestFilterSchema,
+      savePath: z
+        .string()
+        .optional()
+        .describe("Write the HAR to this file instead of returning it inline (e.g., './traffic.har')"),
+    },
+    async ({ savePath, ...filters }) => {
+      return await withServerConnection(async () => {
+        try {
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/export/har${buildLogQueryString(filters)}`
+          );
+
+          const har = await response.json().catch(() => null);
+          if (!response.ok || har === null) {
+            throw new Error(har?.error || `Server returned error: ${response.status}`);
+          }
+
+          if (savePath) {
+            const fullPath = path.resolve(savePath);
+            fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+            fs.writeFileSync(fullPath, JSON.stringify(har, null, 2));
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Saved HAR with ${har.log.entries.length} entries to ${fullPath}`,
+                },
+              ],
+            };
+          }
 
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(flattened, null, 2),
+                text: JSON.stringify(har, null, 2),
               },
             ],
           };
-        } else {
-          // Return as-is if it's not in the new format
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(json, null, 2),
+                text: `Failed to export HAR: ${errorMessage}`,
               },
             ],
+            isError: true,
           };
         }
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        console.error("Error in accessibility audit:", errorMessage);
-        return {
-          content: [
+      }, "export HAR");
+    }
+  );
+
+  server.tool(
+    "takeScreenshot",
+    "Take a screenshot of the current browser tab, of one element (selector) or of the full scrollable page (fullPage). Set returnImage to also get the image inline so you can look at the page",
+    {
+      selector: z
+        .string()
+        .optional()
+        .describe("CSS selector of an element to capture; the image is clipped to its bounding box"),
+      padding: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe("Extra pixels to include around the selected element"),
+      fullPage: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Capture the full scrollable page instead of the visible viewport"),
+      returnImage: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Return the screenshot as an image content block in addition to saving it"),
+      format: z
+        .enum(["png", "jpeg"])
+        .optional()
+        .default("jpeg")
+        .describe("Encoding of the returned image (the saved file is always PNG)"),
+      quality: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(80)
+        .describe("JPEG quality of the returned image (1-100)"),
+      maxWidth: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1280)
+        .describe("Downscale the returned image to at most this width in pixels"),
+      maxBytes: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(1000000)
+        .describe("Size budget of the returned image in bytes; quality and size are reduced to fit"),
+      ...tabTargetSchema,
+    },
+    async ({
+      selector,
+      padding = 0,
+      fullPage = false,
+      returnImage = false,
+      format = "jpeg",
+      quality = 80,
+      maxWidth = 1280,
+      maxBytes = 1000000,
+      tabId,
+    }) => {
+      return await withServerConnection(async () => {
+        try {
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/capture-screenshot`,
             {
-              type: "text",
-              text: `Failed to run accessibility audit: ${errorMessage}`,
-            },
-          ],
-        };
-      }
-    });
-  }
-);
-
-// Add tool for performance audits, launches a headless browser instance
-server.tool(
-  "runPerformanceAudit",
-  "Run a performance audit on the current page",
-  {},
-  async () => {
-    return await withServerConnection(async () => {
-      try {
-        // Simplified approach - let the browser connector handle the current tab and URL
-        console.log(
-          `Sending POST request to http://${discoveredHost}:${discoveredPort}/performance-audit`
-        );
-        const response = await fetch(
-          `http://${discoveredHost}:${discoveredPort}/performance-audit`,
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                tabId,
+                ...(selector && { selector, padding }),
+                ...(fullPage && { fullPage }),
+                ...(returnImage && { inline: { format, quality, maxWidth, maxBytes } }),
+              }),
+            }
+          );
+
+          const result = await response.json();
+
+          if (response.ok) {
+            let summary = `Successfully saved screenshot to ${result.path}`;
+            if (result.source === "headless") {
+              summary +=
+                " (captured in a headless browser because the extension's debugger was unavailable; it does not share your browser session)";
+            }
+            if (result.image) {
+              const { width, height, bytes } = result.image;
+              summary += ` (inline copy: ${
+                width && height ? `${width}x${height}, ` : ""
+              }${bytes} bytes)`;
+            } else if (result.imageError) {
+              summary += `. Could not return the image inline: ${result.imageError}`;
+            }
+
+            const content: Array<
+              | { type: "text"; text: string }
+              | { type: "image"; data: string; mimeType: string }
+            > = [{ type: "text", text: summary }];
+
+            if (result.image) {
+              content.push({
+                type: "image",
+                data: result.image.data,
+                mimeType: result.image.mimeType,
+              });
+            }
+
+            return { content };
+          } else {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error taking screenshot: ${result.error}`,
+                },
+              ],
+            };
+          }
+        } catch (error: any) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to take screenshot: ${errorMessage}`,
+              },
+            ],
+          };
+        }
+      });
+    }
+  );
+
+  // Visual regression: baselines are stored by the browser connector
+  server.tool(
+    "compareScreenshot",
+    "Capture the page and pixel-diff it against a named baseline screenshot. The first capture for a name becomes the baseline. Returns the mismatch percentage, changed regions and the path of a diff image",
+    {
+      name: z.string().describe("Baseline name (letters, digits, '.', '_' and '-'), e.g. 'checkout-page'"),
+      threshold: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .default(0.1)
+        .describe("Per-pixel color sensitivity from 0 (strict) to 1 (lenient)"),
+      maxMismatchPercentage: z
+        .number()
+        .min(0)
+        .max(100)
+        .optional()
+        .default(0)
+        .describe("Highest mismatch percentage that still counts as passed"),
+      ignoreRegions: z
+        .array(
+          z.object({
+            x: z.number(),
+            y: z.number(),
+            width: z.number(),
+            height: z.number(),
+          })
+        )
+        .optional()
+        .default([])
+        .describe("Areas to exclude from the comparison, in screenshot pixels (e.g., timestamps, ads)"),
+      updateBaseline: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Replace the baseline with this capture instead of comparing"),
+      selector: z.string().optional().describe("CSS selector of an element to capture instead of the viewport"),
+      padding: z.number().int().min(0).optional().default(0).describe("Extra pixels to include around the selected element"),
+      fullPage: z.boolean().optional().default(false).describe("Capture the full scrollable page"),
+      ...tabTargetSchema,
+    },
+    async (params) => {
+      return await withServerConnection(async () => {
+        const { selector, padding, fullPage, ...rest } = params;
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/compare-screenshot`,
           {
             method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-            },
+            headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              category: AuditCategory.PERFORMANCE,
-              source: "mcp_tool",
-              timestamp: Date.now(),
+              ...rest,
+              ...(selector && { selector, padding }),
+              ...(fullPage && { fullPage }),
             }),
           }
         );
 
-        // Log the response status
-        console.log(`Performance audit response status: ${response.status}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `Server returned ${response.status}`);
+        }
+
+        let summary: string;
+        if (result.baselineCreated || result.baselineUpdated) {
+          summary = `Saved ${result.baseline.width}x${result.baseline.height} baseline "${result.name}"`;
+        } else {
+          summary = `${result.passed ? "PASSED" : "FAILED"}: ${result.mismatchPercentage}% of pixels differ from baseline "${result.name}"`;
+        }
+
+        return {
+          content: [
+            { type: "text", text: summary },
+            { type: "text", text: JSON.stringify(result, null, 2) },
+          ],
+        };
+      }, "compare screenshot");
+    }
+  );
+
+  server.tool(
+    "listBaselines",
+    "List the baseline screenshots available to compareScreenshot",
+    async () => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/baselines`
+        );
 
         if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`Performance audit error: ${errorText}`);
-          throw new Error(`Server returned ${response.status}: ${errorText}`);
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
         }
 
         const json = await response.json();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
+        };
+      }, "list baselines");
+    }
+  );
+
+  server.tool(
+    "getSelectedElement",
+    "Get the element selected in the DevTools Elements panel of a browser tab",
+    tabTargetSchema,
+    async ({ tabId }) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/selected-element${buildTabQueryString(tabId)}`
+        );
+        const json = await response.json();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
+        };
+      });
+    }
+  );
 
-        // flatten it by merging metadata with the report contents
-        if (json.report) {
-          const { metadata, report } = json;
-          const flattened = {
-            ...metadata,
-            ...report,
-          };
+  server.tool(
+    "inspectElementsBySelector",
+    "Get HTML elements and their CSS styles matching a CSS selector",
+    {
+      selector: z.string().describe("CSS selector to find elements (e.g., '.classname', '#id', 'div.container > p')"),
+      resultLimit: z.number().optional().default(1).describe("Maximum number of elements to process (default: 1)"),
+      includeComputedStyles: z.array(z.string()).optional().default([]).describe("Array of specific CSS properties to include in the computed styles output (empty array means no computed styles)"),
+      ...tabTargetSchema,
+    },
+    async ({ selector, resultLimit = 1, includeComputedStyles = [], tabId }) => {
+      return await withServerConnection(async () => {
+        try {
+          // Call the browser-connector endpoint
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/inspect-elements-by-selector`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json"
+              },
+              body: JSON.stringify({ selector, resultLimit, includeComputedStyles, tabId })
+            }
+          );
+
+          const result = await response.json().catch(() => null);
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+          if (!response.ok || result === null) {
+            throw new Error(`Server returned error: ${response.status}`);
+          }
 
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(flattened, null, 2),
-              },
-            ],
+                text: JSON.stringify(result.data || {}, null, 2)
+              }
+            ]
           };
-        } else {
-          // Return as-is if it's not in the new format
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error("Error inspecting elements by selector:", errorMessage);
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(json, null, 2),
-              },
+                text: `Failed to inspect elements by selector: ${errorMessage}`
+              }
             ],
+            isError: true
           };
         }
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        console.error("Error in performance audit:", errorMessage);
+      });
+    }
+  );
+
+  server.tool(
+    "wipeLogs",
+    "Wipe browser logs from memory, for every tab or only one",
+    {
+      tabId: z
+        .union([z.number().int(), z.string()])
+        .optional()
+        .describe("Only wipe the logs captured in this browser tab (see listTabs)"),
+    },
+    async ({ tabId }) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/wipelogs`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ tabId }),
+          }
+        );
+        const json = await response.json();
         return {
           content: [
             {
               type: "text",
-              text: `Failed to run performance audit: ${errorMessage}`,
+              text: json.message,
             },
           ],
         };
-      }
-    });
-  }
-);
-
-// Add tool for SEO audits, launches a headless browser instance
-server.tool(
-  "runSEOAudit",
-  "Run an SEO audit on the current page",
-  {},
-  async () => {
-    return await withServerConnection(async () => {
-      try {
-        console.log(
-          `Sending POST request to http://${discoveredHost}:${discoveredPort}/seo-audit`
+      });
+    }
+  );
+
+  server.tool(
+    "listTabs",
+    "List the browser tabs with an open WebAI DevTools panel. Pass a tabId to other tools to target one of them",
+    async () => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/tabs`
+        );
+
+        if (!response.ok) {
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+        }
+
+        const json = await response.json();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
+        };
+      }, "list tabs");
+    }
+  );
+
+  // Persistent debugging sessions (recorded to disk by the browser connector)
+  server.tool(
+    "listSessions",
+    "List recorded debugging sessions whose logs can be reloaded after a server restart",
+    async () => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/sessions`
         );
-        const response = await fetch(
-          `http://${discoveredHost}:${discoveredPort}/seo-audit`,
+
+        if (!response.ok) {
+          throw new Error(`Server returned ${response.status}: ${response.statusText}`);
+        }
+
+        const json = await response.json();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
+        };
+      }, "list sessions");
+    }
+  );
+
+  server.tool(
+    "startSession",
+    "Start recording browser logs to disk under a named debugging session",
+    {
+      name: z.string().optional().describe("Name of the debugging session (e.g., 'checkout-bug')"),
+    },
+    async ({ name }) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/sessions`,
           {
             method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-            },
-            body: JSON.stringify({
-              category: AuditCategory.SEO,
-              source: "mcp_tool",
-              timestamp: Date.now(),
-            }),
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name }),
           }
         );
 
-        // Log the response status
-        console.log(`SEO audit response status: ${response.status}`);
-
         if (!response.ok) {
           const errorText = await response.text();
-          console.error(`SEO audit error: ${errorText}`);
           throw new Error(`Server returned ${response.status}: ${errorText}`);
         }
 
         const json = await response.json();
-
         return {
           content: [
             {
@@ -688,1150 +1336,1271 @@ server.tool(
             },
           ],
         };
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        console.error("Error in SEO audit:", errorMessage);
+      }, "start session");
+    }
+  );
+
+  server.tool(
+    "stopSession",
+    "Stop recording the active debugging session",
+    async () => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/sessions/stop`,
+          { method: "POST" }
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`Server returned ${response.status}: ${errorText}`);
+        }
+
+        const json = await response.json();
         return {
           content: [
             {
               type: "text",
-              text: `Failed to run SEO audit: ${errorMessage}`,
+              text: JSON.stringify(json, null, 2),
             },
           ],
         };
-      }
-    });
-  }
-);
+      }, "stop session");
+    }
+  );
 
-server.tool("runNextJSAudit", {}, async () => ({
-  content: [
+  server.tool(
+    "loadSession",
+    "Reload the logs of a recorded debugging session so the log tools return them",
     {
-      type: "text",
-      text: `
-      You are an expert in SEO and web development with NextJS. Given the following procedures for analyzing my codebase, please perform a comprehensive - page by page analysis of our NextJS application to identify any issues or areas of improvement for SEO.
-
-      After each iteration of changes, reinvoke this tool to re-fetch our SEO audit procedures and then scan our codebase again to identify additional areas of improvement.
-
-      When no more areas of improvement are found, return "No more areas of improvement found, your NextJS application is optimized for SEO!".
-
-      Start by analyzing each of the following aspects of our codebase:
-      1. Meta tags - provides information about your website to search engines and social media platforms.
-
-        Pages should provide the following standard meta tags:
-
-        title
-        description
-        keywords
-        robots
-        viewport
-        charSet
-        Open Graph meta tags:
-
-        og:site_name
-        og:locale
-        og:title
-        og:description
-        og:type
-        og:url
-        og:image
-        og:image:alt
-        og:image:type
-        og:image:width
-        og:image:height
-        Article meta tags (actually it's also OpenGraph):
-
-        article:published_time
-        article:modified_time
-        article:author
-        Twitter meta tags:
-
-        twitter:card
-        twitter:site
-        twitter:creator
-        twitter:title
-        twitter:description
-        twitter:image
-
-        For applications using the pages router, set up metatags like this in pages/[slug].tsx:
-          import Head from "next/head";
-
-          export default function Page() {
-            return (
-              <Head>
-                <title>
-                  Next.js SEO: The Complete Checklist to Boost Your Site Ranking
-                </title>
-                <meta
-                  name="description"
-                  content="Learn how to optimize your Next.js website for SEO by following this complete checklist."
-                />
-                <meta
-                  name="keywords"
-                  content="nextjs seo complete checklist, nextjs seo tutorial"
-                />
-                <meta name="robots" content="index, follow" />
-                <meta name="googlebot" content="index, follow" />
-                <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-                <meta charSet="utf-8" />
-                <meta property="og:site_name" content="Blog | Minh Vu" />
-                <meta property="og:locale" content="en_US" />
-                <meta
-                  property="og:title"
-                  content="Next.js SEO: The Complete Checklist to Boost Your Site Ranking"
-                />
-                <meta
-                  property="og:description"
-                  content="Learn how to optimize your Next.js website for SEO by following this complete checklist."
-                />
-                <meta property="og:type" content="website" />
-                <meta property="og:url" content="https://dminhvu.com/nextjs-seo" />
-                <meta
-                  property="og:image"
-                  content="https://ik.imagekit.io/dminhvu/assets/nextjs-seo/thumbnail.png?tr=f-png"
-                />
-                <meta property="og:image:alt" content="Next.js SEO" />
-                <meta property="og:image:type" content="image/png" />
-                <meta property="og:image:width" content="1200" />
-                <meta property="og:image:height" content="630" />
-                <meta
-                  property="article:published_time"
-                  content="2024-01-11T11:35:00+07:00"
-                />
-                <meta
-                  property="article:modified_time"
-                  content="2024-01-11T11:35:00+07:00"
-                />
-                <meta
-                  property="article:author"
-                  content="https://www.linkedin.com/in/dminhvu02"
-                />
-                <meta name="twitter:card" content="summary_large_image" />
-                <meta name="twitter:site" content="@dminhvu02" />
-                <meta name="twitter:creator" content="@dminhvu02" />
-                <meta
-                  name="twitter:title"
-                  content="Next.js SEO: The Complete Checklist to Boost Your Site Ranking"
-                />
-                <meta
-                  name="twitter:description"
-                  content="Learn how to optimize your Next.js website for SEO by following this complete checklist."
-                />
-                <meta
-                  name="twitter:image"
-                  content="https://ik.imagekit.io/dminhvu/assets/nextjs-seo/thumbnail.png?tr=f-png"
-                />
-              </Head>
-            );
+      sessionId: z.string().describe("Id of the session, as returned by listSessions"),
+    },
+    async ({ sessionId }) => {
+      return await withServerConnection(async () => {
+        try {
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/sessions/${encodeURIComponent(sessionId)}/load`,
+            { method: "POST" }
+          );
+
+          const json = await response.json().catch(() => null);
+          if (!response.ok || json === null) {
+            throw new Error(json?.error || `Server returned error: ${response.status}`);
           }
 
-        For applications using the app router, set up metatags like this in layout.tsx:
-          import type { Viewport, Metadata } from "next";
-
-          export const viewport: Viewport = {
-            width: "device-width",
-            initialScale: 1,
-            themeColor: "#ffffff"
-          };
-
-          export const metadata: Metadata = {
-            metadataBase: new URL("https://dminhvu.com"),
-            openGraph: {
-              siteName: "Blog | Minh Vu",
-              type: "website",
-              locale: "en_US"
-            },
-            robots: {
-              index: true,
-              follow: true,
-              "max-image-preview": "large",
-              "max-snippet": -1,
-              "max-video-preview": -1,
-              googleBot: "index, follow"
-            },
-            alternates: {
-              types: {
-                "application/rss+xml": "https://dminhvu.com/rss.xml"
-              }
-            },
-            applicationName: "Blog | Minh Vu",
-            appleWebApp: {
-              title: "Blog | Minh Vu",
-              statusBarStyle: "default",
-              capable: true
-            },
-            verification: {
-              google: "YOUR_DATA",
-              yandex: ["YOUR_DATA"],
-              other: {
-                "msvalidate.01": ["YOUR_DATA"],
-                "facebook-domain-verification": ["YOUR_DATA"]
-              }
-            },
-            icons: {
-              icon: [
-                {
-                  url: "/favicon.ico",
-                  type: "image/x-icon"
-                },
-                {
-                  url: "/favicon-16x16.png",
-                  sizes: "16x16",
-                  type: "image/png"
-                }
-                // add favicon-32x32.png, favicon-96x96.png, android-chrome-192x192.png
-              ],
-              shortcut: [
-                {
-                  url: "/favicon.ico",
-                  type: "image/x-icon"
-                }
-              ],
-              apple: [
-                {
-                  url: "/apple-icon-57x57.png",
-                  sizes: "57x57",
-                  type: "image/png"
-                },
-                {
-                  url: "/apple-icon-60x60.png",
-                  sizes: "60x60",
-                  type: "image/png"
-                }
-                // add apple-icon-72x72.png, apple-icon-76x76.png, apple-icon-114x114.png, apple-icon-120x120.png, apple-icon-144x144.png, apple-icon-152x152.png, apple-icon-180x180.png
-              ]
-            }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(json, null, 2),
+              },
+            ],
           };
-        And like this for any page.tsx file:
-          import { Metadata } from "next";
-
-          export const metadata: Metadata = {
-            title: "Elastic Stack, Next.js, Python, JavaScript Tutorials | dminhvu",
-            description:
-              "dminhvu.com - Programming blog for everyone to learn Elastic Stack, Next.js, Python, JavaScript, React, Machine Learning, Data Science, and more.",
-            keywords: [
-              "elastic",
-              "python",
-              "javascript",
-              "react",
-              "machine learning",
-              "data science"
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to load session: ${errorMessage}`,
+              },
             ],
-            openGraph: {
-              url: "https://dminhvu.com",
-              type: "website",
-              title: "Elastic Stack, Next.js, Python, JavaScript Tutorials | dminhvu",
-              description:
-                "dminhvu.com - Programming blog for everyone to learn Elastic Stack, Next.js, Python, JavaScript, React, Machine Learning, Data Science, and more.",
-              images: [
-                {
-                  url: "https://dminhvu.com/images/home/thumbnail.png",
-                  width: 1200,
-                  height: 630,
-                  alt: "dminhvu"
-                }
-              ]
-            },
-            twitter: {
-              card: "summary_large_image",
-              title: "Elastic Stack, Next.js, Python, JavaScript Tutorials | dminhvu",
-              description:
-                "dminhvu.com - Programming blog for everyone to learn Elastic Stack, Next.js, Python, JavaScript, React, Machine Learning, Data Science, and more.",
-              creator: "@dminhvu02",
-              site: "@dminhvu02",
-              images: [
-                {
-                  url: "https://dminhvu.com/images/home/thumbnail.png",
-                  width: 1200,
-                  height: 630,
-                  alt: "dminhvu"
-                }
-              ]
-            },
-            alternates: {
-              canonical: "https://dminhvu.com"
-            }
+            isError: true,
           };
+        }
+      }, "load session");
+    }
+  );
+
+  // Add tool for accessibility audits, launches a headless browser instance
+  server.tool(
+    "runAccessibilityAudit",
+    "Run an accessibility audit on the current page or on the given URLs",
+    { ...auditTargetSchema, ...auditSettingsSchema },
+    async (params) => {
+      return await withServerConnection(async () => {
+        try {
+          // Simplified approach - let the browser connector handle the current tab and URL
+          console.log(
+            `Sending POST request to http://${discoveredHost}:${discoveredPort}/accessibility-audit`
+          );
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/accessibility-audit`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              body: JSON.stringify({
+                category: AuditCategory.ACCESSIBILITY,
+                ...params,
+                commit: getGitCommit(),
+                source: "mcp_tool",
+                timestamp: Date.now(),
+              }),
+            }
+          );
 
-          Note that the charSet and viewport are automatically added by Next.js App Router, so you don't need to define them.
+          // Log the response status
+          console.log(`Accessibility audit response status: ${response.status}`);
 
-        For applications using the app router, dynamic metadata can be defined by using the generateMetadata function, this is useful when you have dynamic pages like [slug]/page.tsx, or [id]/page.tsx:
+          if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`Accessibility audit error: ${errorText}`);
+            throw new Error(`Server returned ${response.status}: ${errorText}`);
+          }
 
-        import type { Metadata, ResolvingMetadata } from "next";
+          const json = await response.json();
 
-        type Params = {
-          slug: string;
-        };
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(formatAuditResponse(json), null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          console.error("Error in accessibility audit:", errorMessage);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to run accessibility audit: ${errorMessage}`,
+              },
+            ],
+          };
+        }
+      });
+    }
+  );
+
+  // Add tool for performance audits, launches a headless browser instance
+  server.tool(
+    "runPerformanceAudit",
+    "Run a performance audit on the current page or on the given URLs, optionally checking performance budgets",
+    { ...auditTargetSchema, ...auditSettingsSchema, ...budgetSchema },
+    async (params) => {
+      return await withServerConnection(async () => {
+        try {
+          // Simplified approach - let the browser connector handle the current tab and URL
+          console.log(
+            `Sending POST request to http://${discoveredHost}:${discoveredPort}/performance-audit`
+          );
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/performance-audit`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              body: JSON.stringify({
+                category: AuditCategory.PERFORMANCE,
+                ...readBudgetFile(params),
+                commit: getGitCommit(),
+                source: "mcp_tool",
+                timestamp: Date.now(),
+              }),
+            }
+          );
 
-        type Props = {
-          params: Params;
-          searchParams: { [key: string]: string | string[] | undefined };
-        };
+          // Log the response status
+          console.log(`Performance audit response status: ${response.status}`);
 
-        export async function generateMetadata(
-          { params, searchParams }: Props,
-          parent: ResolvingMetadata
-        ): Promise<Metadata> {
-          const { slug } = params;
+          if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`Performance audit error: ${errorText}`);
+            throw new Error(`Server returned ${response.status}: ${errorText}`);
+          }
 
-          const post: Post = await fetch("YOUR_ENDPOINT", {
-            method: "GET",
-            next: {
-              revalidate: 60 * 60 * 24
-            }
-          }).then((res) => res.json());
+          const json = await response.json();
 
           return {
-            title: "{post.title} | dminhvu",
-            authors: [
+            content: [
               {
-                name: post.author || "Minh Vu"
-              }
+                type: "text",
+                text: JSON.stringify(formatAuditResponse(json), null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          console.error("Error in performance audit:", errorMessage);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to run performance audit: ${errorMessage}`,
+              },
             ],
-            description: post.description,
-            keywords: post.keywords,
-            openGraph: {
-              title: "{post.title} | dminhvu",
-              description: post.description,
-              type: "article",
-              url: "https://dminhvu.com/{post.slug}",
-              publishedTime: post.created_at,
-              modifiedTime: post.modified_at,
-              authors: ["https://dminhvu.com/about"],
-              tags: post.categories,
-              images: [
-                {
-                  url: "https://ik.imagekit.io/dminhvu/assets/{post.slug}/thumbnail.png?tr=f-png",
-                  width: 1024,
-                  height: 576,
-                  alt: post.title,
-                  type: "image/png"
-                }
-              ]
-            },
-            twitter: {
-              card: "summary_large_image",
-              site: "@dminhvu02",
-              creator: "@dminhvu02",
-              title: "{post.title} | dminhvu",
-              description: post.description,
-              images: [
-                {
-                  url: "https://ik.imagekit.io/dminhvu/assets/{post.slug}/thumbnail.png?tr=f-png",
-                  width: 1024,
-                  height: 576,
-                  alt: post.title
-                }
-              ]
-            },
-            alternates: {
-              canonical: "https://dminhvu.com/{post.slug}"
-            }
           };
         }
+      });
+    }
+  );
+
+  // Add tool for SEO audits, launches a headless browser instance
+  server.tool(
+    "runSEOAudit",
+    "Run an SEO audit on the current page or on the given URLs",
+    { ...auditTargetSchema, ...auditSettingsSchema },
+    async (params) => {
+      return await withServerConnection(async () => {
+        try {
+          console.log(
+            `Sending POST request to http://${discoveredHost}:${discoveredPort}/seo-audit`
+          );
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/seo-audit`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              body: JSON.stringify({
+                category: AuditCategory.SEO,
+                ...params,
+                commit: getGitCommit(),
+                source: "mcp_tool",
+                timestamp: Date.now(),
+              }),
+            }
+          );
 
+          // Log the response status
+          console.log(`SEO audit response status: ${response.status}`);
 
-      2. JSON-LD Schema
-
-      JSON-LD is a format for structured data that can be used by search engines to understand your content. For example, you can use it to describe a person, an event, an organization, a movie, a book, a recipe, and many other types of entities.
+          if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`SEO audit error: ${errorText}`);
+            throw new Error(`Server returned ${response.status}: ${errorText}`);
+          }
 
-      Our current recommendation for JSON-LD is to render structured data as a <script> tag in your layout.js or page.js components. For example:
-      export default async function Page({ params }) {
-        const { id } = await params
-        const product = await getProduct(id)
+          const json = await response.json();
 
-        const jsonLd = {
-          '@context': 'https://schema.org',
-          '@type': 'Product',
-          name: product.name,
-          image: product.image,
-          description: product.description,
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(formatAuditResponse(json), null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          console.error("Error in SEO audit:", errorMessage);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to run SEO audit: ${errorMessage}`,
+              },
+            ],
+          };
         }
+      });
+    }
+  );
+
+  // Add tool for Best Practices audits, launches a headless browser instance
+  server.tool(
+    "runBestPracticesAudit",
+    "Run a best practices audit on the current page or on the given URLs",
+    { ...auditTargetSchema, ...auditSettingsSchema },
+    async (params) => {
+      return await withServerConnection(async () => {
+        try {
+          console.log(
+            `Sending POST request to http://${discoveredHost}:${discoveredPort}/best-practices-audit`
+          );
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/best-practices-audit`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              body: JSON.stringify({
+                ...params,
+                commit: getGitCommit(),
+                source: "mcp_tool",
+                timestamp: Date.now(),
+              }),
+            }
+          );
 
-        return (
-          <section>
-            {/* Add JSON-LD to your page */}
-            <script
-              type="application/ld+json"
-              dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-            />
-            {/* ... */}
-          </section>
-        )
-      }
+          // Check for errors
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Server returned ${response.status}: ${errorText}`);
+          }
 
-      You can type your JSON-LD with TypeScript using community packages like schema-dts:
+          const json = await response.json();
 
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(formatAuditResponse(json), null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          console.error("Error in Best Practices audit:", errorMessage);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to run Best Practices audit: ${errorMessage}`,
+              },
+            ],
+          };
+        }
+      });
+    }
+  );
+
+  // Add tool for PWA audits, launches a headless browser instance
+  server.tool(
+    "runPWAAudit",
+    "Run a Progressive Web App audit (manifest, service worker, offline support and installability) on the current page or on the given URLs",
+    { ...auditTargetSchema, ...auditSettingsSchema },
+    async (params) => {
+      return await withServerConnection(async () => {
+        try {
+          console.log(
+            `Sending POST request to http://${discoveredHost}:${discoveredPort}/pwa-audit`
+          );
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/pwa-audit`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              body: JSON.stringify({
+                category: AuditCategory.PWA,
+                ...params,
+                commit: getGitCommit(),
+                source: "mcp_tool",
+                timestamp: Date.now(),
+              }),
+            }
+          );
 
-      import { Product, WithContext } from 'schema-dts'
+          // Check for errors
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Server returned ${response.status}: ${errorText}`);
+          }
 
-      const jsonLd: WithContext<Product> = {
-        '@context': 'https://schema.org',
-        '@type': 'Product',
-        name: 'Next.js Sticker',
-        image: 'https://nextjs.org/imgs/sticker.png',
-        description: 'Dynamic at the speed of static.',
-      }
-      3. Sitemap
-      Your website should provide a sitemap so that search engines can easily crawl and index your pages.
+          const json = await response.json();
 
-        Generate Sitemap for Next.js Pages Router
-        For Next.js Pages Router, you can use next-sitemap to generate a sitemap for your Next.js website after building.
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(formatAuditResponse(json), null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          console.error("Error in PWA audit:", errorMessage);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to run PWA audit: ${errorMessage}`,
+              },
+            ],
+          };
+        }
+      });
+    }
+  );
+
+  // Add tool for the combined audit, one Lighthouse run for every category
+  server.tool(
+    "runFullAudit",
+    "Run accessibility, performance, SEO and best practices audits in a single pass on the current page or on the given URLs",
+    { ...auditTargetSchema, ...auditSettingsSchema, ...budgetSchema },
+    async (params) => {
+      return await withServerConnection(async () => {
+        try {
+          console.log(
+            `Sending POST request to http://${discoveredHost}:${discoveredPort}/full-audit`
+          );
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/full-audit`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              body: JSON.stringify({
+                ...readBudgetFile(params),
+                commit: getGitCommit(),
+                source: "mcp_tool",
+                timestamp: Date.now(),
+              }),
+            }
+          );
 
-        For example, running the following command will install next-sitemap and generate a sitemap for this blog:
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Server returned ${response.status}: ${errorText}`);
+          }
 
+          const json = await response.json();
 
-        npm install next-sitemap
-        npx next-sitemap
-        A sitemap will be generated at public/sitemap.xml:
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(formatAuditResponse(json), null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          console.error("Error in full audit:", errorMessage);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to run full audit: ${errorMessage}`,
+              },
+            ],
+          };
+        }
+      });
+    }
+  );
 
-        public/sitemap.xml
+  server.tool(
+    "getAuditHistory",
+    "Get saved audit runs with score and metric trends (LCP, TBT, CLS, ...), newest run first",
+    {
+      ...auditHistoryFilterSchema,
+      limit: z.number().int().positive().optional().describe("Maximum number of runs to include (default: 20)"),
+    },
+    async ({ limit = 20, ...filters }) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/audit-history${buildAuditHistoryQuery({ ...filters, limit })}`
+        );
 
-        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns:mobile="http://www.google.com/schemas/sitemap-mobile/1.0" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1" xmlns:video="http://www.google.com/schemas/sitemap-video/1.1">
-        <url>
-          <loc>https://dminhvu.com</loc>
-            <lastmod>2024-01-11T02:03:09.613Z</lastmod>
-            <changefreq>daily</changefreq>
-          <priority>0.7</priority>
-        </url>
-        <!-- other pages -->
-        </urlset>
-        Please visit the next-sitemap page for more information.
+        const json = await response.json().catch(() => null);
+        if (!response.ok || json === null) {
+          throw new Error(json?.error || `Server returned ${response.status}`);
+        }
 
-        Generate Sitemap for Next.js App Router
-        For Next.js App Router, you can define the sitemap.ts file at app/sitemap.ts:
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
+        };
+      }, "get audit history");
+    }
+  );
 
-        app/sitemap.ts
+  server.tool(
+    "compareAudits",
+    "Compare two saved audit runs: score deltas, changed metrics and new or resolved failed audits. Without ids, compares the two latest runs matching the filters",
+    {
+      baseId: z.string().optional().describe("Id of the earlier run (see getAuditHistory)"),
+      headId: z.string().optional().describe("Id of the later run (see getAuditHistory)"),
+      ...auditHistoryFilterSchema,
+    },
+    async (params) => {
+      return await withServerConnection(async () => {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/audit-history/compare${buildAuditHistoryQuery(params)}`
+        );
 
-        import {
-          getAllCategories,
-          getAllPostSlugsWithModifyTime
-        } from "@/utils/getData";
-        import { MetadataRoute } from "next";
+        const json = await response.json().catch(() => null);
+        if (!response.ok || json === null) {
+          throw new Error(json?.error || `Server returned ${response.status}`);
+        }
 
-        export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-          const defaultPages = [
-            {
-              url: "https://dminhvu.com",
-              lastModified: new Date(),
-              changeFrequency: "daily",
-              priority: 1
-            },
+        return {
+          content: [
             {
-              url: "https://dminhvu.com/about",
-              lastModified: new Date(),
-              changeFrequency: "monthly",
-              priority: 0.9
+              type: "text",
+              text: JSON.stringify(json, null, 2),
             },
-            {
-              url: "https://dminhvu.com/contact",
-              lastModified: new Date(),
-              changeFrequency: "monthly",
-              priority: 0.9
-            }
-            // other pages
-          ];
-
-          const postSlugs = await getAllPostSlugsWithModifyTime();
-          const categorySlugs = await getAllCategories();
-
-          const sitemap = [
-            ...defaultPages,
-            ...postSlugs.map((e: any) => ({
-              url: "https://dminhvu.com/{e.slug}",
-              lastModified: e.modified_at,
-              changeFrequency: "daily",
-              priority: 0.8
-            })),
-            ...categorySlugs.map((e: any) => ({
-              url: "https://dminhvu.com/category/{e}",
-              lastModified: new Date(),
-              changeFrequency: "daily",
-              priority: 0.7
-            }))
-          ];
-
-          return sitemap;
-        }
-        With this sitemap.ts file created, you can access the sitemap at https://dminhvu.com/sitemap.xml.
-
+          ],
+        };
+      }, "compare audits");
+    }
+  );
 
-        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-          <url>
-            <loc>https://dminhvu.com</loc>
-            <lastmod>2024-01-11T02:03:09.613Z</lastmod>
-            <changefreq>daily</changefreq>
-            <priority>0.7</priority>
-          </url>
-          <!-- other pages -->
-        </urlset>
-      4. robots.txt
-      A robots.txt file should be added to tell search engines which pages to crawl and which pages to ignore.
+  // Add new tool for getting cookies
+  server.tool("getCookies", "Get all cookies from the browser", tabTargetSchema, async ({ tabId }) => {
+    return await withServerConnection(async () => {
+      try {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/cookies${buildTabQueryString(tabId)}`
+        );
 
-        robots.txt for Next.js Pages Router
-        For Next.js Pages Router, you can create a robots.txt file at public/robots.txt:
+        if (!response.ok) {
+          const errorData = await response.json();
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error getting cookies: ${
+                  errorData.error || response.statusText
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        public/robots.txt
+        const json = await response.json();
 
-        User-agent: *
-        Disallow:
-        Sitemap: https://dminhvu.com/sitemap.xml
-        You can prevent the search engine from crawling a page (usually search result pages, noindex pages, etc.) by adding the following line:
+        if (json.error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error getting cookies: ${json.error}`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        public/robots.txt
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error getting cookies: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    });
+  });
 
-        User-agent: *
-        Disallow: /search?q=
-        Disallow: /admin
-        robots.txt for Next.js App Router
-        For Next.js App Router, you don't need to manually define a robots.txt file. Instead, you can define the robots.ts file at app/robots.ts:
+  // Add new tool for getting localStorage
+  server.tool("getLocalStorage", "Get all localStorage items", tabTargetSchema, async ({ tabId }) => {
+    return await withServerConnection(async () => {
+      try {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/local-storage${buildTabQueryString(tabId)}`
+        );
 
-        app/robots.ts
+        if (!response.ok) {
+          const errorData = await response.json();
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error getting localStorage: ${
+                  errorData.error || response.statusText
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        import { MetadataRoute } from "next";
+        const json = await response.json();
 
-        export default function robots(): MetadataRoute.Robots {
+        if (json.error) {
           return {
-            rules: {
-              userAgent: "*",
-              allow: ["/"],
-              disallow: ["/search?q=", "/admin/"]
-            },
-            sitemap: ["https://dminhvu.com/sitemap.xml"]
+            content: [
+              {
+                type: "text",
+                text: `Error getting localStorage: ${json.error}`,
+              },
+            ],
+            isError: true,
           };
         }
-        With this robots.ts file created, you can access the robots.txt file at https://dminhvu.com/robots.txt.
-
-
-        User-agent: *
-        Allow: /
-        Disallow: /search?q=
-        Disallow: /admin
-
-        Sitemap: https://dminhvu.com/sitemap.xml
-      5. Link tags
-      Link Tags for Next.js Pages Router
-      For example, the current page has the following link tags if I use the Pages Router:
-
-      pages/_app.tsx
-
-      import Head from "next/head";
-
-      export default function Page() {
-        return (
-          <Head>
-            {/* other parts */}
-            <link
-              rel="alternate"
-              type="application/rss+xml"
-              href="https://dminhvu.com/rss.xml"
-            />
-            <link rel="icon" href="/favicon.ico" type="image/x-icon" />
-            <link rel="apple-touch-icon" sizes="57x57" href="/apple-icon-57x57.png" />
-            <link rel="apple-touch-icon" sizes="60x60" href="/apple-icon-60x60.png" />
-            {/* add apple-touch-icon-72x72.png, apple-touch-icon-76x76.png, apple-touch-icon-114x114.png, apple-touch-icon-120x120.png, apple-touch-icon-144x144.png, apple-touch-icon-152x152.png, apple-touch-icon-180x180.png */}
-            <link
-              rel="icon"
-              type="image/png"
-              href="/favicon-16x16.png"
-              sizes="16x16"
-            />
-            {/* add favicon-32x32.png, favicon-96x96.png, android-chrome-192x192.png */}
-          </Head>
-        );
-      }
-      pages/[slug].tsx
 
-      import Head from "next/head";
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(json, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error getting localStorage: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    });
+  });
 
-      export default function Page() {
-        return (
-          <Head>
-            {/* other parts */}
-            <link rel="canonical" href="https://dminhvu.com/nextjs-seo" />
-          </Head>
+  // Add new tool for getting sessionStorage
+  server.tool("getSessionStorage", "Get all sessionStorage items", tabTargetSchema, async ({ tabId }) => {
+    return await withServerConnection(async () => {
+      try {
+        const response = await fetchFromServer(
+          `http://${discoveredHost}:${discoveredPort}/session-storage${buildTabQueryString(tabId)}`
         );
-      }
-      Link Tags for Next.js App Router
-      For Next.js App Router, the link tags can be defined using the export const metadata or generateMetadata similar to the meta tags section.
 
-      The code below is exactly the same as the meta tags for Next.js App Router section above.
+        if (!response.ok) {
+          const errorData = await response.json();
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error getting sessionStorage: ${
+                  errorData.error || response.statusText
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const json = await response.json();
 
-      app/layout.tsx
+        if (json.error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error getting sessionStorage: ${json.error}`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-      export const metadata: Metadata = {
-        // other parts
-        alternates: {
-          types: {
-            "application/rss+xml": "https://dminhvu.com/rss.xml"
-          }
-        },
-        icons: {
-          icon: [
+        return {
+          content: [
             {
-              url: "/favicon.ico",
-              type: "image/x-icon"
+              type: "text",
+              text: JSON.stringify(json, null, 2),
             },
-            {
-              url: "/favicon-16x16.png",
-              sizes: "16x16",
-              type: "image/png"
-            }
-            // add favicon-32x32.png, favicon-96x96.png, android-chrome-192x192.png
           ],
-          shortcut: [
-            {
-              url: "/favicon.ico",
-              type: "image/x-icon"
-            }
-          ],
-          apple: [
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
             {
-              url: "/apple-icon-57x57.png",
-              sizes: "57x57",
-              type: "image/png"
+              type: "text",
+              text: `Error getting sessionStorage: ${message}`,
             },
-            {
-              url: "/apple-icon-60x60.png",
-              sizes: "60x60",
-              type: "image/png"
-            }
-            // add apple-icon-72x72.png, apple-icon-76x76.png, apple-icon-114x114.png, apple-icon-120x120.png, apple-icon-144x144.png, apple-icon-152x152.png, apple-icon-180x180.png
-          ]
-        }
-      };
-      app/page.tsx
-
-      export const metadata: Metadata = {
-        // other parts
-        alternates: {
-          canonical: "https://dminhvu.com"
-        }
-      };
-      6. Script optimization
-      Script Optimization for General Scripts
-      Next.js provides a built-in component called <Script> to add external scripts to your website.
-
-      For example, you can add Google Analytics to your website by adding the following script tag:
-
-      pages/_app.tsx
-
-      import Head from "next/head";
-      import Script from "next/script";
-
-      export default function Page() {
-        return (
-          <Head>
-            {/* other parts */}
-            {process.env.NODE_ENV === "production" && (
-              <>
-                <Script async strategy="afterInteractive" id="analytics">
-                  {'
-                    window.dataLayer = window.dataLayer || [];
-                    function gtag(){dataLayer.push(arguments);}
-                    gtag('js', new Date());
-                    gtag('config', 'G-XXXXXXXXXX');
-                  '}
-                </Script>
-              </>
-            )}
-          </Head>
-        );
-      }
-      Script Optimization for Common Third-Party Integrations
-      Next.js App Router introduces a new library called @next/third-parties for:
-
-      Google Tag Manager
-      Google Analytics
-      Google Maps Embed
-      YouTube Embed
-      To use the @next/third-parties library, you need to install it:
-
-
-      npm install @next/third-parties
-      Then, you can add the following code to your app/layout.tsx:
-
-      app/layout.tsx
-
-      import { GoogleTagManager } from "@next/third-parties/google";
-      import { GoogleAnalytics } from "@next/third-parties/google";
-      import Head from "next/head";
-
-      export default function Page() {
-        return (
-          <html lang="en" className="scroll-smooth" suppressHydrationWarning>
-            {process.env.NODE_ENV === "production" && (
-              <>
-                <GoogleAnalytics gaId="G-XXXXXXXXXX" />
-                {/* other scripts */}
-              </>
-            )}
-            {/* other parts */}
-          </html>
-        );
+          ],
+          isError: true,
+        };
       }
-      Please note that you don't need to include both GoogleTagManager and GoogleAnalytics if you only use one of them.
-      7. Image optimization
-      Image Optimization
-      This part can be applied to both Pages Router and App Router.
+    });
+  });
 
-      Image optimization is also an important part of SEO as it helps your website load faster.
+  // Add RefreshBrowser tool
+  server.tool(
+    "refreshBrowser",
+    "Refresh the current browser page",
+    {
+      waitForLoad: z.boolean().optional().default(true).describe("Wait for page to fully load after refresh"),
+      timeout: z.number().optional().default(10000).describe("Timeout in milliseconds for page load"),
+      preserveScrollPosition: z.boolean().optional().default(false).describe("Attempt to preserve scroll position"),
+      clearCache: z.boolean().optional().default(false).describe("Clear browser cache before refresh"),
+      ...tabTargetSchema,
+    },
+    async ({ waitForLoad = true, timeout = 10000, preserveScrollPosition = false, clearCache = false, tabId }) => {
+      return await withServerConnection(async () => {
+        try {
+          console.log(
+            `Sending POST request to http://${discoveredHost}:${discoveredPort}/refresh-browser`
+          );
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/refresh-browser`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              body: JSON.stringify({
+                waitForLoad,
+                timeout,
+                preserveScrollPosition,
+                clearCache,
+                tabId,
+                source: "mcp_tool",
+                timestamp: Date.now(),
+              }),
+            }
+          );
 
-      Faster image rendering speed will contribute to the Google PageSpeed score, which can improve user experience and SEO.
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Server returned ${response.status}: ${errorText}`);
+          }
 
-      You can use next/image to optimize images in your Next.js website.
+          const json = await response.json();
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(json, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error("Error in refresh browser:", errorMessage);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to refresh browser: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }, "refresh browser");
+    }
+  );
 
-      For example, the following code will optimize this post thumbnail:
+  server.tool(
+    "navigate",
+    "Navigate the inspected tab to a URL and wait for the page to load",
+    {
+      url: z.string().describe("Absolute URL to open (http or https)"),
+      waitUntil: z
+        .enum(["load", "domcontentloaded", "none"])
+        .optional()
+        .describe("When navigation counts as finished (default: load)"),
+      timeout: z
+        .number()
+        .int()
+        .optional()
+        .describe("Milliseconds to wait for the page (default: 30000, max: 120000)"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("navigate", params, "navigate")
+  );
 
+  server.tool(
+    "click",
+    "Click an element in the inspected page with real mouse events",
+    {
+      selector: automationSelectorSchema,
+      button: z
+        .enum(["left", "right", "middle"])
+        .optional()
+        .describe("Mouse button (default: left)"),
+      clickCount: z
+        .number()
+        .int()
+        .min(1)
+        .max(3)
+        .optional()
+        .describe("2 for a double click, 3 for a triple click (default: 1)"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("click", params, "click")
+  );
 
-      import Image from "next/image";
+  server.tool(
+    "typeText",
+    "Type text into an element, or into the focused element when no selector is given",
+    {
+      text: z.string().describe("Text to type; newlines press Enter"),
+      selector: automationSelectorSchema.optional(),
+      clear: z
+        .boolean()
+        .optional()
+        .describe("Clear the element's current value first (default: false)"),
+      delay: z
+        .number()
+        .int()
+        .optional()
+        .describe("Milliseconds between keystrokes (default: 0)"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("type-text", params, "type text")
+  );
 
-      export default function Page() {
-        return (
-          <Image
-            src="https://ik.imagekit.io/dminhvu/assets/nextjs-seo/thumbnail.png?tr=f-webp"
-            alt="Next.js SEO"
-            width={1200}
-            height={630}
-          />
-        );
-      }
-      Remember to use a CDN to serve your media (images, videos, etc.) to improve the loading speed.
+  server.tool(
+    "pressKey",
+    "Press a key, optionally with modifiers, in the inspected page",
+    {
+      key: z
+        .string()
+        .describe(
+          "A single character, or Enter, Tab, Escape, Backspace, Delete, Space, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Home, End, PageUp or PageDown"
+        ),
+      modifiers: z
+        .array(z.enum(["Alt", "Control", "Meta", "Shift"]))
+        .optional()
+        .describe("Modifier keys held during the key press"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("press-key", params, "press key")
+  );
 
-      For the image format, use WebP if possible because it has a smaller size than PNG and JPEG.
+  server.tool(
+    "scroll",
+    "Scroll the inspected page to an element, to the top or bottom, or by a distance",
+    {
+      selector: automationSelectorSchema.optional(),
+      to: z.enum(["top", "bottom"]).optional().describe("Scroll to the top or bottom of the page"),
+      x: z.number().int().optional().describe("Horizontal distance in pixels"),
+      y: z.number().int().optional().describe("Vertical distance in pixels"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("scroll", params, "scroll")
+  );
 
-      Given the provided procedures, begin by analyzing all of our Next.js pages.
-      Check to see what metadata already exists, look for any robot.txt files, and take a closer look at some of the other aspects of our project to determine areas of improvement.
-      Once you've performed this comprehensive analysis, return back a report on what we can do to improve our application.
-      Do not actually make the code changes yet, just return a comprehensive plan that you will ask for approval for.
-      If feedback is provided, adjust the plan accordingly and ask for approval again.
-      If the user approves of the plan, go ahead and proceed to implement all the necessary code changes to completely optimize our application.
-    `,
+  server.tool(
+    "hover",
+    "Move the mouse over an element in the inspected page",
+    {
+      selector: automationSelectorSchema,
+      ...tabTargetSchema,
     },
-  ],
-}));
-
-server.tool(
-  "runDebuggerMode",
-  "Run debugger mode to debug an issue in our application",
-  async () => ({
-    content: [
-      {
-        type: "text",
-        text: `
-      Please follow this exact sequence to debug an issue in our application:
-
-  1. Reflect on 5-7 different possible sources of the problem
-  2. Distill those down to 1-2 most likely sources
-  3. Add additional logs to validate your assumptions and track the transformation of data structures throughout the application control flow before we move onto implementing the actual code fix
-  4. Use the "getConsoleLogs", "getConsoleErrors", "getNetworkLogs" & "getNetworkErrors" tools to obtain any newly added web browser logs
-  5. Obtain the server logs as well if accessible - otherwise, ask me to copy/paste them into the chat
-  6. Deeply reflect on what could be wrong + produce a comprehensive analysis of the issue
-  7. Suggest additional logs if the issue persists or if the source is not yet clear
-  8. Once a fix is implemented, ask for approval to remove the previously added logs
-
-  Note: DO NOT run any of our audits (runAccessibilityAudit, runPerformanceAudit, runBestPracticesAudit, runSEOAudit, runNextJSAudit) when in debugging mode unless explicitly asked to do so or unless you switch to audit mode.
-`,
-      },
-    ],
-  })
-);
+    async (params) => sendBrowserCommand("hover", params, "hover")
+  );
 
-server.tool(
-  "runAuditMode",
-  "Run audit mode to optimize our application for SEO, accessibility and performance",
-  async () => ({
-    content: [
-      {
-        type: "text",
-        text: `
-      I want you to enter "Audit Mode". Use the following MCP tools one after the other in this exact sequence:
+  server.tool(
+    "selectOption",
+    "Select an option of a <select> element by value or visible label",
+    {
+      selector: automationSelectorSchema,
+      value: z.string().optional().describe("Value of the option to select"),
+      label: z.string().optional().describe("Visible label of the option to select"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("select-option", params, "select option")
+  );
 
-      1. runAccessibilityAudit
-      2. runPerformanceAudit
-      3. runBestPracticesAudit
-      4. runSEOAudit
-      5. runNextJSAudit (only if our application is ACTUALLY using NextJS)
+  server.tool(
+    "waitForSelector",
+    "Wait until an element is attached, visible or hidden in the inspected page",
+    {
+      selector: automationSelectorSchema,
+      state: z
+        .enum(["attached", "visible", "hidden"])
+        .optional()
+        .describe("State to wait for (default: visible)"),
+      timeout: z
+        .number()
+        .int()
+        .optional()
+        .describe("Milliseconds to wait (default: 10000, max: 60000)"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("wait-for-selector", params, "wait for selector")
+  );
 
-      After running all of these tools, return back a comprehensive analysis of the audit results.
+  server.tool(
+    "setCookie",
+    "Set a cookie for the inspected page, including HttpOnly cookies",
+    {
+      name: z.string().describe("Cookie name"),
+      value: z.string().describe("Cookie value"),
+      url: cookieUrlSchema,
+      domain: z.string().optional().describe("Cookie domain; omit for a host-only cookie"),
+      path: z.string().optional().describe("Cookie path (default: the URL's path)"),
+      secure: z.boolean().optional().describe("Only send the cookie over HTTPS"),
+      httpOnly: z.boolean().optional().describe("Hide the cookie from page scripts"),
+      sameSite: z.enum(["Strict", "Lax", "None"]).optional().describe("SameSite attribute"),
+      expires: z
+        .number()
+        .optional()
+        .describe("Expiry in seconds since the epoch; omit for a session cookie"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("cookies/set", params, "set cookie")
+  );
 
-      Do NOT use runNextJSAudit tool unless you see that our application is ACTUALLY using NextJS.
+  server.tool(
+    "deleteCookie",
+    "Delete a cookie by name from the inspected page. Requires confirm: true",
+    {
+      name: z.string().describe("Cookie name"),
+      url: cookieUrlSchema,
+      ...confirmSchema,
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("cookies/delete", params, "delete cookie")
+  );
 
-      DO NOT use the takeScreenshot tool EVER during audit mode. ONLY use it if I specifically ask you to take a screenshot of something.
+  server.tool(
+    "clearCookies",
+    "Delete every cookie the browser would send to the inspected page, e.g. to test a logged-out state. Requires confirm: true",
+    {
+      url: cookieUrlSchema,
+      ...confirmSchema,
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("cookies/clear", params, "clear cookies")
+  );
 
-      DO NOT check console or network logs to get started - your main priority is to run the audits in the sequence defined above.
+  server.tool(
+    "setStorageItem",
+    "Set a localStorage or sessionStorage item in the inspected page",
+    {
+      storage: storageAreaSchema,
+      key: z.string().describe("Item key"),
+      value: z.string().describe("Item value; JSON-encode objects"),
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("storage/set", params, "set storage item")
+  );
 
-      After returning an in-depth analysis, scan through my code and identify various files/parts of my codebase that we want to modify/improve based on the results of our audits.
+  server.tool(
+    "removeStorageItem",
+    "Remove a localStorage or sessionStorage item from the inspected page. Requires confirm: true",
+    {
+      storage: storageAreaSchema,
+      key: z.string().describe("Item key"),
+      ...confirmSchema,
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("storage/remove", params, "remove storage item")
+  );
 
-      After identifying what changes may be needed, do NOT make the actual changes. Instead, return back a comprehensive, step-by-step plan to address all of these changes and ask for approval to execute this plan. If feedback is received, make a new plan and ask for approval again. If approved, execute the ENTIRE plan and after all phases/steps are complete, re-run the auditing tools in the same 4 step sequence again before returning back another analysis for additional changes potentially needed.
+  server.tool(
+    "clearStorage",
+    "Remove every localStorage or sessionStorage item of the inspected page. Requires confirm: true",
+    {
+      storage: storageAreaSchema,
+      ...confirmSchema,
+      ...tabTargetSchema,
+    },
+    async (params) => sendBrowserCommand("storage/clear", params, "clear storage")
+  );
 
-      Keep repeating / iterating through this process with the four tools until our application is as optimized as possible for SEO, accessibility and performance.
+  server.tool(
+    "evaluateScript",
+    "Run JavaScript in the inspected page and return its serialized result, e.g. to read global config, feature flags or framework state. Requires the server to be started with ALLOW_SCRIPT_EVALUATION=true",
+    {
+      expression: z
+        .string()
+        .describe(
+          "JavaScript to evaluate; the value of the last statement is returned and promises are awaited (top-level await is supported)"
+        ),
+      maxDepth: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe("Nesting depth of objects and arrays in the result (default: 3)"),
+      maxProperties: z
+        .number()
+        .int()
+        .optional()
+        .describe("Properties per object and items per array (default: 100)"),
+      stringSizeLimit: z
+        .number()
+        .int()
+        .optional()
+        .describe("Characters per string (default: the extension's string size limit)"),
+      timeout: z
+        .number()
+        .int()
+        .optional()
+        .describe("Milliseconds to wait for the result (default: 10000, max: 60000)"),
+      ...tabTargetSchema,
+    },
+    async (params) => {
+      return await withServerConnection(async () => {
+        try {
+          const response = await fetchFromServer(
+            `http://${discoveredHost}:${discoveredPort}/evaluate`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              body: JSON.stringify(params),
+            }
+          );
 
-`,
-      },
-    ],
-  })
-);
-
-// Add tool for Best Practices audits, launches a headless browser instance
-server.tool(
-  "runBestPracticesAudit",
-  "Run a best practices audit on the current page",
-  {},
-  async () => {
-    return await withServerConnection(async () => {
-      try {
-        console.log(
-          `Sending POST request to http://${discoveredHost}:${discoveredPort}/best-practices-audit`
-        );
-        const response = await fetch(
-          `http://${discoveredHost}:${discoveredPort}/best-practices-audit`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-            },
-            body: JSON.stringify({
-              source: "mcp_tool",
-              timestamp: Date.now(),
-            }),
+          const json = await response.json().catch(() => ({}));
+          if (!response.ok) {
+            throw new Error(json.error || `Server returned ${response.status}`);
           }
-        );
-
-        // Check for errors
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Server returned ${response.status}: ${errorText}`);
-        }
-
-        const json = await response.json();
-
-        // flatten it by merging metadata with the report contents
-        if (json.report) {
-          const { metadata, report } = json;
-          const flattened = {
-            ...metadata,
-            ...report,
-          };
 
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(flattened, null, 2),
+                text: JSON.stringify(json, null, 2),
               },
             ],
           };
-        } else {
-          // Return as-is if it's not in the new format
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error("Error in evaluate script:", errorMessage);
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(json, null, 2),
+                text: `Failed to evaluate script: ${errorMessage}`,
               },
             ],
+            isError: true,
           };
         }
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        console.error("Error in Best Practices audit:", errorMessage);
+      }, "evaluate script");
+    }
+  );
+
+  // Add version compatibility check tool
+  server.tool(
+    "checkVersionCompatibility",
+    "Check version compatibility between MCP server, Browser Tools server, and Chrome extension",
+    {},
+    async () => {
+      try {
+        const result = await VersionChecker.checkVersionCompatibility();
+
         return {
           content: [
             {
               type: "text",
-              text: `Failed to run Best Practices audit: ${errorMessage}`,
+              text: VersionChecker.formatCompatibilityReport(result),
             },
           ],
+          isError: !result.isCompatible,
         };
-      }
-    });
-  }
-);
-
-// Add new tool for getting cookies
-server.tool("getCookies", "Get all cookies from the browser", async () => {
-  return await withServerConnection(async () => {
-    try {
-      const response = await fetch(
-        `http://${discoveredHost}:${discoveredPort}/cookies`
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
         return {
           content: [
             {
               type: "text",
-              text: `Error getting cookies: ${
-                errorData.error || response.statusText
-              }`,
+              text: `Failed to check version compatibility: ${errorMessage}`,
             },
           ],
           isError: true,
         };
       }
-
-      const json = await response.json();
-
-      if (json.error) {
+    }
+  );
+
+  for (const { name, uri, endpoint, description } of logResources) {
+    server.resource(
+      name,
+      uri,
+      { description, mimeType: "application/json" },
+      async (resourceUri) => {
+        const json = await (await readFromServer(`${endpoint}?order=desc`)).json();
         return {
-          content: [
+          contents: [
             {
-              type: "text",
-              text: `Error getting cookies: ${json.error}`,
+              uri: resourceUri.href,
+              mimeType: "application/json",
+              text: JSON.stringify(json, null, 2),
             },
           ],
-          isError: true,
         };
       }
+    );
+  }
 
+  server.resource(
+    "selected-element",
+    "browser://selected-element",
+    {
+      description: "The element currently selected in the DevTools Elements panel",
+      mimeType: "application/json",
+    },
+    async (resourceUri) => {
+      const json = await (await readFromServer("/selected-element")).json();
       return {
-        content: [
+        contents: [
           {
-            type: "text",
+            uri: resourceUri.href,
+            mimeType: "application/json",
             text: JSON.stringify(json, null, 2),
           },
         ],
       };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting cookies: ${message}`,
-          },
-        ],
-        isError: true,
-      };
     }
-  });
-});
-
-// Add new tool for getting localStorage
-server.tool("getLocalStorage", "Get all localStorage items", async () => {
-  return await withServerConnection(async () => {
-    try {
-      const response = await fetch(
-        `http://${discoveredHost}:${discoveredPort}/local-storage`
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting localStorage: ${
-                errorData.error || response.statusText
-              }`,
-            },
-          ],
-          isError: true,
-        };
-      }
+  );
 
-      const json = await response.json();
-
-      if (json.error) {
+  server.resource(
+    "screenshots",
+    new ResourceTemplate("browser://screenshots/{name}", {
+      list: async () => {
+        const { screenshots } = await (await readFromServer("/screenshots")).json();
         return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting localStorage: ${json.error}`,
-            },
-          ],
-          isError: true,
+          resources: screenshots.map((screenshot: any) => ({
+            uri: `browser://screenshots/${screenshot.name}`,
+            name: screenshot.name,
+            mimeType: "image/png",
+          })),
         };
-      }
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(json, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
+      },
+    }),
+    { description: "Screenshots saved in the screenshot directory", mimeType: "image/png" },
+    async (resourceUri, { name }) => {
+      const response = await readFromServer(
+        `/screenshots/${encodeURIComponent(String(name))}`
+      );
       return {
-        content: [
+        contents: [
           {
-            type: "text",
-            text: `Error getting localStorage: ${message}`,
+            uri: resourceUri.href,
+            mimeType: "image/png",
+            blob: Buffer.from(await response.arrayBuffer()).toString("base64"),
           },
         ],
-        isError: true,
       };
     }
-  });
-});
-
-// Add new tool for getting sessionStorage
-server.tool("getSessionStorage", "Get all sessionStorage items", async () => {
-  return await withServerConnection(async () => {
-    try {
-      const response = await fetch(
-        `http://${discoveredHost}:${discoveredPort}/session-storage`
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting sessionStorage: ${
-                errorData.error || response.statusText
-              }`,
-            },
-          ],
-          isError: true,
-        };
-      }
+  );
 
-      const json = await response.json();
-
-      if (json.error) {
+  server.resource(
+    "audits",
+    new ResourceTemplate("browser://audits/{id}", {
+      list: async () => {
+        const { runs } = await (await readFromServer("/audit-history?limit=50")).json();
         return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting sessionStorage: ${json.error}`,
-            },
-          ],
-          isError: true,
+          resources: runs.map((run: any) => ({
+            uri: `browser://audits/${run.id}`,
+            name: `${run.category} audit of ${run.url}`,
+            mimeType: "application/json",
+          })),
         };
-      }
-
+      },
+    }),
+    { description: "Saved audit runs with their full reports", mimeType: "application/json" },
+    async (resourceUri, { id }) => {
+      const json = await (
+        await readFromServer(`/audit-history/${encodeURIComponent(String(id))}`)
+      ).json();
       return {
-        content: [
+        contents: [
           {
-            type: "text",
+            uri: resourceUri.href,
+            mimeType: "application/json",
             text: JSON.stringify(json, null, 2),
           },
         ],
       };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting sessionStorage: ${message}`,
-          },
-        ],
-        isError: true,
-      };
     }
-  });
-});
-
-// Add RefreshBrowser tool
-server.tool(
-  "refreshBrowser",
-  "Refresh the current browser page",
-  {
-    waitForLoad: z.boolean().optional().default(true).describe("Wait for page to fully load after refresh"),
-    timeout: z.number().optional().default(10000).describe("Timeout in milliseconds for page load"),
-    preserveScrollPosition: z.boolean().optional().default(false).describe("Attempt to preserve scroll position"),
-    clearCache: z.boolean().optional().default(false).describe("Clear browser cache before refresh")
-  },
-  async ({ waitForLoad = true, timeout = 10000, preserveScrollPosition = false, clearCache = false }) => {
-    return await withServerConnection(async () => {
-      try {
-        console.log(
-          `Sending POST request to http://${discoveredHost}:${discoveredPort}/refresh-browser`
-        );
-        const response = await fetch(
-          `http://${discoveredHost}:${discoveredPort}/refresh-browser`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-            },
-            body: JSON.stringify({
-              waitForLoad,
-              timeout,
-              preserveScrollPosition,
-              clearCache,
-              source: "mcp_tool",
-              timestamp: Date.now(),
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Server returned ${response.status}: ${errorText}`);
-        }
+  );
+
+  // Debugging and audit playbooks as prompts. Templates in the project's
+  // .webai/prompts directory (or WEBAI_PROMPTS_DIR) are added to the built-in
+  // prompts and replace a built-in prompt of the same name.
+  const registeredPrompts = new Map<string, RegisteredPrompt>();
+  const registerPrompts = (prompts: PromptDefinition[]) => {
+    for (const prompt of prompts) {
+      const argsSchema = Object.fromEntries(
+        prompt.arguments.map((arg) => [
+          arg.name,
+          arg.required
+            ? z.string().describe(arg.description)
+            : z.string().optional().describe(arg.description),
+        ])
+      );
 
-        const json = await response.json();
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(json, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error("Error in refresh browser:", errorMessage);
-        return {
-          content: [
+      registeredPrompts.get(prompt.name)?.remove();
+      registeredPrompts.set(
+        prompt.name,
+        server.prompt(prompt.name, prompt.description, argsSchema, (args) => ({
+          messages: [
             {
-              type: "text",
-              text: `Failed to refresh browser: ${errorMessage}`,
+              role: "user",
+              content: { type: "text", text: prompt.render(args) },
             },
           ],
-          isError: true,
-        };
+        }))
+      );
+    }
+  };
+
+  registerPrompts(BUILT_IN_PROMPTS);
+  if (process.env.WEBAI_PROMPTS_DIR) {
+    registerPrompts(loadPromptTemplates(process.env.WEBAI_PROMPTS_DIR));
+  } else {
+    // The project is the client's first file:// root; clients without roots
+    // get the directory the MCP server was started from
+    server.server.oninitialized = async () => {
+      let directory = getDefaultPromptDirectory();
+      if (server.server.getClientCapabilities()?.roots) {
+        try {
+          const { roots } = await server.server.listRoots();
+          directory =
+            roots.map((root) => getRootPromptDirectory(root.uri)).find(Boolean) ?? directory;
+        } catch (error) {
+          console.error("Could not list client roots for project prompts:", error);
+        }
       }
-    }, "refresh browser");
+      registerPrompts(loadPromptTemplates(directory));
+    };
   }
-);
-
-// Add version compatibility check tool
-server.tool(
-  "checkVersionCompatibility",
-  "Check version compatibility between MCP server, Browser Tools server, and Chrome extension",
-  {},
-  async () => {
-    try {
-      const result = await VersionChecker.checkVersionCompatibility();
 
-      return {
+  // Deprecated: the playbooks were tools before they became prompts. Kept for
+  // one release so existing clients keep working.
+  const deprecatedPromptTools = [
+    ["runDebuggerMode", "debuggerMode"],
+    ["runAuditMode", "auditMode"],
+    ["runNextJSAudit", "nextJSAudit"],
+  ];
+  for (const [toolName, promptName] of deprecatedPromptTools) {
+    const prompt = BUILT_IN_PROMPTS.find((builtIn) => builtIn.name === promptName)!;
+    server.tool(
+      toolName,
+      `Deprecated, use the ${promptName} prompt instead. ${prompt.description}`,
+      async () => ({
         content: [
           {
             type: "text",
-            text: VersionChecker.formatCompatibilityReport(result),
+            text: prompt.render({}),
           },
         ],
-        isError: !result.isCompatible,
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to check version compatibility: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
-    }
+      })
+    );
   }
-);
+}
 
-// Start receiving messages on stdio
+// Start receiving messages on stdio, or over HTTP with --http
 (async () => {
   try {
     // Attempt initial server discovery
@@ -1847,6 +2616,18 @@ server.tool(
       );
     }
 
+    if (getTransportMode() === "http") {
+      // stdout is free for logging when messages travel over HTTP
+      await startHttpTransport(createMcpServer, {
+        host: process.env.MCP_HTTP_HOST || "127.0.0.1",
+        port: parseInt(process.env.MCP_HTTP_PORT || "3100", 10),
+        path: "/mcp",
+        getAuthToken,
+        sessionTimeout: parseInt(process.env.MCP_HTTP_SESSION_TIMEOUT || "1800000", 10),
+      });
+      return;
+    }
+
     const transport = new StdioServerTransport();
 
     // Ensure stdout is only used for JSON messages
@@ -1859,7 +2640,7 @@ server.tool(
       return originalStdoutWrite(chunk, encoding, callback);
     };
 
-    await server.connect(transport);
+    await createMcpServer().connect(transport);
   } catch (error) {
     console.error("Failed to initialize MCP server:", error);
     process.exit(1);
@@ -0,0 +1,140 @@
+/**
+ * Resource Subscriptions for WebAI-MCP
+ *
+ * Lets MCP clients subscribe to the browser resources (browser://console/errors
+ * and so on) and sends them `notifications/resources/updated` when the
+ * browser connector reports new entries. One event stream from the
+ * connector's /events endpoint is shared by every connected MCP server.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+interface ChangeEvent {
+  topic: string;
+  timestamp: number;
+  [key: string]: unknown;
+}
+
+export interface ResourceSubscriptionOptions {
+  // Resource URI that changes with each connector topic
+  topicUris: Record<string, string>;
+  // Topics that add resources, so clients should list them again
+  listTopics: string[];
+  // Opens the connector's event stream; null when no connector is running
+  openEventStream: (signal: AbortSignal) => Promise<Response | null>;
+}
+
+const RECONNECT_DELAY = 5000;
+
+export class ResourceSubscriptions {
+  private options: ResourceSubscriptionOptions;
+  private servers = new Map<McpServer, Set<string>>();
+  private controller: AbortController | null = null;
+
+  constructor(options: ResourceSubscriptionOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Handles subscribe requests for a server; call before connecting it
+   */
+  attach(mcpServer: McpServer): void {
+    const subscriptions = new Set<string>();
+    this.servers.set(mcpServer, subscriptions);
+
+    mcpServer.server.registerCapabilities({
+      resources: { subscribe: true, listChanged: true },
+    });
+    mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+    mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    const onclose = mcpServer.server.onclose;
+    mcpServer.server.onclose = () => {
+      onclose?.();
+      this.servers.delete(mcpServer);
+      if (this.servers.size === 0) {
+        this.controller?.abort();
+        this.controller = null;
+      }
+    };
+
+    if (!this.controller) {
+      this.controller = new AbortController();
+      void this.listen(this.controller);
+    }
+  }
+
+  // Reads change events until aborted, reconnecting when the connector goes away
+  private async listen(controller: AbortController): Promise<void> {
+    while (!controller.signal.aborted) {
+      try {
+        const response = await this.options.openEventStream(controller.signal);
+        if (response?.ok && response.body) {
+          await this.readEvents(response.body, controller.signal);
+        }
+      } catch (error: any) {
+        if (!controller.signal.aborted) {
+          console.error(`Browser connector event stream failed: ${error.message}`);
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY));
+    }
+  }
+
+  private async readEvents(
+    body: ReadableStream<Uint8Array>,
+    signal: AbortSignal
+  ): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (!signal.aborted) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      // Events are separated by a blank line; comments start with ":"
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop() || "";
+      for (const block of blocks) {
+        const data = block
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.substring("data:".length).trim())
+          .join("\n");
+        if (data) {
+          this.notify(JSON.parse(data));
+        }
+      }
+    }
+  }
+
+  private notify(event: ChangeEvent): void {
+    const uri = this.options.topicUris[event.topic];
+    const listChanged = this.options.listTopics.includes(event.topic);
+
+    for (const [mcpServer, subscriptions] of this.servers) {
+      if (!mcpServer.isConnected()) continue;
+      if (uri && subscriptions.has(uri)) {
+        mcpServer.server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`Failed to send update for ${uri}:`, error);
+        });
+      }
+      if (listChanged) {
+        mcpServer.sendResourceListChanged();
+      }
+    }
+  }
+}
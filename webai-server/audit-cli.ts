@@ -0,0 +1,222 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line audits for CI and local tooling
+ *
+ * Runs an audit for one or more URLs in the headless browser, without the
+ * server or extension, and prints the reports as JSON, SARIF 2.1.0 or JUnit
+ * XML. Exits with 0 on success, 1 when --fail-on finds a failed audit of that
+ * impact or worse and 2 when an audit could not run.
+ *
+ * Usage:
+ *   webai-audit [options] <url> [url...]
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  AuditSettings,
+  LighthouseReport,
+  parseAuditSettings,
+  runAccessibilityAudit,
+  runPerformanceAudit,
+  runSEOAudit,
+  runFullAudit,
+  runPWAAudit,
+} from "./lighthouse/index.js";
+import { runBestPracticesAudit } from "./lighthouse/best-practices.js";
+import {
+  AuditOutputFormat,
+  AuditReportEntry,
+  FindingImpact,
+  buildJUnit,
+  buildSarif,
+  collectFindings,
+  parseAuditOutputFormat,
+} from "./audit-report-formats.js";
+
+const EXIT_PASSED = 0;
+const EXIT_FINDINGS = 1;
+const EXIT_ERROR = 2;
+
+const AUDITS: Record<
+  string,
+  (url: string, settings: AuditSettings) => Promise<LighthouseReport>
+> = {
+  accessibility: runAccessibilityAudit,
+  performance: runPerformanceAudit,
+  seo: runSEOAudit,
+  "best-practices": runBestPracticesAudit,
+  pwa: runPWAAudit,
+  full: runFullAudit,
+};
+
+const IMPACTS: FindingImpact[] = ["critical", "serious", "moderate", "minor"];
+
+const USAGE = `Usage: webai-audit [options] <url> [url...]
+
+Options:
+  --category <value>     ${Object.keys(AUDITS).join(", ")} (default: full)
+  --format <value>       json, sarif or junit (default: json)
+  --output <file>        Write the report to a file instead of stdout
+  --fail-on <impact>     Exit with 1 when an audit of this impact or worse
+                         fails: ${IMPACTS.join(", ")}
+  --form-factor <value>  mobile or desktop (default: desktop)
+  --throttling <value>   none, simulated4G or slow4G
+  --locale <value>       Accept-Language for the page, e.g. de-DE
+  --budgets <file>       Budget file checked by performance and full audits
+  --help                 Show this message
+
+Exit codes: 0 success, 1 failed audits (with --fail-on), 2 error`;
+
+interface CliOptions {
+  urls: string[];
+  category: string;
+  format: AuditOutputFormat;
+  output?: string;
+  failOn?: FindingImpact;
+  settings: Record<string, string>;
+}
+
+const SETTING_OPTIONS: Record<string, string> = {
+  "--form-factor": "formFactor",
+  "--throttling": "throttling",
+  "--locale": "locale",
+  "--budgets": "budgetPath",
+};
+
+function parseArguments(args: string[]): CliOptions {
+  const options: CliOptions = {
+    urls: [],
+    category: "full",
+    format: "json",
+    settings: {},
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--help" || arg === "-h") {
+      console.log(USAGE);
+      process.exit(EXIT_PASSED);
+    } else if (arg.startsWith("-")) {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`${arg} requires a value`);
+
+      if (arg === "--category") {
+        if (!AUDITS[value]) {
+          throw new Error(`--category must be one of: ${Object.keys(AUDITS).join(", ")}`);
+        }
+        options.category = value;
+      } else if (arg === "--format") {
+        options.format = parseAuditOutputFormat(value);
+      } else if (arg === "--output") {
+        options.output = value;
+      } else if (arg === "--fail-on") {
+        if (!IMPACTS.includes(value as FindingImpact)) {
+          throw new Error(`--fail-on must be one of: ${IMPACTS.join(", ")}`);
+        }
+        options.failOn = value as FindingImpact;
+      } else if (SETTING_OPTIONS[arg]) {
+        options.settings[SETTING_OPTIONS[arg]] = value;
+      } else {
+        throw new Error(`Unknown option: ${arg}`);
+      }
+    } else {
+      options.urls.push(arg);
+    }
+  }
+
+  if (options.urls.length === 0) {
+    throw new Error("At least one URL is required");
+  }
+  return options;
+}
+
+function getPackageVersion(): string {
+  try {
+    const directory = path.dirname(fileURLToPath(import.meta.url));
+    return JSON.parse(
+      fs.readFileSync(path.join(directory, "..", "package.json"), "utf8")
+    ).version;
+  } catch {
+    return "unknown";
+  }
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  let settings: AuditSettings;
+  try {
+    options = parseArguments(process.argv.slice(2));
+    settings = parseAuditSettings(options.settings, {
+      allowBudgetPath: true,
+      useDefaultBudgets:
+        options.category === "performance" || options.category === "full",
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  // Audit logs go to stderr so that stdout only carries the report
+  console.log = console.error;
+
+  const entries: AuditReportEntry[] = [];
+  for (const url of options.urls) {
+    try {
+      const report = await AUDITS[options.category](url, settings);
+      entries.push({ url, category: options.category, report });
+    } catch (error) {
+      entries.push({
+        url,
+        category: options.category,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const tool = { name: "webai-audit", version: getPackageVersion() };
+  const output =
+    options.format === "sarif"
+      ? JSON.stringify(buildSarif(entries, tool), null, 2)
+      : options.format === "junit"
+      ? buildJUnit(entries, tool)
+      : JSON.stringify(
+          entries.length === 1 && entries[0].report
+            ? entries[0].report
+            : { results: entries.map(({ category, ...entry }) => entry) },
+          null,
+          2
+        );
+
+  if (options.output) {
+    fs.writeFileSync(options.output, output);
+    console.error(`Wrote ${options.format} report to ${options.output}`);
+  } else {
+    process.stdout.write(output.endsWith("\n") ? output : `${output}\n`);
+  }
+
+  if (entries.some((entry) => entry.error)) return EXIT_ERROR;
+
+  if (options.failOn) {
+    const threshold = IMPACTS.indexOf(options.failOn);
+    const failing = entries.some((entry) =>
+      collectFindings(entry.category, entry.report!).some(
+        (finding) => IMPACTS.indexOf(finding.impact) <= threshold
+      )
+    );
+    if (failing) return EXIT_FINDINGS;
+  }
+  return EXIT_PASSED;
+}
+
+// Exit explicitly, since the headless browser is otherwise kept alive for reuse
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error(error);
+    process.exit(EXIT_ERROR);
+  }
+);
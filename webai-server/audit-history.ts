@@ -0,0 +1,421 @@
+/**
+ * Audit History for Browser Tools Server
+ *
+ * Saves every audit report with a summary of its scores, metrics and failed
+ * audits, keyed by URL, category, device and git commit or label, so score
+ * trends can be followed and two runs can be compared.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { LighthouseReport } from "./lighthouse/index.js";
+
+export interface FailedAudit {
+  category: string;
+  id: string;
+  title?: string;
+}
+
+export interface AuditHistoryEntry {
+  id: string;
+  url: string;
+  category: string; // An audit category, or "full"
+  device: string;
+  label?: string; // Free-form label, e.g. "before refactor"
+  commit?: string; // Git commit of the audited project
+  timestamp: string; // ISO 8601
+  scores: Record<string, number>; // Category -> score (0-100)
+  metrics: Record<string, number>; // Performance metric -> value (ms, CLS unitless)
+  failedAudits: FailedAudit[];
+}
+
+export interface AuditHistoryFilter {
+  url?: string;
+  category?: string;
+  device?: string;
+  label?: string;
+  commit?: string;
+  limit?: number;
+}
+
+export interface TrendPoint {
+  id: string;
+  timestamp: string;
+  label?: string;
+  commit?: string;
+  value: number;
+}
+
+export interface Trend {
+  first: number;
+  latest: number;
+  delta: number;
+  best: number;
+  worst: number;
+  points: TrendPoint[]; // Oldest first
+}
+
+export interface AuditTrends {
+  scores: Record<string, Trend>;
+  metrics: Record<string, Trend>;
+}
+
+export interface ValueChange {
+  base: number | null;
+  head: number | null;
+  delta: number | null;
+  improved: boolean | null; // null when unchanged or missing on one side
+}
+
+// An entry without its summary, to identify a run
+export type AuditRunInfo = Omit<
+  AuditHistoryEntry,
+  "scores" | "metrics" | "failedAudits"
+>;
+
+export interface AuditComparison {
+  base: AuditRunInfo;
+  head: AuditRunInfo;
+  scoreDeltas: Record<string, ValueChange>;
+  metricChanges: Record<string, ValueChange>;
+  newFailedAudits: FailedAudit[];
+  resolvedFailedAudits: FailedAudit[];
+  summary: string;
+}
+
+// Metrics reported by the performance audit, all of which are better when lower
+const TRACKED_METRICS = ["lcp", "fcp", "si", "tti", "tbt", "cls"];
+
+const ENTRY_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+const INDEX_FILE = "index.jsonl";
+
+// Normalizes a URL so "https://a.com" and "https://a.com/" share a history
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+}
+
+// Collects the failed audits of one category's report content
+function collectFailedAudits(category: string, content: any): FailedAudit[] {
+  const failed: FailedAudit[] = [];
+
+  for (const issue of content?.issues || []) {
+    if (issue?.id) failed.push({ category, id: issue.id, title: issue.title });
+  }
+  // The performance report lists its failed audits as opportunities
+  for (const opportunity of content?.opportunities || []) {
+    if (opportunity?.id) failed.push({ category, id: opportunity.id });
+  }
+
+  return failed;
+}
+
+function collectMetrics(content: any): Record<string, number> {
+  const metrics: Record<string, number> = {};
+  for (const metric of content?.metrics || []) {
+    if (TRACKED_METRICS.includes(metric?.id) && typeof metric.value_ms === "number") {
+      metrics[metric.id] = metric.value_ms;
+    }
+  }
+  return metrics;
+}
+
+/**
+ * Summarizes a single-category or full audit report
+ * @param category The audit category, or "full"
+ * @param report The report returned by the audit
+ * @returns Scores, metrics and failed audits
+ */
+export function summarizeReport(
+  category: string,
+  report: LighthouseReport
+): Pick<AuditHistoryEntry, "scores" | "metrics" | "failedAudits"> {
+  const content: any = report.report || {};
+
+  // A full audit nests one report per category
+  const sections: Array<[string, any]> =
+    category === "full"
+      ? Object.entries(content).filter(([name]) => name !== "scores")
+      : [[category, content]];
+
+  const scores: Record<string, number> = {};
+  let metrics: Record<string, number> = {};
+  const failedAudits: FailedAudit[] = [];
+
+  for (const [name, section] of sections) {
+    // The full report uses best_practices where the category is best-practices
+    const sectionCategory = name.replace(/_/g, "-");
+    if (typeof section?.score === "number") {
+      scores[sectionCategory] = section.score;
+    }
+    metrics = { ...metrics, ...collectMetrics(section) };
+    failedAudits.push(...collectFailedAudits(sectionCategory, section));
+  }
+
+  return { scores, metrics, failedAudits };
+}
+
+function buildTrend(
+  entries: AuditHistoryEntry[],
+  getValue: (entry: AuditHistoryEntry) => number | undefined,
+  lowerIsBetter: boolean
+): Trend | null {
+  const points: TrendPoint[] = [];
+  for (const entry of entries) {
+    const value = getValue(entry);
+    if (typeof value !== "number") continue;
+    points.push({
+      id: entry.id,
+      timestamp: entry.timestamp,
+      ...(entry.label && { label: entry.label }),
+      ...(entry.commit && { commit: entry.commit }),
+      value,
+    });
+  }
+  if (points.length === 0) return null;
+
+  const values = points.map((point) => point.value);
+  const first = values[0];
+  const latest = values[values.length - 1];
+  return {
+    first,
+    latest,
+    delta: Math.round((latest - first) * 1000) / 1000,
+    best: lowerIsBetter ? Math.min(...values) : Math.max(...values),
+    worst: lowerIsBetter ? Math.max(...values) : Math.min(...values),
+    points,
+  };
+}
+
+function compareValues(
+  base: number | undefined,
+  head: number | undefined,
+  lowerIsBetter: boolean
+): ValueChange {
+  if (typeof base !== "number" || typeof head !== "number") {
+    return { base: base ?? null, head: head ?? null, delta: null, improved: null };
+  }
+  const delta = Math.round((head - base) * 1000) / 1000;
+  return {
+    base,
+    head,
+    delta,
+    improved: delta === 0 ? null : lowerIsBetter ? delta < 0 : delta > 0,
+  };
+}
+
+const failedAuditKey = (audit: FailedAudit) => `${audit.category}/${audit.id}`;
+
+function toRunInfo(entry: AuditHistoryEntry): AuditRunInfo {
+  const { scores, metrics, failedAudits, ...info } = entry;
+  return info;
+}
+
+/**
+ * Diffs two audit runs
+ * @param base The earlier run
+ * @param head The later run
+ * @returns Score deltas, metric changes and new and resolved failed audits
+ */
+export function compareAuditEntries(
+  base: AuditHistoryEntry,
+  head: AuditHistoryEntry
+): AuditComparison {
+  const scoreDeltas: Record<string, ValueChange> = {};
+  for (const name of new Set([...Object.keys(base.scores), ...Object.keys(head.scores)])) {
+    scoreDeltas[name] = compareValues(base.scores[name], head.scores[name], false);
+  }
+
+  const metricChanges: Record<string, ValueChange> = {};
+  for (const name of new Set([...Object.keys(base.metrics), ...Object.keys(head.metrics)])) {
+    metricChanges[name] = compareValues(base.metrics[name], head.metrics[name], true);
+  }
+
+  const baseFailed = new Set(base.failedAudits.map(failedAuditKey));
+  const headFailed = new Set(head.failedAudits.map(failedAuditKey));
+  const newFailedAudits = head.failedAudits.filter(
+    (audit) => !baseFailed.has(failedAuditKey(audit))
+  );
+  const resolvedFailedAudits = base.failedAudits.filter(
+    (audit) => !headFailed.has(failedAuditKey(audit))
+  );
+
+  const scoreSummary = Object.entries(scoreDeltas)
+    .filter(([, change]) => change.delta !== null)
+    .map(
+      ([name, change]) =>
+        `${name} ${change.base} -> ${change.head} (${change.delta! >= 0 ? "+" : ""}${change.delta})`
+    );
+  const regressions = Object.entries({ ...scoreDeltas, ...metricChanges })
+    .filter(([, change]) => change.improved === false)
+    .map(([name]) => name);
+
+  const summary = [
+    scoreSummary.length > 0 ? `Scores: ${scoreSummary.join(", ")}.` : "No common scores.",
+    `${resolvedFailedAudits.length} failed audits resolved, ${newFailedAudits.length} new.`,
+    regressions.length > 0
+      ? `Regressed: ${regressions.join(", ")}.`
+      : "No score or metric regressed.",
+  ].join(" ");
+
+  return {
+    base: toRunInfo(base),
+    head: toRunInfo(head),
+    scoreDeltas,
+    metricChanges,
+    newFailedAudits,
+    resolvedFailedAudits,
+    summary,
+  };
+}
+
+export class AuditHistoryStore {
+  private directory: string;
+
+  constructor(directory: string = AuditHistoryStore.getDefaultDirectory()) {
+    this.directory = directory;
+  }
+
+  static getDefaultDirectory(): string {
+    return path.join(os.homedir(), ".webai-mcp", "audits");
+  }
+
+  /**
+   * Creates a store in AUDIT_HISTORY_DIR, or the default directory
+   */
+  static createFromEnvironment(): AuditHistoryStore {
+    return new AuditHistoryStore(
+      process.env.AUDIT_HISTORY_DIR || AuditHistoryStore.getDefaultDirectory()
+    );
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Saves an audit report and its summary
+   * @param category The audit category, or "full"
+   * @param report The report returned by the audit
+   * @param tags Optional label and git commit
+   * @returns The history entry
+   */
+  record(
+    category: string,
+    report: LighthouseReport,
+    tags: { label?: string; commit?: string } = {}
+  ): AuditHistoryEntry {
+    const timestamp = report.metadata?.timestamp || new Date().toISOString();
+    const entry: AuditHistoryEntry = {
+      id: `${timestamp.replace(/[:.]/g, "-")}-${category}-${randomUUID().slice(0, 8)}`,
+      url: normalizeUrl(report.metadata?.url || ""),
+      category,
+      device: report.metadata?.device || "desktop",
+      ...(tags.label && { label: tags.label }),
+      ...(tags.commit && { commit: tags.commit }),
+      timestamp,
+      ...summarizeReport(category, report),
+    };
+
+    fs.mkdirSync(this.getReportsDirectory(), { recursive: true });
+    fs.writeFileSync(this.getReportPath(entry.id), JSON.stringify(report));
+    fs.appendFileSync(
+      path.join(this.directory, INDEX_FILE),
+      JSON.stringify(entry) + "\n"
+    );
+    console.log(`Audit history: recorded ${category} audit of ${entry.url} (${entry.id})`);
+
+    return entry;
+  }
+
+  /**
+   * Lists history entries, newest first
+   * @param filter Optional URL, category, device, label, commit and limit
+   */
+  list(filter: AuditHistoryFilter = {}): AuditHistoryEntry[] {
+    const indexPath = path.join(this.directory, INDEX_FILE);
+    if (!fs.existsSync(indexPath)) return [];
+
+    const url = filter.url ? normalizeUrl(filter.url) : undefined;
+    const entries: AuditHistoryEntry[] = [];
+
+    for (const line of fs.readFileSync(indexPath, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as AuditHistoryEntry;
+        if (
+          (!url || entry.url === url) &&
+          (!filter.category || entry.category === filter.category) &&
+          (!filter.device || entry.device === filter.device) &&
+          (!filter.label || entry.label === filter.label) &&
+          (!filter.commit || entry.commit?.startsWith(filter.commit))
+        ) {
+          entries.push(entry);
+        }
+      } catch {
+        // A partially written last line is expected after a crash
+        console.warn("Audit history: skipping unreadable index line");
+      }
+    }
+
+    entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+
+  /**
+   * Finds a history entry
+   * @returns The entry, or null if there is none with that id
+   */
+  get(id: string): AuditHistoryEntry | null {
+    return this.list().find((entry) => entry.id === id) || null;
+  }
+
+  /**
+   * Reads the full report of a history entry
+   * @returns The report, or null if it does not exist
+   * @throws Error if the id is malformed
+   */
+  readReport(id: string): LighthouseReport | null {
+    const filePath = this.getReportPath(id);
+    return fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, "utf8"))
+      : null;
+  }
+
+  /**
+   * Computes score and metric trends over the matching entries
+   * @param filter Optional URL, category, device, label, commit and limit
+   */
+  getTrends(filter: AuditHistoryFilter = {}): AuditTrends {
+    const entries = this.list(filter).reverse();
+    const scoreNames = new Set(entries.flatMap((entry) => Object.keys(entry.scores)));
+    const metricNames = new Set(entries.flatMap((entry) => Object.keys(entry.metrics)));
+
+    const trends: AuditTrends = { scores: {}, metrics: {} };
+    for (const name of scoreNames) {
+      const trend = buildTrend(entries, (entry) => entry.scores[name], false);
+      if (trend) trends.scores[name] = trend;
+    }
+    for (const name of metricNames) {
+      const trend = buildTrend(entries, (entry) => entry.metrics[name], true);
+      if (trend) trends.metrics[name] = trend;
+    }
+    return trends;
+  }
+
+  private getReportsDirectory(): string {
+    return path.join(this.directory, "reports");
+  }
+
+  private getReportPath(id: string): string {
+    if (!ENTRY_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid audit id: ${id}`);
+    }
+    return path.join(this.getReportsDirectory(), `${id}.json`);
+  }
+}
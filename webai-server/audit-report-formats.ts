@@ -0,0 +1,363 @@
+/**
+ * SARIF and JUnit Output for Browser Tools Server
+ *
+ * Converts the AI-optimized audit reports into SARIF 2.1.0
+ * (https://docs.oasis-open.org/sarif/sarif/v2.1.0/) for code-scanning tools
+ * and JUnit XML for test-report tooling. Every failed audit becomes a SARIF
+ * result or a JUnit failure.
+ */
+
+import type { LighthouseReport } from "./lighthouse/index.js";
+import { describeBudgetResult } from "./lighthouse/index.js";
+
+export type AuditOutputFormat = "json" | "sarif" | "junit";
+
+export type FindingImpact = "critical" | "serious" | "moderate" | "minor";
+
+/**
+ * One audited URL: its report, or the error that stopped the audit
+ */
+export interface AuditReportEntry {
+  url: string;
+  category: string; // Audit category, or "full"
+  report?: LighthouseReport;
+  error?: string;
+}
+
+export interface FindingLocation {
+  url: string; // The page, or the resource the finding is about
+  selector?: string; // CSS selector of the element, if any
+  snippet?: string; // HTML snippet of the element
+}
+
+/**
+ * A failed audit, independent of the output format
+ */
+export interface AuditFinding {
+  ruleId: string; // e.g. "accessibility/color-contrast"
+  category: string;
+  title: string;
+  impact: FindingImpact;
+  message: string;
+  locations: FindingLocation[];
+}
+
+export interface ToolInfo {
+  name: string;
+  version: string;
+}
+
+const OUTPUT_FORMATS: AuditOutputFormat[] = ["json", "sarif", "junit"];
+
+const SARIF_LEVELS: Record<FindingImpact, "error" | "warning" | "note"> = {
+  critical: "error",
+  serious: "error",
+  moderate: "warning",
+  minor: "note",
+};
+
+const IMPACT_ORDER: Record<FindingImpact, number> = {
+  critical: 0,
+  serious: 1,
+  moderate: 2,
+  minor: 3,
+};
+
+/**
+ * Validates an output format received from a request or the command line
+ * @param value The requested format; undefined means "json"
+ * @throws Error if the format is not supported
+ */
+export function parseAuditOutputFormat(value: unknown): AuditOutputFormat {
+  if (value === undefined) return "json";
+  if (!OUTPUT_FORMATS.includes(value as AuditOutputFormat)) {
+    throw new Error(`format must be one of: ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  return value as AuditOutputFormat;
+}
+
+function toImpact(value: unknown): FindingImpact {
+  return value === "critical" ||
+    value === "serious" ||
+    value === "moderate" ||
+    value === "minor"
+    ? value
+    : "moderate";
+}
+
+// Resource URLs that best practices details carry under different keys
+function findResourceUrl(detail: Record<string, unknown>): string | undefined {
+  for (const key of ["url", "source", "sourceLocation"]) {
+    const value = detail[key];
+    if (typeof value === "string" && /^https?:\/\//.test(value)) return value;
+  }
+  return undefined;
+}
+
+// Collects the failed audits of one category's report content
+function collectSectionFindings(
+  category: string,
+  content: any,
+  pageUrl: string
+): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+
+  for (const issue of content?.issues || []) {
+    if (!issue?.id) continue;
+    const locations: FindingLocation[] = [];
+
+    // Accessibility issues list elements, SEO and best practices list details
+    for (const element of issue.elements || []) {
+      if (element?.selector) {
+        locations.push({
+          url: pageUrl,
+          selector: element.selector,
+          snippet: element.snippet,
+        });
+      }
+    }
+    for (const detail of issue.details || []) {
+      const resourceUrl = detail ? findResourceUrl(detail) : undefined;
+      if (detail?.selector || resourceUrl) {
+        locations.push({
+          url: resourceUrl || pageUrl,
+          selector: detail.selector,
+          snippet: detail.snippet,
+        });
+      }
+    }
+
+    const description =
+      issue.issue ||
+      issue.details?.find((detail: any) => typeof detail?.issue === "string")
+        ?.issue;
+    findings.push({
+      ruleId: `${category}/${issue.id}`,
+      category,
+      title: issue.title || issue.id,
+      impact: toImpact(issue.impact),
+      message: description ? `${issue.title}: ${description}` : issue.title || issue.id,
+      locations: locations.length > 0 ? locations : [{ url: pageUrl }],
+    });
+  }
+
+  // The performance report lists its failed audits as opportunities
+  for (const opportunity of content?.opportunities || []) {
+    if (!opportunity?.id) continue;
+    const resources = (opportunity.resources || []).filter(
+      (resource: any) => typeof resource?.url === "string"
+    );
+    findings.push({
+      ruleId: `${category}/${opportunity.id}`,
+      category,
+      title: opportunity.id,
+      impact: toImpact(opportunity.severity),
+      message: `${opportunity.id}: potential savings of ${opportunity.savings_ms} ms`,
+      locations: [
+        { url: pageUrl },
+        // The report trims resource URLs to file names
+        ...resources.map((resource: any) => ({ url: resource.url })),
+      ],
+    });
+  }
+
+  for (const result of content?.budgets?.results || []) {
+    if (result?.passed !== false) continue;
+    findings.push({
+      ruleId: `${category}/budget/${result.type}/${result.id}`,
+      category,
+      title: `${result.id} ${result.type.replace("_", " ")} budget`,
+      impact: "serious",
+      message: describeBudgetResult(result),
+      locations: [{ url: pageUrl }],
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Lists the failed audits of a single-category or full audit report,
+ * most severe first
+ * @param category The audit category, or "full"
+ * @param report The report returned by the audit
+ */
+export function collectFindings(
+  category: string,
+  report: LighthouseReport
+): AuditFinding[] {
+  const content: any = report.report || {};
+  const pageUrl = report.metadata?.url || "";
+
+  // A full audit nests one report per category
+  const sections: Array<[string, any]> =
+    category === "full"
+      ? Object.entries(content).filter(([name]) => name !== "scores")
+      : [[category, content]];
+
+  return sections
+    .flatMap(([name, section]) =>
+      collectSectionFindings(name.replace(/_/g, "-"), section, pageUrl)
+    )
+    .sort((a, b) => IMPACT_ORDER[a.impact] - IMPACT_ORDER[b.impact]);
+}
+
+/**
+ * Builds a SARIF 2.1.0 log with one run covering every audited URL
+ * @param entries The audited URLs with their reports or errors
+ * @param tool Name and version reported as the SARIF driver
+ */
+export function buildSarif(entries: AuditReportEntry[], tool: ToolInfo) {
+  const rules = new Map<string, any>();
+  const results: any[] = [];
+
+  for (const entry of entries) {
+    if (!entry.report) continue;
+
+    for (const finding of collectFindings(entry.category, entry.report)) {
+      if (!rules.has(finding.ruleId)) {
+        rules.set(finding.ruleId, {
+          id: finding.ruleId,
+          name: finding.ruleId.split("/").pop(),
+          shortDescription: { text: finding.title },
+          defaultConfiguration: { level: SARIF_LEVELS[finding.impact] },
+          properties: { category: finding.category },
+        });
+      }
+
+      results.push({
+        ruleId: finding.ruleId,
+        level: SARIF_LEVELS[finding.impact],
+        message: { text: finding.message },
+        locations: finding.locations.map((location) => ({
+          // Pages have no source lines; code scanning needs a startLine to
+          // place a result, so every result points at the page's first line
+          physicalLocation: {
+            artifactLocation: { uri: location.url },
+            region: {
+              startLine: 1,
+              ...(location.snippet && { snippet: { text: location.snippet } }),
+            },
+          },
+          ...(location.selector && {
+            logicalLocations: [
+              { fullyQualifiedName: location.selector, kind: "element" },
+            ],
+          }),
+        })),
+        properties: { impact: finding.impact, pageUrl: entry.url },
+      });
+    }
+  }
+
+  const errors = entries.filter((entry) => entry.error);
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: tool.name,
+            version: tool.version,
+            rules: Array.from(rules.values()),
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: errors.length === 0,
+            toolExecutionNotifications: errors.map((entry) => ({
+              level: "error",
+              message: { text: `${entry.category} audit failed for ${entry.url}: ${entry.error}` },
+            })),
+          },
+        ],
+        results,
+      },
+    ],
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+function describeLocation(location: FindingLocation): string {
+  return location.selector ? `${location.selector} (${location.url})` : location.url;
+}
+
+/**
+ * Builds a JUnit XML report with one test suite per audited URL and one
+ * failing test case per failed audit
+ * @param entries The audited URLs with their reports or errors
+ * @param tool Name used for the top-level test suites element
+ */
+export function buildJUnit(entries: AuditReportEntry[], tool: ToolInfo): string {
+  let totalTests = 0;
+  let totalFailures = 0;
+  let totalErrors = 0;
+  const suites: string[] = [];
+
+  for (const entry of entries) {
+    const suiteName = escapeXml(`${entry.category} ${entry.url}`);
+    const timestamp = escapeXml(
+      entry.report?.metadata?.timestamp || new Date().toISOString()
+    );
+
+    if (!entry.report) {
+      totalTests++;
+      totalErrors++;
+      suites.push(
+        `  <testsuite name="${suiteName}" tests="1" failures="0" errors="1" timestamp="${timestamp}">\n` +
+          `    <testcase classname="${escapeXml(entry.category)}" name="audit">\n` +
+          `      <error message="${escapeXml(entry.error || "Audit failed")}"/>\n` +
+          `    </testcase>\n` +
+          `  </testsuite>`
+      );
+      continue;
+    }
+
+    const findings = collectFindings(entry.category, entry.report);
+    const cases = findings.map((finding) => {
+      const details = [
+        finding.message,
+        ...finding.locations.map((location) => `at ${describeLocation(location)}`),
+      ].join("\n");
+      return (
+        `    <testcase classname="${escapeXml(finding.category)}" name="${escapeXml(finding.ruleId)}">\n` +
+        `      <failure message="${escapeXml(finding.title)}" type="${finding.impact}">${escapeXml(details)}</failure>\n` +
+        `    </testcase>`
+      );
+    });
+
+    // A suite without failures still needs a test case to show up as passed
+    if (cases.length === 0) {
+      cases.push(
+        `    <testcase classname="${escapeXml(entry.category)}" name="audit"/>`
+      );
+    }
+
+    totalTests += cases.length;
+    totalFailures += findings.length;
+    suites.push(
+      `  <testsuite name="${suiteName}" tests="${cases.length}" failures="${findings.length}" errors="0" timestamp="${timestamp}">\n` +
+        `${cases.join("\n")}\n` +
+        `  </testsuite>`
+    );
+  }
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<testsuites name="${escapeXml(tool.name)}" tests="${totalTests}" failures="${totalFailures}" errors="${totalErrors}">\n` +
+    (suites.length > 0 ? `${suites.join("\n")}\n` : "") +
+    `</testsuites>\n`
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Token Authentication for Browser Tools Server
+ *
+ * Every REST route and the /extension-ws upgrade require a shared token,
+ * since the server listens on all interfaces and exposes cookies, storage
+ * and page automation. The token is generated on first start and written
+ * to a file readable only by the current user; the MCP server reads it from
+ * there and the extension is paired once by pasting it into its panel.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { IncomingMessage } from "http";
+import type { NextFunction, Request, Response } from "express";
+
+// Routes clients use to find the server before they hold a token
+const PUBLIC_PATHS = ["/.identity", "/.port"];
+
+const TOKEN_HEADER = "x-webai-token";
+
+export class ConnectorAuth {
+  private token: string | null;
+  private tokenPath: string | null;
+
+  /**
+   * @param token The shared token, or null to accept every request
+   * @param tokenPath The file the token was read from or written to
+   */
+  constructor(token: string | null, tokenPath: string | null = null) {
+    this.token = token;
+    this.tokenPath = tokenPath;
+  }
+
+  static getDefaultTokenPath(): string {
+    return path.join(os.homedir(), ".webai-mcp", "auth-token");
+  }
+
+  /**
+   * Creates the authenticator from environment variables:
+   * - DISABLE_AUTH: "true" to accept requests without a token (trusted setups only)
+   * - AUTH_TOKEN: a shared secret to use instead of a generated token
+   * - AUTH_TOKEN_FILE: file the token is kept in
+   */
+  static createFromEnvironment(): ConnectorAuth {
+    if (process.env.DISABLE_AUTH === "true") {
+      console.warn(
+        "Authentication is disabled (DISABLE_AUTH=true): anyone who can reach this server can use it"
+      );
+      return new ConnectorAuth(null);
+    }
+
+    const tokenPath =
+      process.env.AUTH_TOKEN_FILE || ConnectorAuth.getDefaultTokenPath();
+    const token =
+      process.env.AUTH_TOKEN?.trim() ||
+      ConnectorAuth.readToken(tokenPath) ||
+      crypto.randomBytes(32).toString("hex");
+
+    // Keep the file in sync so the MCP server on this machine finds the token
+    if (ConnectorAuth.readToken(tokenPath) !== token) {
+      try {
+        fs.mkdirSync(path.dirname(tokenPath), { recursive: true, mode: 0o700 });
+        fs.writeFileSync(tokenPath, token + "\n", { mode: 0o600 });
+      } catch (error) {
+        console.error(`Failed to write auth token to ${tokenPath}:`, error);
+      }
+    }
+
+    return new ConnectorAuth(token, tokenPath);
+  }
+
+  private static readToken(tokenPath: string): string | null {
+    try {
+      return fs.readFileSync(tokenPath, "utf8").trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.token !== null;
+  }
+
+  getTokenPath(): string | null {
+    return this.tokenPath;
+  }
+
+  /**
+   * Whether a request carries the token, in an `Authorization: Bearer`
+   * or `X-WebAI-Token` header
+   * @param allowQueryToken Also accept a `token` query parameter, for
+   * WebSocket upgrades where browsers cannot set headers
+   */
+  isAuthorized(request: IncomingMessage, allowQueryToken = false): boolean {
+    if (this.token === null) return true;
+
+    let candidate: string | undefined;
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith("Bearer ")) {
+      candidate = authorization.substring("Bearer ".length).trim();
+    } else if (typeof request.headers[TOKEN_HEADER] === "string") {
+      candidate = request.headers[TOKEN_HEADER] as string;
+    } else if (allowQueryToken) {
+      candidate =
+        new URL(request.url || "", "http://localhost").searchParams.get(
+          "token"
+        ) ?? undefined;
+    }
+
+    if (!candidate) return false;
+    const expected = Buffer.from(this.token);
+    const received = Buffer.from(candidate);
+    return (
+      expected.length === received.length &&
+      crypto.timingSafeEqual(expected, received)
+    );
+  }
+
+  /**
+   * Express middleware rejecting requests without the token; discovery
+   * routes and CORS preflights stay public
+   */
+  middleware() {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (
+        !this.isEnabled() ||
+        req.method === "OPTIONS" ||
+        PUBLIC_PATHS.includes(req.path) ||
+        this.isAuthorized(req)
+      ) {
+        next();
+        return;
+      }
+
+      res.status(401).json({
+        error:
+          "Missing or invalid auth token. Use the token from the server's " +
+          "auth-token file (~/.webai-mcp/auth-token by default)",
+        reason: "unauthorized",
+      });
+    };
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Browser Automation for Browser Tools Server
+ *
+ * Validates the commands that drive the inspected page (navigate, click,
+ * type, press keys, scroll, hover, select options and wait for elements)
+ * before they are sent to the extension, which runs them through its
+ * debugger attachment.
+ */
+
+export type AutomationAction =
+  | "navigate"
+  | "click"
+  | "type-text"
+  | "press-key"
+  | "scroll"
+  | "hover"
+  | "select-option"
+  | "wait-for-selector";
+
+export type KeyModifier = "Alt" | "Control" | "Meta" | "Shift";
+
+export type AutomationCommand =
+  | {
+      action: "navigate";
+      url: string;
+      waitUntil: "load" | "domcontentloaded" | "none";
+      timeout: number;
+    }
+  | {
+      action: "click";
+      selector: string;
+      button: "left" | "right" | "middle";
+      clickCount: number;
+    }
+  | {
+      action: "type-text";
+      selector?: string; // Types into the focused element when omitted
+      text: string;
+      clear: boolean;
+      delay: number; // Milliseconds between characters
+    }
+  | { action: "press-key"; key: string; modifiers: KeyModifier[] }
+  | {
+      action: "scroll";
+      selector?: string;
+      to?: "top" | "bottom";
+      x: number;
+      y: number;
+    }
+  | { action: "hover"; selector: string }
+  | {
+      action: "select-option";
+      selector: string;
+      value?: string;
+      label?: string;
+    }
+  | {
+      action: "wait-for-selector";
+      selector: string;
+      state: "attached" | "visible" | "hidden";
+      timeout: number;
+    };
+
+export const AUTOMATION_ACTIONS: AutomationAction[] = [
+  "navigate",
+  "click",
+  "type-text",
+  "press-key",
+  "scroll",
+  "hover",
+  "select-option",
+  "wait-for-selector",
+];
+
+const KEY_MODIFIERS: KeyModifier[] = ["Alt", "Control", "Meta", "Shift"];
+
+const MAX_TEXT_LENGTH = 10000;
+const MAX_NAVIGATION_TIMEOUT = 120000;
+const MAX_WAIT_TIMEOUT = 60000;
+
+// Time the extension needs beyond the command's own waiting
+const RESPONSE_MARGIN = 5000;
+const DEFAULT_RESPONSE_TIMEOUT = 10000;
+
+// Extension error reasons that describe a bad request rather than a failure
+const CLIENT_ERROR_REASONS = [
+  "invalid-selector",
+  "selector-not-found",
+  "element-not-visible",
+  "not-a-select",
+  "option-not-found",
+  "unknown-key",
+];
+
+function requireSelector(value: unknown): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error("selector must be a non-empty string");
+  }
+  return value;
+}
+
+function optionalSelector(value: unknown): string | undefined {
+  return value === undefined ? undefined : requireSelector(value);
+}
+
+/**
+ * Reads an optional integer request parameter
+ * @param value The parameter from the request body
+ * @param name Names the parameter in the error message
+ * @param defaultValue Used when the parameter is missing
+ * @param min The smallest allowed value
+ * @param max The largest allowed value
+ */
+export function readInteger(
+  value: unknown,
+  name: string,
+  defaultValue: number,
+  min: number,
+  max: number
+): number {
+  if (value === undefined) return defaultValue;
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    throw new Error(
+      `${name} must be an integer between ${min} and ${max}`
+    );
+  }
+  return value as number;
+}
+
+function readEnum<T extends string>(
+  value: unknown,
+  name: string,
+  allowed: readonly T[],
+  defaultValue: T
+): T {
+  if (value === undefined) return defaultValue;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${name} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+/**
+ * Validates the parameters of an automation request
+ * @param action The action, taken from the endpoint path
+ * @param body The request body
+ * @returns The command to send to the extension
+ * @throws Error describing the first invalid parameter
+ */
+export function parseAutomationCommand(
+  action: AutomationAction,
+  body: any
+): AutomationCommand {
+  const params = body || {};
+
+  switch (action) {
+    case "navigate": {
+      let url: URL;
+      try {
+        url = new URL(params.url);
+      } catch {
+        throw new Error("url must be an absolute URL");
+      }
+      if (!["http:", "https:"].includes(url.protocol)) {
+        throw new Error("url must be an http or https URL");
+      }
+      return {
+        action,
+        url: url.href,
+        waitUntil: readEnum(
+          params.waitUntil,
+          "waitUntil",
+          ["load", "domcontentloaded", "none"] as const,
+          "load"
+        ),
+        timeout: readInteger(params.timeout, "timeout", 30000, 0, MAX_NAVIGATION_TIMEOUT),
+      };
+    }
+
+    case "click":
+      return {
+        action,
+        selector: requireSelector(params.selector),
+        button: readEnum(
+          params.button,
+          "button",
+          ["left", "right", "middle"] as const,
+          "left"
+        ),
+        clickCount: readInteger(params.clickCount, "clickCount", 1, 1, 3),
+      };
+
+    case "type-text": {
+      if (typeof params.text !== "string") {
+        throw new Error("text must be a string");
+      }
+      if (params.text.length > MAX_TEXT_LENGTH) {
+        throw new Error(
+          `text must be at most ${MAX_TEXT_LENGTH} characters`
+        );
+      }
+      if (params.clear !== undefined && typeof params.clear !== "boolean") {
+        throw new Error("clear must be a boolean");
+      }
+      return {
+        action,
+        selector: optionalSelector(params.selector),
+        text: params.text,
+        clear: params.clear === true,
+        delay: readInteger(params.delay, "delay", 0, 0, 1000),
+      };
+    }
+
+    case "press-key": {
+      if (typeof params.key !== "string" || !params.key) {
+        throw new Error("key must be a non-empty string");
+      }
+      const modifiers = params.modifiers ?? [];
+      if (
+        !Array.isArray(modifiers) ||
+        modifiers.some((modifier) => !KEY_MODIFIERS.includes(modifier))
+      ) {
+        throw new Error(
+          `modifiers must be an array of: ${KEY_MODIFIERS.join(", ")}`
+        );
+      }
+      return { action, key: params.key, modifiers };
+    }
+
+    case "scroll": {
+      const selector = optionalSelector(params.selector);
+      const to =
+        params.to === undefined
+          ? undefined
+          : readEnum(params.to, "to", ["top", "bottom"] as const, "top");
+      const hasDelta = params.x !== undefined || params.y !== undefined;
+      if ([selector !== undefined, to !== undefined, hasDelta].filter(Boolean).length !== 1) {
+        throw new Error(
+          "Provide exactly one of selector, to, or x/y scroll distances"
+        );
+      }
+      return {
+        action,
+        selector,
+        to,
+        x: readInteger(params.x, "x", 0, -100000, 100000),
+        y: readInteger(params.y, "y", 0, -100000, 100000),
+      };
+    }
+
+    case "hover":
+      return { action, selector: requireSelector(params.selector) };
+
+    case "select-option": {
+      const { value, label } = params;
+      if ((value === undefined) === (label === undefined)) {
+        throw new Error("Provide either value or label");
+      }
+      if (
+        (value !== undefined && typeof value !== "string") ||
+        (label !== undefined && typeof label !== "string")
+      ) {
+        throw new Error("value and label must be strings");
+      }
+      return { action, selector: requireSelector(params.selector), value, label };
+    }
+
+    case "wait-for-selector":
+      return {
+        action,
+        selector: requireSelector(params.selector),
+        state: readEnum(
+          params.state,
+          "state",
+          ["attached", "visible", "hidden"] as const,
+          "visible"
+        ),
+        timeout: readInteger(params.timeout, "timeout", 10000, 0, MAX_WAIT_TIMEOUT),
+      };
+  }
+}
+
+/**
+ * How long to wait for the extension's response to a command
+ */
+export function getAutomationResponseTimeout(command: AutomationCommand): number {
+  switch (command.action) {
+    case "navigate":
+    case "wait-for-selector":
+      return command.timeout + RESPONSE_MARGIN;
+    case "type-text":
+      return command.text.length * command.delay + DEFAULT_RESPONSE_TIMEOUT;
+    default:
+      return DEFAULT_RESPONSE_TIMEOUT;
+  }
+}
+
+/**
+ * HTTP status for a failed command, from the reason the extension reported
+ */
+export function getAutomationErrorStatus(reason?: string): number {
+  if (reason && CLIENT_ERROR_REASONS.includes(reason)) return 400;
+  if (reason === "timeout") return 408;
+  if (reason === "debugger-unavailable") return 503;
+  return 500;
+}
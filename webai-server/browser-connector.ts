@@ -20,13 +20,80 @@ import {
   runPerformanceAudit,
   runAccessibilityAudit,
   runSEOAudit,
+  runFullAudit,
+  runPWAAudit,
   AuditCategory,
+  AuditSession,
+  AuditSettings,
   LighthouseReport,
+  parseAuditSettings,
 } from "./lighthouse/index.js";
 import * as net from "net";
 import { runBestPracticesAudit } from "./lighthouse/best-practices.js";
 import { ProxyManager, type NetworkConfig, type ProxyConfig } from "./proxy-config.js";
 import { AutoPasteManager, type AutoPasteConfig } from "./auto-paste-manager.js";
+import {
+  parseLogQuery,
+  queryLogs,
+  filterLogs,
+  LogQueryError,
+} from "./log-query.js";
+import { buildHar } from "./har-export.js";
+import { LogStore } from "./log-store.js";
+import {
+  Redactor,
+  parseSensitiveDataMode,
+  type SensitiveDataMode,
+} from "./redaction.js";
+import { ConnectorAuth } from "./auth.js";
+import { ChangeEvents, LOG_TOPICS } from "./change-events.js";
+import { TabRegistry } from "./tab-registry.js";
+import {
+  createRequestId,
+  requestFromExtension,
+  takeCallback,
+  type PendingCallback,
+} from "./extension-requests.js";
+import { captureHeadlessScreenshot } from "./puppeteer-service.js";
+import {
+  BaselineStore,
+  compareScreenshots,
+  type Region,
+} from "./visual-regression.js";
+import {
+  AuditHistoryStore,
+  compareAuditEntries,
+  type AuditHistoryFilter,
+} from "./audit-history.js";
+import {
+  AuditOutputFormat,
+  AuditReportEntry,
+  buildJUnit,
+  buildSarif,
+  parseAuditOutputFormat,
+} from "./audit-report-formats.js";
+import {
+  AUTOMATION_ACTIONS,
+  getAutomationErrorStatus,
+  getAutomationResponseTimeout,
+  parseAutomationCommand,
+  type AutomationAction,
+  type AutomationCommand,
+} from "./automation.js";
+import {
+  getEvaluationErrorStatus,
+  getEvaluationResponseTimeout,
+  isScriptEvaluationEnabled,
+  parseEvaluateRequest,
+  type EvaluateRequest,
+} from "./script-evaluation.js";
+import {
+  ConfirmationRequiredError,
+  STORAGE_COMMAND_ENDPOINTS,
+  parseStorageCommand,
+  type StorageCommand,
+  type StorageOperation,
+} from "./storage-commands.js";
 
 /**
  * Converts a file path to the appropriate format for the current platform
@@ -146,6 +213,14 @@ function getDefaultDownloadsFolder(): string {
   return downloadsPath;
 }
 
+// Resolves where screenshots are written: the extension's configured path,
+// else the server setting, else the default downloads folder
+function getScreenshotDirectory(customPath?: string): string {
+  return convertPathForCurrentPlatform(
+    customPath || currentSettings.screenshotPath || getDefaultDownloadsFolder()
+  );
+}
+
 // We store logs in memory
 const consoleLogs: any[] = [];
 const consoleErrors: any[] = [];
@@ -153,6 +228,9 @@ const networkErrors: any[] = [];
 const networkSuccess: any[] = [];
 const allXhr: any[] = [];
 
+// Sequential id stamped on every stored log entry, used as the pagination cursor
+let nextLogId = 1;
+
 // Store the current URL from the extension
 let currentUrl: string = "";
 
@@ -183,36 +261,176 @@ let currentSettings = {
 // Initialize proxy manager
 let proxyManager = ProxyManager.createFromEnvironment();
 
-// Add new storage for selected element
-let selectedElement: any = null;
+// Initialize the persistent log store (records only while a session is active)
+const logStore = LogStore.createFromEnvironment();
+
+// One extension connection per inspected tab
+const tabRegistry = new TabRegistry();
+
+// Baseline screenshots for visual regression checks
+const baselineStore = BaselineStore.createFromEnvironment();
+
+// Every audit report, for score trends and run comparisons
+const auditHistory = AuditHistoryStore.createFromEnvironment();
+
+// Redacts logs, cookies and storage according to the sensitive data setting
+const redactor = Redactor.createFromEnvironment();
+
+// Shared token required by the REST routes and the extension WebSocket
+const auth = ConnectorAuth.createFromEnvironment();
+
+// Tells clients listening on /events when captured data changes
+const changeEvents = new ChangeEvents();
+
+function getSensitiveDataMode() {
+  return parseSensitiveDataMode(currentSettings.sensitiveDataMode);
+}
+
+// Error reported by the extension for a command, with its machine-readable reason
+class ExtensionCommandError extends Error {
+  constructor(message: string, public reason?: string) {
+    super(message);
+    this.name = "ExtensionCommandError";
+  }
+}
+
+// Options for the downscaled copy of a screenshot returned inline to the client
+interface InlineScreenshotOptions {
+  format: "png" | "jpeg";
+  quality: number; // 1-100, JPEG only
+  maxWidth: number;
+  maxBytes: number;
+}
+
+// Inline copy as encoded by the extension
+interface InlineScreenshot {
+  data: string; // Data URL
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+// Element or full-page capture, handled by the extension's debugger
+type CaptureMode =
+  | { selector: string; padding: number }
+  | { fullPage: true };
+
+// Reads the selector/padding/fullPage options of a screenshot request
+function parseCaptureMode(body: any): CaptureMode | undefined {
+  const { selector, padding = 0, fullPage = false } = body || {};
+  if (selector !== undefined && (typeof selector !== "string" || !selector.trim())) {
+    throw new Error("selector must be a non-empty string");
+  }
+  if (selector && fullPage) {
+    throw new Error("Use either selector or fullPage, not both");
+  }
+  if (!Number.isInteger(padding) || padding < 0) {
+    throw new Error("padding must be a non-negative integer");
+  }
+  if (selector) return { selector, padding };
+  return fullPage === true ? { fullPage: true } : undefined;
+}
+
+// Maximum number of URLs audited in one request
+const MAX_AUDIT_URLS = 10;
+
+// Reads the url/urls options of an audit request; empty means the current tab
+function parseAuditUrls(body: any): string[] {
+  const { url, urls } = body || {};
+  if (url !== undefined && urls !== undefined) {
+    throw new Error("Use either url or urls, not both");
+  }
+  if (urls !== undefined && (!Array.isArray(urls) || urls.length === 0)) {
+    throw new Error("urls must be a non-empty array");
+  }
+
+  const candidates: unknown[] = urls ?? (url !== undefined ? [url] : []);
+  if (candidates.length > MAX_AUDIT_URLS) {
+    throw new Error(`At most ${MAX_AUDIT_URLS} URLs can be audited at once`);
+  }
+
+  return candidates.map((candidate) => {
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof candidate === "string" ? new URL(candidate) : null;
+    } catch {
+      // Reported below
+    }
+    if (
+      !parsed ||
+      (parsed.protocol !== "http:" && parsed.protocol !== "https:")
+    ) {
+      throw new Error(
+        `Invalid audit URL: ${String(candidate)} (use an http or https URL)`
+      );
+    }
+    return parsed.href;
+  });
+}
+
+// Sends audit results as JSON, or converted to SARIF or JUnit XML
+function sendAuditResponse(
+  res: Response,
+  format: AuditOutputFormat,
+  entries: AuditReportEntry[],
+  json: unknown
+) {
+  const tool = { name: "webai-server", version: getServerVersion() };
+  if (format === "sarif") {
+    res.type("application/sarif+json").send(JSON.stringify(buildSarif(entries, tool), null, 2));
+  } else if (format === "junit") {
+    res.type("application/xml").send(buildJUnit(entries, tool));
+  } else {
+    res.json(json);
+  }
+}
+
+interface ScreenshotData {
+  data: string;
+  path?: string;
+  autoPaste?: boolean;
+  targetIDE?: string;
+  customAppName?: string;
+  inline?: InlineScreenshot;
+}
 
 // Add new state for tracking screenshot requests
-interface ScreenshotCallback {
-  resolve: (value: {
-    data: string;
-    path?: string;
-    autoPaste?: boolean;
-    targetIDE?: string;
-    customAppName?: string;
-  }) => void;
+interface ScreenshotCallback extends PendingCallback {
+  resolve: (value: ScreenshotData) => void;
   reject: (reason: Error) => void;
 }
 
-interface CookiesCallback {
+interface CookiesCallback extends PendingCallback {
   resolve: (value: { cookies: any[] }) => void;
   reject: (reason: Error) => void;
 }
 
-interface LocalStorageCallback {
+interface LocalStorageCallback extends PendingCallback {
   resolve: (value: { storage: any }) => void;
   reject: (reason: Error) => void;
 }
 
-interface SessionStorageCallback {
+interface SessionStorageCallback extends PendingCallback {
   resolve: (value: { storage: any }) => void;
   reject: (reason: Error) => void;
 }
 
+interface AutomationCallback extends PendingCallback {
+  resolve: (value: Record<string, unknown>) => void;
+  reject: (reason: Error) => void;
+}
+
+interface EvaluationCallback extends PendingCallback {
+  resolve: (value: Record<string, unknown>) => void;
+  reject: (reason: Error) => void;
+}
+
+interface StorageCommandCallback extends PendingCallback {
+  resolve: (value: Record<string, unknown>) => void;
+  reject: (reason: Error) => void;
+}
+
 interface RefreshBrowserCallback {
   resolve: (value: { success: boolean; message: string; timestamp: number }) => void;
   reject: (reason: Error) => void;
@@ -223,6 +441,9 @@ const cookiesCallbacks = new Map<string, CookiesCallback>();
 const localStorageCallbacks = new Map<string, LocalStorageCallback>();
 const sessionStorageCallbacks = new Map<string, SessionStorageCallback>();
 const refreshBrowserCallbacks = new Map<string, RefreshBrowserCallback>();
+const automationCallbacks = new Map<string, AutomationCallback>();
+const evaluationCallbacks = new Map<string, EvaluationCallback>();
+const storageCommandCallbacks = new Map<string, StorageCommandCallback>();
 
 // Add new state for tracking selector requests
 interface SelectorCallback {
@@ -295,6 +516,7 @@ let PORT = REQUESTED_PORT;
 // Create application and initialize middleware
 const app = express();
 app.use(cors());
+app.use(auth.middleware());
 // Increase JSON body parser limit to 50MB to handle large screenshots
 app.use(bodyParser.json({ limit: "50mb" }));
 app.use(bodyParser.urlencoded({ limit: "50mb", extended: true }));
@@ -337,58 +559,56 @@ function processJsonString(jsonString: string, maxLength: number): string {
   }
 }
 
-// Helper to process logs based on settings
-function processLogsWithSettings(logs: any[]) {
-  return logs.map((log) => {
-    const processedLog = { ...log };
+// Redacted copies of buffered log entries, so that paging does not run every
+// pattern over the whole buffer on each request. Keyed by the entry itself,
+// so copies go away with entries that leave their buffer.
+const redactedLogs = new WeakMap<object, { mode: SensitiveDataMode; log: any }>();
 
-    if (log.type === "network-request") {
-      // Handle headers visibility
-      if (!currentSettings.showRequestHeaders) {
-        delete processedLog.requestHeaders;
-      }
-      if (!currentSettings.showResponseHeaders) {
-        delete processedLog.responseHeaders;
-      }
-    }
+function getRedactedLog(log: any) {
+  const mode = getSensitiveDataMode();
+  const cached = redactedLogs.get(log);
+  if (cached && cached.mode === mode) return cached.log;
 
-    return processedLog;
-  });
+  const redacted = redactor.redactLog(log, mode);
+  redactedLogs.set(log, { mode, log: redacted });
+  return redacted;
 }
 
-// Helper to calculate size of a log entry
-function calculateLogSize(log: any): number {
-  return JSON.stringify(log).length;
+// Drops the headers the extension's settings hide
+function applyHeaderSettings(log: any) {
+  const processedLog = { ...log };
+  if (log.type === "network-request") {
+    if (!currentSettings.showRequestHeaders) {
+      delete processedLog.requestHeaders;
+    }
+    if (!currentSettings.showResponseHeaders) {
+      delete processedLog.responseHeaders;
+    }
+  }
+  return processedLog;
 }
 
-// Helper to truncate logs based on character limit
-function truncateLogsToQueryLimit(logs: any[]): any[] {
-  if (logs.length === 0) return logs;
-
-  // First process logs according to current settings
-  const processedLogs = processLogsWithSettings(logs);
-
-  let currentSize = 0;
-  const result = [];
-
-  for (const log of processedLogs) {
-    const logSize = calculateLogSize(log);
-
-    // Check if adding this log would exceed the limit
-    if (currentSize + logSize > currentSettings.queryLimit) {
-      console.log(
-        `Reached query limit (${currentSize}/${currentSettings.queryLimit}), truncating logs`
-      );
-      break;
+// Helper to answer a log endpoint with one filtered page of the given buffer
+function sendLogPage(req: Request, res: Response, logs: any[]) {
+  try {
+    const query = parseLogQuery(req.query as Record<string, unknown>);
+    // Redact before filtering, so that a search cannot match hidden values;
+    // headers are only dropped from the returned page
+    const page = queryLogs(
+      logs.map(getRedactedLog),
+      query,
+      currentSettings.queryLimit,
+      applyHeaderSettings
+    );
+    res.json(page);
+  } catch (error) {
+    if (error instanceof LogQueryError) {
+      res.status(400).json({ error: error.message });
+      return;
     }
-
-    // Add log and update size
-    result.push(log);
-    currentSize += logSize;
-    console.log(`Added log of size ${logSize}, total size now: ${currentSize}`);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
   }
-
-  return result;
 }
 
 // Endpoint for the extension to POST data
@@ -419,6 +639,16 @@ app.post("/extension-log", (req, res) => {
 
   console.log(`Processing ${data.type} log entry`);
 
+  if (
+    data.type === "console-log" ||
+    data.type === "console-error" ||
+    data.type === "network-request"
+  ) {
+    data.id = nextLogId++;
+    // Session files only get what the current sensitive data mode shows
+    logStore.append(redactor.redactLog(data, getSensitiveDataMode()));
+  }
+
   switch (data.type) {
     case "page-navigated":
       // Handle page navigation event via HTTP POST
@@ -431,6 +661,7 @@ app.post("/extension-log", (req, res) => {
       if (data.tabId) {
         console.log("Updating tab ID from page navigation event:", data.tabId);
         currentTabId = data.tabId;
+        tabRegistry.updateUrl(data.tabId, data.url);
       }
 
       console.log("Updated current URL:", currentUrl);
@@ -450,6 +681,7 @@ app.post("/extension-log", (req, res) => {
         );
         consoleLogs.shift();
       }
+      changeEvents.publish("console-logs");
       break;
     case "console-error":
       console.log("Adding console error:", {
@@ -466,6 +698,7 @@ app.post("/extension-log", (req, res) => {
         );
         consoleErrors.shift();
       }
+      changeEvents.publish("console-errors");
       break;
     case "network-request":
       const logEntry = {
@@ -485,6 +718,7 @@ app.post("/extension-log", (req, res) => {
           );
           networkErrors.shift();
         }
+        changeEvents.publish("network-errors");
       } else {
         networkSuccess.push(data);
         if (networkSuccess.length > currentSettings.logLimit) {
@@ -493,6 +727,7 @@ app.post("/extension-log", (req, res) => {
           );
           networkSuccess.shift();
         }
+        changeEvents.publish("network-success");
       }
       break;
     case "selected-element":
@@ -501,7 +736,8 @@ app.post("/extension-log", (req, res) => {
         id: data.element?.id,
         className: data.element?.className,
       });
-      selectedElement = data.element;
+      tabRegistry.setSelectedElement(data.tabId, data.element);
+      changeEvents.publish("selected-element");
       break;
     default:
       console.log("Unknown log type:", data.type);
@@ -518,54 +754,126 @@ app.post("/extension-log", (req, res) => {
   res.json({ status: "ok" });
 });
 
-// Update GET endpoints to use the new function
+// Log endpoints accept the filters and pagination parameters from log-query.ts
 app.get("/console-logs", (req, res) => {
-  const truncatedLogs = truncateLogsToQueryLimit(consoleLogs);
-  res.json(truncatedLogs);
+  sendLogPage(req, res, consoleLogs);
 });
 
 app.get("/console-errors", (req, res) => {
-  const truncatedLogs = truncateLogsToQueryLimit(consoleErrors);
-  res.json(truncatedLogs);
+  sendLogPage(req, res, consoleErrors);
 });
 
 app.get("/network-errors", (req, res) => {
-  const truncatedLogs = truncateLogsToQueryLimit(networkErrors);
-  res.json(truncatedLogs);
+  sendLogPage(req, res, networkErrors);
 });
 
 app.get("/network-success", (req, res) => {
-  const truncatedLogs = truncateLogsToQueryLimit(networkSuccess);
-  res.json(truncatedLogs);
+  sendLogPage(req, res, networkSuccess);
 });
 
 app.get("/all-xhr", (req, res) => {
-  // Merge and sort network success and error logs by timestamp
-  const mergedLogs = [...networkSuccess, ...networkErrors].sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-  const truncatedLogs = truncateLogsToQueryLimit(mergedLogs);
-  res.json(truncatedLogs);
+  // Merge network success and error logs; pages are ordered by arrival
+  sendLogPage(req, res, [...networkSuccess, ...networkErrors]);
+});
+
+// Export captured network traffic as a HAR 1.2 document
+app.get("/export/har", (req, res) => {
+  try {
+    const query = parseLogQuery(req.query as Record<string, unknown>);
+    // Redact before filtering, as for the log endpoints
+    const requests = filterLogs(
+      [...networkSuccess, ...networkErrors].map(getRedactedLog),
+      query
+    );
+    const har = buildHar(requests.map(applyHeaderSettings), {
+      name: "webai-server",
+      version: getServerVersion(),
+    });
+
+    if (req.query.download === "true") {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="webai-${timestamp}.har"`
+      );
+    }
+    res.json(har);
+  } catch (error) {
+    if (error instanceof LogQueryError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
 });
 
 // Add new endpoint for selected element
 app.post("/selected-element", (req, res) => {
-  const { data } = req.body;
-  selectedElement = data;
+  const { data, tabId } = req.body;
+  tabRegistry.setSelectedElement(tabId ?? data?.tabId, data);
+  changeEvents.publish("selected-element");
   res.json({ status: "ok" });
 });
 
+// The selection of the tab in ?tabId=, or of the default tab
 app.get("/selected-element", (req, res) => {
+  const selectedElement = tabRegistry.getSelectedElement(
+    req.query.tabId as string | undefined
+  );
   res.json(selectedElement || { message: "No element selected" });
 });
 
+// Server-Sent Events announcing changes to logs, the selected element,
+// screenshots and audit runs; see change-events.ts
+app.get("/events", (req, res) => {
+  changeEvents.addListener(res);
+});
+
+const SCREENSHOT_NAME_PATTERN = /^[A-Za-z0-9._-]+\.png$/;
+
+// Screenshots saved in the current screenshot directory, newest first
+app.get("/screenshots", (req, res) => {
+  const directory = getScreenshotDirectory();
+  try {
+    const screenshots = fs.existsSync(directory)
+      ? fs
+          .readdirSync(directory)
+          .filter((name) => SCREENSHOT_NAME_PATTERN.test(name))
+          .map((name) => {
+            const stats = fs.statSync(path.join(directory, name));
+            return { name, size: stats.size, createdAt: stats.mtime.toISOString() };
+          })
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      : [];
+    res.json({ directory, screenshots });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+app.get("/screenshots/:name", (req, res) => {
+  const { name } = req.params;
+  if (!SCREENSHOT_NAME_PATTERN.test(name)) {
+    res.status(400).json({ error: `Invalid screenshot name: ${name}` });
+    return;
+  }
+
+  const fullPath = path.join(getScreenshotDirectory(), name);
+  if (!fs.existsSync(fullPath)) {
+    res.status(404).json({ error: `Screenshot not found: ${name}` });
+    return;
+  }
+  res.type("png").send(fs.readFileSync(fullPath));
+});
+
 app.get("/.port", (req, res) => {
   res.send(PORT.toString());
 });
 
-// Add new identity endpoint with a unique signature
-app.get("/.identity", (req, res) => {
-  // Read version from package.json
+// Read the server version from package.json
+function getServerVersion(): string {
   let version = "unknown";
   try {
     // Try multiple possible paths for package.json
@@ -587,12 +895,20 @@ app.get("/.identity", (req, res) => {
   } catch (error) {
     console.error("Error reading package.json for version:", error);
   }
+  return version;
+}
+
+// Add new identity endpoint with a unique signature
+app.get("/.identity", (req, res) => {
+  const version = getServerVersion();
 
   res.json({
     port: PORT,
     name: "browser-tools-server",
     version: version,
     signature: "mcp-browser-connector-24x7",
+    authRequired: auth.isEnabled(),
+    authorized: auth.isAuthorized(req),
     uptime: process.uptime(),
     nodeVersion: process.version,
     platform: process.platform,
@@ -608,16 +924,265 @@ function clearAllLogs() {
   networkErrors.length = 0;
   networkSuccess.length = 0;
   allXhr.length = 0;
-  selectedElement = null;
+  tabRegistry.clearSelectedElements();
+  changeEvents.publish([...LOG_TOPICS, "selected-element"]);
   console.log("All logs have been wiped");
 }
 
-// Add endpoint to wipe logs
+// Removes the entries captured in one tab, leaving other tabs' logs intact
+function clearTabLogs(tabId: string) {
+  console.log(`Wiping logs for tab ${tabId}...`);
+  const buffers = [consoleLogs, consoleErrors, networkErrors, networkSuccess, allXhr];
+  for (const buffer of buffers) {
+    const kept = buffer.filter((log) => String(log.tabId) !== tabId);
+    buffer.length = 0;
+    buffer.push(...kept);
+  }
+  tabRegistry.clearSelectedElements(tabId);
+  changeEvents.publish([...LOG_TOPICS, "selected-element"]);
+}
+
+// Add endpoint to wipe logs (all of them, or only one tab's when tabId is given)
 app.post("/wipelogs", (req, res) => {
+  const tabId = req.body?.tabId;
+  if (tabId !== undefined && tabId !== null && tabId !== "") {
+    clearTabLogs(String(tabId));
+    res.json({ status: "ok", message: `Logs for tab ${tabId} cleared successfully` });
+    return;
+  }
+
   clearAllLogs();
   res.json({ status: "ok", message: "All logs cleared successfully" });
 });
 
+// Replace the in-memory log buffers with the entries of a stored session
+function loadEntriesIntoBuffers(entries: any[]) {
+  consoleLogs.length = 0;
+  consoleErrors.length = 0;
+  networkErrors.length = 0;
+  networkSuccess.length = 0;
+
+  for (const entry of entries) {
+    if (typeof entry.id !== "number") {
+      entry.id = nextLogId++;
+    }
+    nextLogId = Math.max(nextLogId, entry.id + 1);
+
+    if (entry.type === "console-log") {
+      consoleLogs.push(entry);
+    } else if (entry.type === "console-error") {
+      consoleErrors.push(entry);
+    } else if (entry.type === "network-request") {
+      if (entry.status >= 400) {
+        networkErrors.push(entry);
+      } else {
+        networkSuccess.push(entry);
+      }
+    }
+  }
+
+  // Keep the newest entries, as /extension-log does when a buffer is full
+  for (const buffer of [consoleLogs, consoleErrors, networkErrors, networkSuccess]) {
+    if (buffer.length > currentSettings.logLimit) {
+      buffer.splice(0, buffer.length - currentSettings.logLimit);
+    }
+  }
+
+  changeEvents.publish(LOG_TOPICS);
+
+  console.log("Loaded session log counts:", {
+    consoleLogs: consoleLogs.length,
+    consoleErrors: consoleErrors.length,
+    networkErrors: networkErrors.length,
+    networkSuccess: networkSuccess.length,
+  });
+}
+
+// List recorded debugging sessions
+app.get("/sessions", (req, res) => {
+  try {
+    res.json({
+      directory: logStore.getDirectory(),
+      recording: logStore.getActiveSession(),
+      sessions: logStore.listSessions(),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// Start recording a new named session
+app.post("/sessions", (req, res) => {
+  try {
+    const session = logStore.startSession(req.body?.name);
+    res.json({ status: "ok", session });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// Stop recording the active session
+app.post("/sessions/stop", (req, res) => {
+  const session = logStore.stopSession();
+  res.json({
+    status: "ok",
+    session,
+    message: session ? "Session recording stopped" : "No session was recording",
+  });
+});
+
+// Reload a recorded session into the in-memory log buffers
+app.post("/sessions/:id/load", (req, res) => {
+  try {
+    const data = logStore.readSession(req.params.id);
+    if (!data) {
+      res.status(404).json({ error: `Session not found: ${req.params.id}` });
+      return;
+    }
+
+    loadEntriesIntoBuffers(data.entries);
+    res.json({
+      status: "ok",
+      session: data.session,
+      loaded: {
+        consoleLogs: consoleLogs.length,
+        consoleErrors: consoleErrors.length,
+        networkErrors: networkErrors.length,
+        networkSuccess: networkSuccess.length,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = errorMessage.startsWith("Invalid session id") ? 400 : 500;
+    res.status(status).json({ error: errorMessage });
+  }
+});
+
+// List the stored visual regression baselines
+app.get("/baselines", (req, res) => {
+  try {
+    res.json({
+      directory: baselineStore.getDirectory(),
+      baselines: baselineStore.list(),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+app.delete("/baselines/:name", (req, res) => {
+  try {
+    if (!baselineStore.delete(req.params.name)) {
+      res.status(404).json({ error: `Baseline not found: ${req.params.name}` });
+      return;
+    }
+    res.json({ status: "ok", deleted: req.params.name });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = errorMessage.startsWith("Invalid baseline name") ? 400 : 500;
+    res.status(status).json({ error: errorMessage });
+  }
+});
+
+// Reads the history filters of a request's query string
+function parseAuditHistoryFilter(query: any): AuditHistoryFilter {
+  const text = (value: unknown) =>
+    typeof value === "string" && value !== "" ? value : undefined;
+  const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new Error("limit must be a positive integer");
+  }
+
+  return {
+    url: text(query.url),
+    category: text(query.category),
+    device: text(query.device),
+    label: text(query.label),
+    commit: text(query.commit),
+    limit,
+  };
+}
+
+// Audit history with score and metric trends
+app.get("/audit-history", (req, res) => {
+  let filter: AuditHistoryFilter;
+  try {
+    filter = parseAuditHistoryFilter(req.query);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return;
+  }
+
+  try {
+    res.json({
+      directory: auditHistory.getDirectory(),
+      runs: auditHistory.list(filter),
+      trends: auditHistory.getTrends(filter),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+// Diffs two runs; without ids, the two latest runs matching the filters
+app.get("/audit-history/compare", (req, res) => {
+  try {
+    const { baseId, headId } = req.query;
+    let base = typeof baseId === "string" ? auditHistory.get(baseId) : null;
+    let head = typeof headId === "string" ? auditHistory.get(headId) : null;
+
+    if (baseId !== undefined && !base) {
+      res.status(404).json({ error: `Audit run not found: ${baseId}` });
+      return;
+    }
+    if (headId !== undefined && !head) {
+      res.status(404).json({ error: `Audit run not found: ${headId}` });
+      return;
+    }
+
+    if (!base || !head) {
+      const runs = auditHistory
+        .list(parseAuditHistoryFilter(req.query))
+        .filter((run) => run.id !== base?.id && run.id !== head?.id);
+      head = head || runs.shift() || null;
+      base = base || runs.find((run) => run.timestamp <= head!.timestamp) || null;
+    }
+
+    if (!base || !head) {
+      res.status(404).json({
+        error: "Need two audit runs to compare. Run the audit again, or pass baseId and headId.",
+      });
+      return;
+    }
+
+    res.json(compareAuditEntries(base, head));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: errorMessage });
+  }
+});
+
+// Full report of one run
+app.get("/audit-history/:id", (req, res) => {
+  try {
+    const entry = auditHistory.get(req.params.id);
+    const report = entry ? auditHistory.readReport(entry.id) : null;
+    if (!entry || !report) {
+      res.status(404).json({ error: `Audit run not found: ${req.params.id}` });
+      return;
+    }
+    res.json({ run: entry, report });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const status = errorMessage.startsWith("Invalid audit id") ? 400 : 500;
+    res.status(status).json({ error: errorMessage });
+  }
+});
+
 // Add endpoint for the extension to report the current URL
 app.post("/current-url", (req, res) => {
   console.log(
@@ -633,6 +1198,7 @@ app.post("/current-url", (req, res) => {
     if (req.body.tabId) {
       const oldTabId = currentTabId;
       currentTabId = req.body.tabId;
+      tabRegistry.updateUrl(req.body.tabId, req.body.url);
       console.log(`Updated current tab ID: ${oldTabId} -> ${currentTabId}`);
     }
 
@@ -665,10 +1231,27 @@ app.post("/current-url", (req, res) => {
 
 // Add endpoint to get the current URL
 app.get("/current-url", (req, res) => {
+  const tabId = req.query.tabId as string | undefined;
+  if (tabId) {
+    const url = tabRegistry.getUrl(tabId);
+    if (url === null) {
+      res.status(404).json({ error: `Tab ${tabId} is not connected` });
+      return;
+    }
+    console.log(`Current URL requested for tab ${tabId}, returning:`, url);
+    res.json({ url, tabId });
+    return;
+  }
+
   console.log("Current URL requested, returning:", currentUrl);
   res.json({ url: currentUrl });
 });
 
+// Add endpoint to list the tabs with a connected DevTools panel
+app.get("/tabs", (req, res) => {
+  res.json({ tabs: tabRegistry.list() });
+});
+
 interface ScreenshotMessage {
   type: "screenshot-data" | "screenshot-error";
   data?: string;
@@ -679,7 +1262,6 @@ interface ScreenshotMessage {
 
 export class BrowserConnector {
   private wss: WebSocketServer;
-  private activeConnection: WebSocket | null = null;
   private app: express.Application;
   private server: any;
   private urlRequestCallbacks: Map<string, (url: string) => void> = new Map();
@@ -704,12 +1286,23 @@ export class BrowserConnector {
         console.log("Browser Connector: Request body:", req.body);
         console.log(
           "Browser Connector: Active WebSocket connection:",
-          !!this.activeConnection
+          tabRegistry.hasConnections()
         );
         await this.captureScreenshot(req, res);
       }
     );
 
+    // Register the visual regression endpoint
+    this.app.post(
+      "/compare-screenshot",
+      async (req: express.Request, res: express.Response) => {
+        console.log(
+          "Browser Connector: Received request to /compare-screenshot endpoint"
+        );
+        await this.compareScreenshot(req, res);
+      }
+    );
+
     // Register the inspect-elements-by-selector endpoint
     this.app.post(
       "/inspect-elements-by-selector",
@@ -733,6 +1326,8 @@ export class BrowserConnector {
 
     // Set up Best Practices audit endpoint
     this.setupBestPracticesAudit();
+    this.setupPWAAudit();
+    this.setupFullAudit();
 
     // Add endpoint for cookies
     this.app.get(
@@ -741,7 +1336,7 @@ export class BrowserConnector {
         console.log("Browser Connector: Received request to /cookies endpoint");
         console.log(
           "Browser Connector: Active WebSocket connection:",
-          !!this.activeConnection
+          tabRegistry.hasConnections()
         );
         await this.getCookies(req, res);
       }
@@ -756,7 +1351,7 @@ export class BrowserConnector {
         );
         console.log(
           "Browser Connector: Active WebSocket connection:",
-          !!this.activeConnection
+          tabRegistry.hasConnections()
         );
         await this.getLocalStorage(req, res);
       }
@@ -771,7 +1366,7 @@ export class BrowserConnector {
         );
         console.log(
           "Browser Connector: Active WebSocket connection:",
-          !!this.activeConnection
+          tabRegistry.hasConnections()
         );
         await this.getSessionStorage(req, res);
       }
@@ -785,12 +1380,27 @@ export class BrowserConnector {
         console.log("Browser Connector: Request body:", req.body);
         console.log(
           "Browser Connector: Active WebSocket connection:",
-          !!this.activeConnection
+          tabRegistry.hasConnections()
         );
         await this.refreshBrowser(req, res);
       }
     );
 
+    // Add cookie and storage write endpoints
+    this.setupStorageCommandEndpoints();
+
+    // Add browser automation endpoints
+    this.setupAutomationEndpoints();
+
+    // Add script evaluation endpoint (disabled unless ALLOW_SCRIPT_EVALUATION=true)
+    this.app.post(
+      "/evaluate",
+      async (req: express.Request, res: express.Response): Promise<void> => {
+        console.log("Browser Connector: Received request to /evaluate endpoint");
+        await this.evaluateScript(req, res);
+      }
+    );
+
     // Add proxy configuration endpoints
     this.setupProxyEndpoints();
 
@@ -798,7 +1408,14 @@ export class BrowserConnector {
     this.server.on(
       "upgrade",
       (request: IncomingMessage, socket: Socket, head: Buffer) => {
-        if (request.url === "/extension-ws") {
+        const { pathname } = new URL(request.url || "", "http://localhost");
+        if (pathname === "/extension-ws") {
+          if (!auth.isAuthorized(request, true)) {
+            console.warn("Rejected WebSocket connection without a valid auth token");
+            socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+            socket.destroy();
+            return;
+          }
           this.wss.handleUpgrade(request, socket, head, (ws: WebSocket) => {
             this.wss.emit("connection", ws, request);
           });
@@ -806,9 +1423,20 @@ export class BrowserConnector {
       }
     );
 
-    this.wss.on("connection", (ws: WebSocket) => {
-      console.log("Chrome extension connected via WebSocket");
-      this.activeConnection = ws;
+    this.wss.on("connection", (ws: WebSocket, request: IncomingMessage) => {
+      // The extension identifies its inspected tab in the connection URL
+      const params = new URL(request.url || "", "http://localhost").searchParams;
+
+      // Connectivity checks from the background script are not tab connections
+      if (params.get("probe") === "true") {
+        return;
+      }
+
+      const tabId = params.get("tabId");
+      const registeredTabId = tabRegistry.register(ws, tabId);
+      console.log(
+        `Chrome extension connected via WebSocket for tab ${registeredTabId}`
+      );
 
       ws.on("message", (message: string | Buffer | ArrayBuffer | Buffer[]) => {
         try {
@@ -833,6 +1461,7 @@ export class BrowserConnector {
           if (data.type === "current-url-response" && data.url) {
             console.log("Received current URL from browser:", data.url);
             currentUrl = data.url;
+            tabRegistry.updateUrl(registeredTabId, data.url);
 
             // Also update the tab ID if provided
             if (data.tabId) {
@@ -859,6 +1488,7 @@ export class BrowserConnector {
           if (data.type === "page-navigated" && data.url) {
             console.log("Page navigated to:", data.url);
             currentUrl = data.url;
+            tabRegistry.updateUrl(registeredTabId, data.url);
 
             // Also update the tab ID if provided
             if (data.tabId) {
@@ -871,14 +1501,11 @@ export class BrowserConnector {
           }
           // Handle screenshot response
           if (data.type === "screenshot-data" && data.data) {
-            console.log("Received screenshot data");
+            console.log("Received screenshot data for request:", data.requestId);
             console.log("Screenshot path from extension:", data.path);
             console.log("Auto-paste setting from extension:", data.autoPaste);
-            // Get the most recent callback since we're not using requestId anymore
-            const callbacks = Array.from(screenshotCallbacks.values());
-            if (callbacks.length > 0) {
-              const callback = callbacks[0];
-              console.log("Found callback, resolving promise");
+            const callback = takeCallback(screenshotCallbacks, data.requestId);
+            if (callback) {
               // Pass all auto-paste settings to the resolver
               callback.resolve({
                 data: data.data,
@@ -886,60 +1513,57 @@ export class BrowserConnector {
                 autoPaste: data.autoPaste,
                 targetIDE: data.targetIDE,
                 customAppName: data.customAppName,
+                inline: data.inline,
               });
-              screenshotCallbacks.clear(); // Clear all callbacks
             } else {
-              console.log("No callbacks found for screenshot");
+              console.log("No callback found for screenshot request:", data.requestId);
             }
           }
           // Handle screenshot error
           else if (data.type === "screenshot-error") {
             console.log("Received screenshot error:", data.error);
-            const callbacks = Array.from(screenshotCallbacks.values());
-            if (callbacks.length > 0) {
-              const callback = callbacks[0];
+            const callback = takeCallback(screenshotCallbacks, data.requestId);
+            if (callback) {
               callback.reject(
-                new Error(data.error || "Screenshot capture failed")
+                new ExtensionCommandError(
+                  data.error || "Screenshot capture failed",
+                  data.reason
+                )
               );
-              screenshotCallbacks.clear(); // Clear all callbacks
             } else {
-              console.log("No callbacks found for screenshot");
+              console.log("No callback found for screenshot request:", data.requestId);
             }
           }
           // Handle cookies data
           else if (data.type === "cookies-data" && data.cookies) {
-            console.log("Received cookies data from extension");
-            const callbacks = Array.from(cookiesCallbacks.values());
-            if (callbacks.length > 0) {
-              const callback = callbacks[0];
+            console.log("Received cookies data for request:", data.requestId);
+            const callback = takeCallback(cookiesCallbacks, data.requestId);
+            if (callback) {
               callback.resolve({ cookies: data.cookies });
-              cookiesCallbacks.clear(); // Clear all callbacks
+            } else {
+              console.log("No callback found for cookies request:", data.requestId);
             }
           }
           // Handle cookies error
           else if (data.type === "cookies-error") {
             console.log("Received cookies error from extension: ", data.error);
-            const callbacks = Array.from(cookiesCallbacks.values());
-            if (callbacks.length > 0) {
-              const callback = callbacks[0];
+            const callback = takeCallback(cookiesCallbacks, data.requestId);
+            if (callback) {
               callback.reject(
                 new Error(data.error || "Cookies request failed")
               );
-              cookiesCallbacks.clear(); // Clear all callbacks
             } else {
-              console.log("No callbacks found for cookies");
+              console.log("No callback found for cookies request:", data.requestId);
             }
           }
           // Handle localStorage data
           else if (data.type === "local-storage-data" && data.storage) {
-            console.log("Received localStorage data from extension");
-            const callbacks = Array.from(localStorageCallbacks.values());
-            if (callbacks.length > 0) {
-              const callback = callbacks[0];
+            console.log("Received localStorage data for request:", data.requestId);
+            const callback = takeCallback(localStorageCallbacks, data.requestId);
+            if (callback) {
               callback.resolve({ storage: data.storage });
-              localStorageCallbacks.clear(); // Clear all callbacks
             } else {
-              console.log("No callbacks found for localStorage");
+              console.log("No callback found for localStorage request:", data.requestId);
             }
           }
           // Handle localStorage error
@@ -948,27 +1572,23 @@ export class BrowserConnector {
               "Received localStorage error from extension: ",
               data.error
             );
-            const callbacks = Array.from(localStorageCallbacks.values());
-            if (callbacks.length > 0) {
-              const callback = callbacks[0];
+            const callback = takeCallback(localStorageCallbacks, data.requestId);
+            if (callback) {
               callback.reject(
                 new Error(data.error || "LocalStorage request failed")
               );
-              localStorageCallbacks.clear(); // Clear all callbacks
             } else {
-              console.log("No callbacks found for localStorage");
+              console.log("No callback found for localStorage request:", data.requestId);
             }
           }
           // Handle sessionStorage data
           else if (data.type === "session-storage-data" && data.storage) {
-            console.log("Received sessionStorage data from extension");
-            const callbacks = Array.from(sessionStorageCallbacks.values());
-            if (callbacks.length > 0) {
-              const callback = callbacks[0];
+            console.log("Received sessionStorage data for request:", data.requestId);
+            const callback = takeCallback(sessionStorageCallbacks, data.requestId);
+            if (callback) {
               callback.resolve({ storage: data.storage });
-              sessionStorageCallbacks.clear(); // Clear all callbacks
             } else {
-              console.log("No callbacks found for sessionStorage");
+              console.log("No callback found for sessionStorage request:", data.requestId);
             }
           }
           // Handle sessionStorage error
@@ -977,19 +1597,17 @@ export class BrowserConnector {
               "Received sessionStorage error from extension: ",
               data.error
             );
-            const callbacks = Array.from(sessionStorageCallbacks.values());
-            if (callbacks.length > 0) {
-              const callback = callbacks[0];
+            const callback = takeCallback(sessionStorageCallbacks, data.requestId);
+            if (callback) {
               callback.reject(
                 new Error(data.error || "SessionStorage request failed")
               );
-              sessionStorageCallbacks.clear(); // Clear all callbacks
             } else {
-              console.log("No callbacks found for sessionStorage");
+              console.log("No callback found for sessionStorage request:", data.requestId);
             }
           }
           // Handle selector response
-          if (data.type === "html-by-selector" && data.requestId) {
+          else if (data.type === "html-by-selector" && data.requestId) {
             console.log("Received HTML by selector response");
             const callback = selectorCallbacks.get(data.requestId);
             if (callback) {
@@ -1032,6 +1650,78 @@ export class BrowserConnector {
               refreshBrowserCallbacks.delete(data.requestId);
             }
           }
+          // Handle automation command result
+          else if (data.type === "automation-result") {
+            const callback = takeCallback(automationCallbacks, data.requestId);
+            if (callback) {
+              callback.resolve(data.result || {});
+            } else {
+              console.log("No callback found for automation request:", data.requestId);
+            }
+          }
+          // Handle automation command error
+          else if (data.type === "automation-error") {
+            console.log("Received automation error:", data.error);
+            const callback = takeCallback(automationCallbacks, data.requestId);
+            if (callback) {
+              callback.reject(
+                new ExtensionCommandError(
+                  data.error || "Automation command failed",
+                  data.reason
+                )
+              );
+            } else {
+              console.log("No callback found for automation request:", data.requestId);
+            }
+          }
+          // Handle script evaluation result
+          else if (data.type === "evaluation-result") {
+            const callback = takeCallback(evaluationCallbacks, data.requestId);
+            if (callback) {
+              callback.resolve(data.result || {});
+            } else {
+              console.log("No callback found for evaluation request:", data.requestId);
+            }
+          }
+          // Handle script evaluation error
+          else if (data.type === "evaluation-error") {
+            console.log("Received evaluation error:", data.error);
+            const callback = takeCallback(evaluationCallbacks, data.requestId);
+            if (callback) {
+              callback.reject(
+                new ExtensionCommandError(
+                  data.error || "Script evaluation failed",
+                  data.reason
+                )
+              );
+            } else {
+              console.log("No callback found for evaluation request:", data.requestId);
+            }
+          }
+          // Handle cookie or storage write result
+          else if (data.type === "storage-command-result") {
+            const callback = takeCallback(storageCommandCallbacks, data.requestId);
+            if (callback) {
+              callback.resolve(data.result || {});
+            } else {
+              console.log("No callback found for storage command:", data.requestId);
+            }
+          }
+          // Handle cookie or storage write error
+          else if (data.type === "storage-command-error") {
+            console.log("Received storage command error:", data.error);
+            const callback = takeCallback(storageCommandCallbacks, data.requestId);
+            if (callback) {
+              callback.reject(
+                new ExtensionCommandError(
+                  data.error || "Storage command failed",
+                  data.reason
+                )
+              );
+            } else {
+              console.log("No callback found for storage command:", data.requestId);
+            }
+          }
           else {
             console.log("Unhandled message type:", data.type);
           }
@@ -1041,10 +1731,8 @@ export class BrowserConnector {
       });
 
       ws.on("close", () => {
-        console.log("Chrome extension disconnected");
-        if (this.activeConnection === ws) {
-          this.activeConnection = null;
-        }
+        console.log(`Chrome extension disconnected for tab ${registeredTabId}`);
+        tabRegistry.unregister(ws);
       });
     });
 
@@ -1086,6 +1774,7 @@ export class BrowserConnector {
           // Write the file
           fs.writeFileSync(fullPath, base64Data, "base64");
           console.log("Screenshot saved successfully");
+          changeEvents.publish("screenshots", { name: filename });
 
           res.json({
             path: fullPath,
@@ -1104,8 +1793,9 @@ export class BrowserConnector {
   }
 
   private async handleScreenshot(req: express.Request, res: express.Response) {
-    if (!this.activeConnection) {
-      return res.status(503).json({ error: "Chrome extension not connected" });
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
     }
 
     try {
@@ -1144,6 +1834,7 @@ export class BrowserConnector {
 
               // Write the file
               fs.writeFileSync(fullPath, base64Data, "base64");
+              changeEvents.publish("screenshots", { name: filename });
               resolve({
                 path: fullPath,
                 filename: filename,
@@ -1152,21 +1843,21 @@ export class BrowserConnector {
           } catch (error) {
             reject(error);
           } finally {
-            this.activeConnection?.removeListener("message", messageHandler);
+            connection.removeListener("message", messageHandler);
           }
         };
 
         // Add temporary message handler
-        this.activeConnection?.on("message", messageHandler);
+        connection.on("message", messageHandler);
 
         // Request screenshot
-        this.activeConnection?.send(
+        connection.send(
           JSON.stringify({ type: "take-screenshot" })
         );
 
         // Set timeout
         setTimeout(() => {
-          this.activeConnection?.removeListener("message", messageHandler);
+          connection.removeListener("message", messageHandler);
           reject(new Error("Screenshot timeout"));
         }, 30000); // 30 second timeout
       });
@@ -1224,7 +1915,119 @@ export class BrowserConnector {
 
   // Public method to check if there's an active connection
   public hasActiveConnection(): boolean {
-    return this.activeConnection !== null;
+    return tabRegistry.hasConnections();
+  }
+
+  // Resolves the extension connection for the request's optional tabId
+  // (body or query string), sending an error response if there is none
+  private getTargetConnection(
+    req: express.Request,
+    res: express.Response
+  ): WebSocket | null {
+    const tabId = req.body?.tabId ?? req.query.tabId;
+    const connection = tabRegistry.getConnection(tabId);
+
+    if (!connection) {
+      if (tabId !== undefined && tabId !== "") {
+        console.log(`Browser Connector: No DevTools connection for tab ${tabId}`);
+        res.status(404).json({
+          error: `Tab ${tabId} is not connected. Open DevTools on that tab or use listTabs to see connected tabs.`,
+        });
+      } else {
+        console.log(
+          "Browser Connector: No active WebSocket connection to Chrome extension"
+        );
+        res.status(503).json({ error: "Chrome extension not connected" });
+      }
+      return null;
+    }
+
+    return connection;
+  }
+
+  // Asks the extension for a screenshot; element and full-page captures fall
+  // back to the headless browser when the extension's debugger is unavailable
+  private async requestScreenshot(
+    connection: WebSocket,
+    tabId: unknown,
+    captureMode?: CaptureMode,
+    inlineOptions?: InlineScreenshotOptions
+  ): Promise<{ screenshot: ScreenshotData; source: "extension" | "headless" }> {
+    console.log("Browser Connector: Starting screenshot capture...");
+    const requestId = createRequestId();
+    console.log("Browser Connector: Generated requestId:", requestId);
+
+    // Create promise that will resolve when we get the screenshot data
+    const screenshotPromise = new Promise<ScreenshotData>((resolve, reject) => {
+      console.log(
+        `Browser Connector: Setting up screenshot callback for requestId: ${requestId}`
+      );
+      // Set timeout to clean up if we don't get a response
+      const timeout = setTimeout(() => {
+        if (screenshotCallbacks.has(requestId)) {
+          console.log(
+            `Browser Connector: Screenshot capture timed out for requestId: ${requestId}`
+          );
+          screenshotCallbacks.delete(requestId);
+          reject(
+            new Error(
+              "Screenshot capture timed out - no response from Chrome extension"
+            )
+          );
+        }
+      }, captureMode ? 30000 : 10000);
+
+      // Store callback in map
+      screenshotCallbacks.set(requestId, { resolve, reject, timeout });
+      console.log(
+        "Browser Connector: Pending requests:",
+        Array.from(screenshotCallbacks.keys())
+      );
+    });
+
+    // Send screenshot request to extension
+    const message = JSON.stringify({
+      type: "take-screenshot",
+      requestId: requestId,
+      ...captureMode,
+      ...(inlineOptions && { inline: inlineOptions }),
+    });
+    console.log(
+      `Browser Connector: Sending WebSocket message to extension:`,
+      message
+    );
+    connection.send(message);
+
+    // Wait for screenshot data
+    console.log("Browser Connector: Waiting for screenshot data...");
+    try {
+      return { screenshot: await screenshotPromise, source: "extension" };
+    } catch (error) {
+      if (
+        !captureMode ||
+        !(error instanceof ExtensionCommandError) ||
+        (error.reason !== "debugger-unavailable" &&
+          error.reason !== "debugger-command-failed")
+      ) {
+        throw error;
+      }
+
+      const url = tabRegistry.getUrl(tabId as string | undefined) || currentUrl;
+      if (!url) {
+        throw new Error(
+          `${error.message}, and no page URL is known for a headless capture`
+        );
+      }
+
+      console.log(
+        `Browser Connector: ${error.message}; capturing ${url} in the headless browser`
+      );
+      const data = await captureHeadlessScreenshot(url, captureMode);
+      return {
+        screenshot: { data: `data:image/png;base64,${data}` },
+        source: "headless",
+      };
+    }
   }
 
   // Add new endpoint for programmatic screenshot capture
@@ -1233,88 +2036,62 @@ export class BrowserConnector {
     console.log("Browser Connector: Request headers:", req.headers);
     console.log("Browser Connector: Request method:", req.method);
 
-    if (!this.activeConnection) {
-      console.log(
-        "Browser Connector: No active WebSocket connection to Chrome extension"
-      );
-      return res.status(503).json({ error: "Chrome extension not connected" });
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
     }
 
+    let captureMode: CaptureMode | undefined;
     try {
-      console.log("Browser Connector: Starting screenshot capture...");
-      const requestId = Date.now().toString();
-      console.log("Browser Connector: Generated requestId:", requestId);
-
-      // Create promise that will resolve when we get the screenshot data
-      const screenshotPromise = new Promise<{
-        data: string;
-        path?: string;
-        autoPaste?: boolean;
-        targetIDE?: string;
-        customAppName?: string;
-      }>((resolve, reject) => {
-        console.log(
-          `Browser Connector: Setting up screenshot callback for requestId: ${requestId}`
-        );
-        // Store callback in map
-        screenshotCallbacks.set(requestId, { resolve, reject });
-        console.log(
-          "Browser Connector: Current callbacks:",
-          Array.from(screenshotCallbacks.keys())
-        );
+      captureMode = parseCaptureMode(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
 
-        // Set timeout to clean up if we don't get a response
-        setTimeout(() => {
-          if (screenshotCallbacks.has(requestId)) {
-            console.log(
-              `Browser Connector: Screenshot capture timed out for requestId: ${requestId}`
-            );
-            screenshotCallbacks.delete(requestId);
-            reject(
-              new Error(
-                "Screenshot capture timed out - no response from Chrome extension"
-              )
-            );
-          }
-        }, 10000);
-      });
+    let inlineOptions: InlineScreenshotOptions | undefined;
+    if (req.body?.inline) {
+      const { format = "jpeg", quality = 80, maxWidth = 1280, maxBytes = 1000000 } =
+        req.body.inline;
+      if (format !== "png" && format !== "jpeg") {
+        return res.status(400).json({ error: 'inline.format must be "png" or "jpeg"' });
+      }
+      if (
+        !Number.isInteger(quality) ||
+        quality < 1 ||
+        quality > 100 ||
+        !Number.isInteger(maxWidth) ||
+        maxWidth < 1 ||
+        !Number.isInteger(maxBytes) ||
+        maxBytes < 1
+      ) {
+        return res.status(400).json({
+          error: "inline.quality must be 1-100; inline.maxWidth and inline.maxBytes must be positive integers",
+        });
+      }
+      inlineOptions = { format, quality, maxWidth, maxBytes };
+    }
 
-      // Send screenshot request to extension
-      const message = JSON.stringify({
-        type: "take-screenshot",
-        requestId: requestId,
-      });
-      console.log(
-        `Browser Connector: Sending WebSocket message to extension:`,
-        message
+    try {
+      const { screenshot, source } = await this.requestScreenshot(
+        connection,
+        req.body?.tabId ?? req.query.tabId,
+        captureMode,
+        inlineOptions
       );
-      this.activeConnection.send(message);
 
-      // Wait for screenshot data
-      console.log("Browser Connector: Waiting for screenshot data...");
       const {
         data: base64Data,
         path: customPath,
         autoPaste,
         targetIDE,
         customAppName,
-      } = await screenshotPromise;
+        inline,
+      } = screenshot;
       console.log("Browser Connector: Received screenshot data, saving...");
       console.log("Browser Connector: Custom path from extension:", customPath);
       console.log("Browser Connector: Auto-paste setting:", autoPaste);
 
-      // Always prioritize the path from the Chrome extension
-      let targetPath = customPath;
-
-      // If no path provided by extension, fall back to defaults
-      if (!targetPath) {
-        targetPath =
-          currentSettings.screenshotPath || getDefaultDownloadsFolder();
-      }
-
-      // Convert the path for the current platform
-      targetPath = convertPathForCurrentPlatform(targetPath);
-
+      const targetPath = getScreenshotDirectory(customPath);
       console.log(`Browser Connector: Using path: ${targetPath}`);
 
       if (!base64Data) {
@@ -1348,6 +2125,7 @@ export class BrowserConnector {
       try {
         fs.writeFileSync(fullPath, cleanBase64, "base64");
         console.log(`Browser Connector: Screenshot saved to: ${fullPath}`);
+        changeEvents.publish("screenshots", { name: filename });
       } catch (err) {
         console.error(
           `Browser Connector: Error saving screenshot to: ${fullPath}`,
@@ -1382,9 +2160,47 @@ export class BrowserConnector {
         console.log("Browser Connector: Auto-paste is disabled, skipping");
       }
 
+      if (!inlineOptions) {
+        res.json({
+          path: fullPath,
+          filename: filename,
+          source,
+        });
+        return;
+      }
+
+      // Older extensions do not encode an inline copy; fall back to the saved PNG
+      const image = inline
+        ? {
+            data: inline.data.replace(/^data:[^;]+;base64,/, ""),
+            mimeType: inline.mimeType,
+            width: inline.width,
+            height: inline.height,
+            bytes: inline.bytes,
+          }
+        : {
+            data: cleanBase64,
+            mimeType: "image/png",
+            bytes: Buffer.byteLength(cleanBase64, "base64"),
+          };
+
+      if (image.bytes > inlineOptions.maxBytes) {
+        const imageError = `Inline screenshot (${image.bytes} bytes) exceeds the ${inlineOptions.maxBytes} byte budget`;
+        console.log(`Browser Connector: ${imageError}`);
+        res.json({
+          path: fullPath,
+          filename: filename,
+          source,
+          imageError,
+        });
+        return;
+      }
+
       res.json({
         path: fullPath,
         filename: filename,
+        source,
+        image,
       });
     } catch (error) {
       const errorMessage =
@@ -1393,27 +2209,151 @@ export class BrowserConnector {
         "Browser Connector: Error capturing screenshot:",
         errorMessage
       );
-      res.status(500).json({
+      const isSelectorError =
+        error instanceof ExtensionCommandError &&
+        (error.reason === "invalid-selector" ||
+          error.reason === "selector-not-found");
+      res.status(isSelectorError ? 400 : 500).json({
         error: errorMessage,
       });
     }
   }
 
+  // Captures the page and diffs it against a named baseline; the first
+  // capture for a name (or one with updateBaseline) becomes the baseline
+  async compareScreenshot(req: express.Request, res: express.Response) {
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
+    }
+
+    const {
+      name,
+      threshold = 0.1,
+      maxMismatchPercentage = 0,
+      ignoreRegions = [],
+      updateBaseline = false,
+    } = req.body || {};
+
+    if (typeof name !== "string" || !name) {
+      return res.status(400).json({ error: "name is required" });
+    }
+    if (typeof threshold !== "number" || threshold < 0 || threshold > 1) {
+      return res.status(400).json({ error: "threshold must be between 0 and 1" });
+    }
+    if (
+      typeof maxMismatchPercentage !== "number" ||
+      maxMismatchPercentage < 0 ||
+      maxMismatchPercentage > 100
+    ) {
+      return res
+        .status(400)
+        .json({ error: "maxMismatchPercentage must be between 0 and 100" });
+    }
+    const isRegion = (region: any): region is Region =>
+      region &&
+      ["x", "y", "width", "height"].every(
+        (key) => typeof region[key] === "number"
+      );
+    if (!Array.isArray(ignoreRegions) || !ignoreRegions.every(isRegion)) {
+      return res.status(400).json({
+        error: "ignoreRegions must be an array of { x, y, width, height }",
+      });
+    }
+
+    let captureMode: CaptureMode | undefined;
+    let baseline: Buffer | null;
+    try {
+      captureMode = parseCaptureMode(req.body);
+      baseline = baselineStore.read(name);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+
+    try {
+      const { screenshot, source } = await this.requestScreenshot(
+        connection,
+        req.body?.tabId ?? req.query.tabId,
+        captureMode
+      );
+      const current = Buffer.from(
+        screenshot.data.replace(/^data:image\/png;base64,/, ""),
+        "base64"
+      );
+
+      if (!baseline || updateBaseline === true) {
+        const info = baselineStore.save(name, current);
+        res.json({
+          name,
+          baselineCreated: !baseline,
+          baselineUpdated: !!baseline,
+          baseline: info,
+          source,
+        });
+        return;
+      }
+
+      const result = compareScreenshots(baseline, current, {
+        threshold,
+        ignoreRegions,
+      });
+
+      const targetPath = getScreenshotDirectory(screenshot.path);
+      fs.mkdirSync(targetPath, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const currentPath = path.join(targetPath, `compare-${name}-${timestamp}.png`);
+      const diffPath = path.join(targetPath, `diff-${name}-${timestamp}.png`);
+      fs.writeFileSync(currentPath, current);
+      fs.writeFileSync(diffPath, result.diffImage);
+      console.log(
+        `Browser Connector: Compared against baseline "${name}": ${result.mismatchPercentage}% mismatch, diff saved to ${diffPath}`
+      );
+
+      res.json({
+        name,
+        passed: result.mismatchPercentage <= maxMismatchPercentage,
+        mismatchPercentage: result.mismatchPercentage,
+        mismatchedPixels: result.mismatchedPixels,
+        totalPixels: result.totalPixels,
+        dimensionsMatch: result.dimensionsMatch,
+        baselineSize: result.baselineSize,
+        currentSize: result.currentSize,
+        changedRegions: result.changedRegions,
+        diffPath,
+        currentPath,
+        source,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(
+        "Browser Connector: Error comparing screenshot:",
+        errorMessage
+      );
+      const isSelectorError =
+        error instanceof ExtensionCommandError &&
+        (error.reason === "invalid-selector" ||
+          error.reason === "selector-not-found");
+      res.status(isSelectorError ? 400 : 500).json({ error: errorMessage });
+    }
+  }
+
   // Add shutdown method
   public shutdown() {
     return new Promise<void>((resolve) => {
       console.log("Shutting down WebSocket server...");
 
-      // Send close message to client if connection is active
-      if (
-        this.activeConnection &&
-        this.activeConnection.readyState === WebSocket.OPEN
-      ) {
+      // Event streams would otherwise keep the HTTP server open
+      changeEvents.close();
+
+      const connections = tabRegistry.getConnections();
+
+      // Send close message to every connected client
+      for (const connection of connections) {
+        if (connection.readyState !== WebSocket.OPEN) continue;
         console.log("Notifying client to close connection...");
         try {
-          this.activeConnection.send(
-            JSON.stringify({ type: "server-shutdown" })
-          );
+          connection.send(JSON.stringify({ type: "server-shutdown" }));
         } catch (err) {
           console.error("Error sending shutdown message to client:", err);
         }
@@ -1422,19 +2362,18 @@ export class BrowserConnector {
       // Set a timeout to force close after 2 seconds
       const forceCloseTimeout = setTimeout(() => {
         console.log("Force closing connections after timeout...");
-        if (this.activeConnection) {
-          this.activeConnection.terminate(); // Force close the connection
-          this.activeConnection = null;
+        for (const connection of connections) {
+          connection.terminate(); // Force close the connection
         }
         this.wss.close();
         resolve();
       }, 2000);
 
-      // Close active WebSocket connection if exists
-      if (this.activeConnection) {
-        this.activeConnection.close(1000, "Server shutting down");
-        this.activeConnection = null;
+      // Close active WebSocket connections
+      for (const connection of connections) {
+        connection.close(1000, "Server shutting down");
       }
+      tabRegistry.clear();
 
       // Close WebSocket server
       this.wss.close(() => {
@@ -1477,16 +2416,30 @@ export class BrowserConnector {
     );
   }
 
+  // Set up the PWA audit endpoint
+  private setupPWAAudit() {
+    this.setupAuditEndpoint(AuditCategory.PWA, "/pwa-audit", runPWAAudit);
+  }
+
+  // Set up the combined audit endpoint (all categories in one Lighthouse run)
+  private setupFullAudit() {
+    this.setupAuditEndpoint("full", "/full-audit", runFullAudit);
+  }
+
   /**
    * Generic method to set up an audit endpoint
-   * @param auditType The type of audit (accessibility, performance, SEO)
+   * @param auditType The type of audit (accessibility, performance, SEO, full)
    * @param endpoint The endpoint path
    * @param auditFunction The audit function to call
    */
   private setupAuditEndpoint(
     auditType: string,
     endpoint: string,
-    auditFunction: (url: string) => Promise<LighthouseReport>
+    auditFunction: (
+      url: string,
+      settings: AuditSettings,
+      session?: AuditSession
+    ) => Promise<LighthouseReport>
   ) {
     // Note: Identity endpoint is already set up globally, no need to duplicate it here
 
@@ -1494,18 +2447,119 @@ export class BrowserConnector {
       try {
         console.log(`${auditType} audit request received`);
 
-        // Get URL using our helper method
-        const url = await this.getUrlForAudit();
+        let settings: AuditSettings;
+        try {
+          settings = parseAuditSettings(req.body, {
+            useDefaultBudgets:
+              auditType === AuditCategory.PERFORMANCE || auditType === "full",
+          });
+        } catch (error) {
+          return res.status(400).json({
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        let requestedUrls: string[];
+        let format: AuditOutputFormat;
+        try {
+          requestedUrls = parseAuditUrls(req.body);
+          format = parseAuditOutputFormat(req.body?.format);
+        } catch (error) {
+          return res.status(400).json({
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        // Authenticated audits copy the session from the connected browser
+        const useBrowserSession = req.body?.useBrowserSession === true;
+        const includeLocalStorage = req.body?.includeLocalStorage === true;
+        if (includeLocalStorage && !useBrowserSession) {
+          return res.status(400).json({
+            error: "includeLocalStorage requires useBrowserSession",
+          });
+        }
+
+        let sessionConnection: WebSocket | null = null;
+        if (useBrowserSession) {
+          sessionConnection = this.getTargetConnection(req, res);
+          if (!sessionConnection) {
+            return;
+          }
+        }
+
+        // Every successful report goes to the audit history
+        const historyTags = {
+          label: typeof req.body?.label === "string" ? req.body.label : undefined,
+          commit: typeof req.body?.commit === "string" ? req.body.commit : undefined,
+        };
+        const recordHistory = (report: LighthouseReport) => {
+          try {
+            const entry = auditHistory.record(auditType, report, historyTags);
+            changeEvents.publish("audits", { id: entry.id });
+          } catch (error) {
+            console.error("Failed to record audit history:", error);
+          }
+        };
+
+        const loadSession = async (auditUrl: string) =>
+          sessionConnection
+            ? this.collectAuditSession(
+                sessionConnection,
+                req.body?.tabId,
+                auditUrl,
+                includeLocalStorage
+              )
+            : undefined;
+
+        // Several URLs are audited one after another in the headless browser
+        if (requestedUrls.length > 1) {
+          const results = [];
+          for (const requestedUrl of requestedUrls) {
+            console.log(`Running ${auditType} audit for: ${requestedUrl}`);
+            try {
+              const report = await auditFunction(
+                requestedUrl,
+                settings,
+                await loadSession(requestedUrl)
+              );
+              recordHistory(report);
+              results.push({ url: requestedUrl, report });
+            } catch (auditError) {
+              console.error(
+                `${auditType} audit failed for ${requestedUrl}:`,
+                auditError
+              );
+              results.push({
+                url: requestedUrl,
+                error:
+                  auditError instanceof Error
+                    ? auditError.message
+                    : String(auditError),
+              });
+            }
+          }
+          console.log(
+            `${auditType} audits completed for ${results.length} URLs`
+          );
+          return sendAuditResponse(
+            res,
+            format,
+            results.map((result) => ({ ...result, category: auditType })),
+            { results }
+          );
+        }
+
+        // Without an explicit URL, audit the page open in the inspected tab
+        const url = requestedUrls[0] || (await this.getUrlForAudit());
 
         if (!url) {
           console.log(`No URL available for ${auditType} audit`);
           return res.status(400).json({
-            error: `URL is required for ${auditType} audit. Make sure you navigate to a page in the browser first, and the browser-tool extension tab is open.`,
+            error: `URL is required for ${auditType} audit. Pass a url, or navigate to a page in the browser with the browser-tool extension tab open.`,
           });
         }
 
-        // If we're using the stored URL (not from request body), log it now
-        if (!req.body?.url && url === currentUrl) {
+        if (requestedUrls.length === 0) {
           console.log(`Using stored URL for ${auditType} audit:`, url);
         }
 
@@ -1521,11 +2575,21 @@ export class BrowserConnector {
 
         // Run the audit using the provided function
         try {
-          const result = await auditFunction(url);
+          const result = await auditFunction(
+            url,
+            settings,
+            await loadSession(url)
+          );
+          recordHistory(result);
 
           console.log(`${auditType} audit completed successfully`);
           // Return the results
-          res.json(result);
+          sendAuditResponse(
+            res,
+            format,
+            [{ url, category: auditType, report: result }],
+            result
+          );
         } catch (auditError) {
           console.error(`${auditType} audit failed:`, auditError);
           const errorMessage =
@@ -1547,10 +2611,57 @@ export class BrowserConnector {
     });
   }
 
+  // Fetches the cookies the browser would send to a URL, and optionally the
+  // inspected tab's localStorage when the tab is on the same origin. Values are
+  // not redacted by the extension: they only go to the local headless browser
+  // and are scrubbed from the audit report.
+  private async collectAuditSession(
+    connection: WebSocket,
+    tabId: unknown,
+    url: string,
+    includeLocalStorage: boolean
+  ): Promise<AuditSession> {
+    const { cookies } = await requestFromExtension<{ cookies: any[] }>(
+      connection,
+      cookiesCallbacks,
+      { type: "get-cookies", session: true, url },
+      "Cookies"
+    );
+    const session: AuditSession = { cookies };
+    console.log(`Copied ${cookies.length} cookies for audit of ${url}`);
+
+    if (includeLocalStorage) {
+      const tabUrl = tabRegistry.getUrl(tabId as string | undefined) || currentUrl;
+      let sameOrigin = false;
+      try {
+        sameOrigin = new URL(tabUrl).origin === new URL(url).origin;
+      } catch {
+        // The tab has no valid URL yet
+      }
+
+      if (sameOrigin) {
+        const { storage } = await requestFromExtension<{ storage: any }>(
+          connection,
+          localStorageCallbacks,
+          { type: "get-local-storage", session: true },
+          "LocalStorage"
+        );
+        session.localStorage = storage;
+      } else {
+        console.log(
+          `Skipping localStorage for ${url}: the inspected tab is on another origin`
+        );
+      }
+    }
+
+    return session;
+  }
+
   // Add method to handle elements with styles requests
   private async inspectElementsBySelector(req: express.Request, res: express.Response) {
-    if (!this.activeConnection) {
-      return res.status(503).json({ error: "Chrome extension not connected" });
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
     }
 
     const { selector, resultLimit = 1, includeComputedStyles = [] } = req.body;
@@ -1559,7 +2670,7 @@ export class BrowserConnector {
     }
 
     try {
-      const requestId = Date.now().toString();
+      const requestId = createRequestId();
       console.log("Browser Connector: Generated requestId for elements with styles request:", requestId);
 
       // Create promise that will resolve when we get the elements and styles data
@@ -1588,7 +2699,7 @@ export class BrowserConnector {
               if (callback) {
                 callback.resolve(response.data);
                 elementsBySelectorCallbacks.delete(requestId);
-                this.activeConnection?.removeEventListener("message", messageHandler);
+                connection.removeEventListener("message", messageHandler);
               }
             }
             else if (response.type === "inspect-elements-error" && response.requestId === requestId) {
@@ -1597,7 +2708,7 @@ export class BrowserConnector {
               if (callback) {
                 callback.reject(new Error(response.error || "Failed to get inspect-elements-by-selector"));
                 elementsBySelectorCallbacks.delete(requestId);
-                this.activeConnection?.removeEventListener("message", messageHandler);
+                connection.removeEventListener("message", messageHandler);
               }
             }
           } catch (error) {
@@ -1606,7 +2717,7 @@ export class BrowserConnector {
         };
 
         // Add the message listener
-        this.activeConnection?.addEventListener("message", messageHandler);
+        connection.addEventListener("message", messageHandler);
 
         // Set timeout to clean up if we don't get a response
         setTimeout(() => {
@@ -1615,7 +2726,7 @@ export class BrowserConnector {
               `Browser Connector: inspect-elements-by-selector request timed out for requestId: ${requestId}`
             );
             elementsBySelectorCallbacks.delete(requestId);
-            this.activeConnection?.removeEventListener("message", messageHandler);
+            connection.removeEventListener("message", messageHandler);
             reject(new Error("inspect-elements-by-selector request timed out - no response from Chrome extension"));
           }
         }, 10000); // 10 second timeout
@@ -1633,7 +2744,7 @@ export class BrowserConnector {
         `Browser Connector: Sending WebSocket message to extension:`,
         message
       );
-      this.activeConnection.send(message);
+      connection.send(message);
 
       // Wait for inspect-elements-by-selector data
       console.log("Browser Connector: Waiting for inspect-elements-by-selector response...");
@@ -1656,68 +2767,24 @@ export class BrowserConnector {
 
   // Add method to get cookies
   async getCookies(req: express.Request, res: express.Response) {
-    if (!this.activeConnection) {
-      console.log(
-        "Browser Connector: No active WebSocket connection to Chrome extension"
-      );
-      return res.status(503).json({ error: "Chrome extension not connected" });
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
     }
 
     try {
       console.log("Browser Connector: Getting cookies");
-      const requestId = Date.now().toString();
-      console.log("Browser Connector: Generated requestId:", requestId);
-
-      // Create promise that will resolve when we get the cookies data
-      const cookiesPromise = new Promise<{ cookies: any[] }>(
-        (resolve, reject) => {
-          console.log(
-            `Browser Connector: Setting up cookies callback for requestId: ${requestId}`
-          );
-          // Store callback in map
-          cookiesCallbacks.set(requestId, { resolve, reject });
-          console.log(
-            "Browser Connector: Current callbacks:",
-            Array.from(cookiesCallbacks.keys())
-          );
-
-          // Set timeout to clean up if we don't get a response
-          setTimeout(() => {
-            if (cookiesCallbacks.has(requestId)) {
-              console.log(
-                `Browser Connector: Cookies request timed out for requestId: ${requestId}`
-              );
-              cookiesCallbacks.delete(requestId);
-              reject(
-                new Error(
-                  "Cookies request timed out - no response from Chrome extension"
-                )
-              );
-            }
-          }, 10000);
-        }
+      const { cookies } = await requestFromExtension<{ cookies: any[] }>(
+        connection,
+        cookiesCallbacks,
+        { type: "get-cookies" },
+        "Cookies"
       );
-
-      // Send cookies request to extension
-      const message = JSON.stringify({
-        type: "get-cookies",
-        requestId: requestId,
-      });
-      console.log(
-        `Browser Connector: Sending WebSocket message to extension:`,
-        message
-      );
-      this.activeConnection.send(message);
-
-      // Wait for cookies data
-      console.log("Browser Connector: Waiting for cookies data...");
-      const result = await cookiesPromise;
       console.log(
         "Browser Connector: Received cookies data, returning response..."
       );
 
-      // Return the cookies data
-      res.json(result.cookies);
+      res.json(redactor.redactCookies(cookies, getSensitiveDataMode()));
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -1728,166 +2795,70 @@ export class BrowserConnector {
 
   // Add method to get localStorage
   async getLocalStorage(req: express.Request, res: express.Response) {
-    if (!this.activeConnection) {
-      console.log(
-        "Browser Connector: No active WebSocket connection to Chrome extension"
-      );
-      return res.status(503).json({ error: "Chrome extension not connected" });
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
     }
 
     try {
       console.log("Browser Connector: Getting localStorage");
-      const requestId = Date.now().toString();
-      console.log("Browser Connector: Generated requestId:", requestId);
-
-      // Create promise that will resolve when we get the localStorage data
-      const localStoragePromise = new Promise<{ storage: any }>(
-        (resolve, reject) => {
-          console.log(
-            `Browser Connector: Setting up localStorage callback for requestId: ${requestId}`
-          );
-          // Store callback in map
-          localStorageCallbacks.set(requestId, { resolve, reject });
-          console.log(
-            "Browser Connector: Current callbacks:",
-            Array.from(localStorageCallbacks.keys())
-          );
-
-          // Set timeout to clean up if we don't get a response
-          setTimeout(() => {
-            if (localStorageCallbacks.has(requestId)) {
-              console.log(
-                `Browser Connector: LocalStorage request timed out for requestId: ${requestId}`
-              );
-              localStorageCallbacks.delete(requestId);
-              reject(
-                new Error(
-                  "LocalStorage request timed out - no response from Chrome extension"
-                )
-              );
-            }
-          }, 10000);
-        }
+      const { storage } = await requestFromExtension<{ storage: any }>(
+        connection,
+        localStorageCallbacks,
+        { type: "get-local-storage" },
+        "LocalStorage"
       );
-
-      // Send localStorage request to extension
-      const message = JSON.stringify({
-        type: "get-local-storage",
-        requestId: requestId,
-      });
-      console.log(
-        `Browser Connector: Sending WebSocket message to extension:`,
-        message
-      );
-      this.activeConnection.send(message);
-
-      // Wait for localStorage data
-      console.log("Browser Connector: Waiting for localStorage data...");
-      const { storage } = await localStoragePromise;
       console.log(
         "Browser Connector: Received localStorage data, returning response..."
       );
 
-      // Return the localStorage data
-      res.json(storage);
+      res.json(redactor.redactStorage(storage, getSensitiveDataMode()));
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
-      console.error(
-        "Browser Connector: Error getting localStorage:",
-        errorMessage
-      );
+      console.error("Browser Connector: Error getting localStorage:", errorMessage);
       return res.status(500).json({ error: errorMessage });
     }
   }
 
   // Add method to get sessionStorage
   async getSessionStorage(req: express.Request, res: express.Response) {
-    if (!this.activeConnection) {
-      console.log(
-        "Browser Connector: No active WebSocket connection to Chrome extension"
-      );
-      return res.status(503).json({ error: "Chrome extension not connected" });
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
     }
 
     try {
       console.log("Browser Connector: Getting sessionStorage");
-      const requestId = Date.now().toString();
-      console.log("Browser Connector: Generated requestId:", requestId);
-
-      // Create promise that will resolve when we get the sessionStorage data
-      const sessionStoragePromise = new Promise<{ storage: any }>(
-        (resolve, reject) => {
-          console.log(
-            `Browser Connector: Setting up sessionStorage callback for requestId: ${requestId}`
-          );
-          // Store callback in map
-          sessionStorageCallbacks.set(requestId, { resolve, reject });
-          console.log(
-            "Browser Connector: Current callbacks:",
-            Array.from(sessionStorageCallbacks.keys())
-          );
-
-          // Set timeout to clean up if we don't get a response
-          setTimeout(() => {
-            if (sessionStorageCallbacks.has(requestId)) {
-              console.log(
-                `Browser Connector: SessionStorage request timed out for requestId: ${requestId}`
-              );
-              sessionStorageCallbacks.delete(requestId);
-              reject(
-                new Error(
-                  "SessionStorage request timed out - no response from Chrome extension"
-                )
-              );
-            }
-          }, 10000);
-        }
-      );
-
-      // Send sessionStorage request to extension
-      const message = JSON.stringify({
-        type: "get-session-storage",
-        requestId: requestId,
-      });
-      console.log(
-        `Browser Connector: Sending WebSocket message to extension:`,
-        message
+      const { storage } = await requestFromExtension<{ storage: any }>(
+        connection,
+        sessionStorageCallbacks,
+        { type: "get-session-storage" },
+        "SessionStorage"
       );
-      this.activeConnection.send(message);
-
-      // Wait for sessionStorage data
-      console.log("Browser Connector: Waiting for sessionStorage data...");
-      const { storage } = await sessionStoragePromise;
       console.log(
         "Browser Connector: Received sessionStorage data, returning response..."
       );
 
-      // Return the sessionStorage data
-      res.json(storage);
+      res.json(redactor.redactStorage(storage, getSensitiveDataMode()));
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
-      console.error(
-        "Browser Connector: Error getting sessionStorage:",
-        errorMessage
-      );
+      console.error("Browser Connector: Error getting sessionStorage:", errorMessage);
       return res.status(500).json({ error: errorMessage });
     }
   }
 
   // Add method to refresh browser
   async refreshBrowser(req: express.Request, res: express.Response) {
-    if (!this.activeConnection) {
-      console.log(
-        "Browser Connector: No active WebSocket connection to Chrome extension"
-      );
-      return res.status(503).json({ error: "Chrome extension not connected" });
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
     }
 
     try {
       console.log("Browser Connector: Refreshing browser");
-      const requestId = Date.now().toString();
+      const requestId = createRequestId();
       console.log("Browser Connector: Generated requestId:", requestId);
 
       const { waitForLoad, timeout, preserveScrollPosition, clearCache } = req.body;
@@ -1935,7 +2906,7 @@ export class BrowserConnector {
         `Browser Connector: Sending WebSocket message to extension:`,
         message
       );
-      this.activeConnection.send(message);
+      connection.send(message);
 
       // Wait for refresh response
       console.log("Browser Connector: Waiting for refresh browser response...");
@@ -1957,6 +2928,178 @@ export class BrowserConnector {
     }
   }
 
+  // Registers the cookie and storage write endpoints, e.g. POST /cookies/set
+  private setupStorageCommandEndpoints(): void {
+    for (const [operation, endpoint] of Object.entries(STORAGE_COMMAND_ENDPOINTS)) {
+      this.app.post(
+        endpoint,
+        async (req: express.Request, res: express.Response): Promise<void> => {
+          console.log(`Browser Connector: Received request to ${endpoint} endpoint`);
+          await this.runStorageCommand(operation as StorageOperation, req, res);
+        }
+      );
+    }
+  }
+
+  // Sends a cookie or storage write to the extension
+  private async runStorageCommand(
+    operation: StorageOperation,
+    req: express.Request,
+    res: express.Response
+  ) {
+    let command: StorageCommand;
+    try {
+      command = parseStorageCommand(operation, req.body);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        operation,
+        error: error instanceof Error ? error.message : String(error),
+        ...(error instanceof ConfirmationRequiredError && {
+          reason: "confirmation-required",
+        }),
+      });
+    }
+
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
+    }
+
+    try {
+      const result = await requestFromExtension<Record<string, unknown>>(
+        connection,
+        storageCommandCallbacks,
+        { type: operation, command },
+        `${operation} command`
+      );
+      res.json({ success: true, operation, ...result });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(`Browser Connector: Error running ${operation}:`, errorMessage);
+      const reason =
+        error instanceof ExtensionCommandError ? error.reason : undefined;
+      res.status(reason === "invalid-cookie" ? 400 : 500).json({
+        success: false,
+        operation,
+        error: errorMessage,
+        ...(reason && { reason }),
+      });
+    }
+  }
+
+  // Registers one endpoint per automation action, e.g. POST /navigate or
+  // POST /wait-for-selector
+  private setupAutomationEndpoints(): void {
+    for (const action of AUTOMATION_ACTIONS) {
+      this.app.post(
+        `/${action}`,
+        async (req: express.Request, res: express.Response): Promise<void> => {
+          console.log(`Browser Connector: Received request to /${action} endpoint`);
+          await this.runAutomationCommand(action, req, res);
+        }
+      );
+    }
+  }
+
+  // Sends an automation command to the extension, which runs it through its
+  // debugger attachment
+  private async runAutomationCommand(
+    action: AutomationAction,
+    req: express.Request,
+    res: express.Response
+  ) {
+    let command: AutomationCommand;
+    try {
+      command = parseAutomationCommand(action, req.body);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        action,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
+    }
+
+    try {
+      const result = await requestFromExtension<Record<string, unknown>>(
+        connection,
+        automationCallbacks,
+        { type: "automation-command", command },
+        `${action} command`,
+        getAutomationResponseTimeout(command)
+      );
+      res.json({ success: true, action, ...result });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(`Browser Connector: Error running ${action}:`, errorMessage);
+      const reason =
+        error instanceof ExtensionCommandError ? error.reason : undefined;
+      res.status(getAutomationErrorStatus(reason)).json({
+        success: false,
+        action,
+        error: errorMessage,
+        ...(reason && { reason }),
+        ...("selector" in command && command.selector && { selector: command.selector }),
+      });
+    }
+  }
+
+  // Runs a script in the inspected page and returns its serialized result
+  private async evaluateScript(req: express.Request, res: express.Response) {
+    if (!isScriptEvaluationEnabled()) {
+      return res.status(403).json({
+        success: false,
+        error:
+          "Script evaluation is disabled. Restart the server with ALLOW_SCRIPT_EVALUATION=true to enable it.",
+        reason: "evaluation-disabled",
+      });
+    }
+
+    let request: EvaluateRequest;
+    try {
+      request = parseEvaluateRequest(req.body, currentSettings.stringSizeLimit);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const connection = this.getTargetConnection(req, res);
+    if (!connection) {
+      return;
+    }
+
+    try {
+      const result = await requestFromExtension<Record<string, unknown>>(
+        connection,
+        evaluationCallbacks,
+        { type: "evaluate-script", ...request },
+        "Script evaluation",
+        getEvaluationResponseTimeout(request)
+      );
+      res.json({ success: true, ...result });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error("Browser Connector: Error evaluating script:", errorMessage);
+      const reason =
+        error instanceof ExtensionCommandError ? error.reason : undefined;
+      res.status(getEvaluationErrorStatus(reason)).json({
+        success: false,
+        error: errorMessage,
+        ...(reason && { reason }),
+      });
+    }
+  }
+
   // Setup proxy configuration endpoints
   private setupProxyEndpoints(): void {
     // Get current proxy configuration
@@ -2165,6 +3308,12 @@ export class BrowserConnector {
       });
 
       console.log(`\nFor local access use: http://localhost:${PORT}`);
+
+      if (auth.isEnabled()) {
+        console.log(
+          `\nAuth token: ${auth.getTokenPath()} (paste it into the extension panel to pair)`
+        );
+      }
     });
 
     // Handle server startup errors
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+/**
+ * Performance budget check for local merge gates
+ *
+ * Runs the performance audit for one or more URLs and compares the results
+ * with a budget file. Exits with 0 when every budget is met, 1 when a budget
+ * is exceeded and 2 when the check could not run.
+ *
+ * Usage:
+ *   webai-budget-check --budgets budget.json [options] <url> [url...]
+ */
+
+import {
+  AuditSettings,
+  parseAuditSettings,
+  runPerformanceAudit,
+  describeBudgetResult,
+} from "./lighthouse/index.js";
+
+const EXIT_PASSED = 0;
+const EXIT_BUDGET_FAILED = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: webai-budget-check --budgets <file> [options] <url> [url...]
+
+Options:
+  --budgets <file>       Budget file in Lighthouse budget.json format
+                         (defaults to PERFORMANCE_BUDGETS)
+  --form-factor <value>  mobile or desktop (default: desktop)
+  --throttling <value>   none, simulated4G or slow4G
+  --locale <value>       Accept-Language for the page, e.g. de-DE
+  --json                 Print the budget results as JSON
+  --help                 Show this message
+
+Exit codes: 0 all budgets met, 1 a budget was exceeded, 2 error`;
+
+interface CliOptions {
+  urls: string[];
+  settings: Record<string, string>;
+  json: boolean;
+}
+
+const VALUE_OPTIONS: Record<string, string> = {
+  "--budgets": "budgetPath",
+  "--form-factor": "formFactor",
+  "--throttling": "throttling",
+  "--locale": "locale",
+};
+
+function parseArguments(args: string[]): CliOptions {
+  const options: CliOptions = { urls: [], settings: {}, json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--help" || arg === "-h") {
+      console.log(USAGE);
+      process.exit(EXIT_PASSED);
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (VALUE_OPTIONS[arg]) {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`${arg} requires a value`);
+      options.settings[VALUE_OPTIONS[arg]] = value;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      options.urls.push(arg);
+    }
+  }
+
+  if (options.urls.length === 0) {
+    throw new Error("At least one URL is required");
+  }
+  return options;
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  let settings: AuditSettings;
+  try {
+    options = parseArguments(process.argv.slice(2));
+    settings = parseAuditSettings(options.settings, {
+      allowBudgetPath: true,
+      useDefaultBudgets: true,
+    });
+    if (!settings.budgets) {
+      throw new Error("No budgets: pass --budgets or set PERFORMANCE_BUDGETS");
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  // Audit logs go to stderr so that stdout only carries the results
+  console.log = console.error;
+  const print = (line: string) => process.stdout.write(`${line}\n`);
+
+  let exitCode = EXIT_PASSED;
+  const results: object[] = [];
+
+  for (const url of options.urls) {
+    try {
+      const { report } = await runPerformanceAudit(url, settings);
+      const budgets = report?.budgets;
+      results.push({ url, score: report?.score, budgets });
+
+      if (!budgets) {
+        if (!options.json) print(`- ${url}: no budget applies`);
+        continue;
+      }
+      if (!budgets.passed) exitCode = Math.max(exitCode, EXIT_BUDGET_FAILED);
+
+      if (!options.json) {
+        print(
+          `${budgets.passed ? "PASS" : "FAIL"} ${url} (${
+            budgets.failed_count
+          } of ${budgets.results.length} budgets exceeded)`
+        );
+        budgets.results
+          .filter((result) => !result.passed)
+          .forEach((result) => print(`  - ${describeBudgetResult(result)}`));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ url, error: message });
+      if (!options.json) print(`ERROR ${url}: ${message}`);
+      exitCode = EXIT_ERROR;
+    }
+  }
+
+  if (options.json) print(JSON.stringify(results, null, 2));
+  return exitCode;
+}
+
+// Exit explicitly, since the headless browser is otherwise kept alive for reuse
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error(error);
+    process.exit(EXIT_ERROR);
+  }
+);
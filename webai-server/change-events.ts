@@ -0,0 +1,114 @@
+/**
+ * Change Events for Browser Tools Server
+ *
+ * Streams a Server-Sent Event to every client listening on GET /events when
+ * captured data changes, so clients such as the MCP server can tell their
+ * own subscribers to refresh instead of polling the log endpoints. Changes
+ * are coalesced so a burst of log entries sends one event per topic.
+ */
+
+import type { Response } from "express";
+
+export type ChangeTopic =
+  | "console-logs"
+  | "console-errors"
+  | "network-errors"
+  | "network-success"
+  | "selected-element"
+  | "screenshots"
+  | "audits";
+
+export const LOG_TOPICS: ChangeTopic[] = [
+  "console-logs",
+  "console-errors",
+  "network-errors",
+  "network-success",
+];
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL = 30000;
+
+// Shortest time between two events of the same topic
+const COALESCE_INTERVAL = 250;
+
+interface TopicWindow {
+  timer: ReturnType<typeof setTimeout>;
+  pending?: Record<string, unknown>; // Details of the latest change held back
+}
+
+export class ChangeEvents {
+  private listeners = new Set<Response>();
+  private windows = new Map<ChangeTopic, TopicWindow>();
+
+  constructor(private coalesceInterval = COALESCE_INTERVAL) {}
+
+  /**
+   * Keeps a response open as an event stream until the client disconnects
+   */
+  addListener(res: Response): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+    this.listeners.add(res);
+
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL);
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      this.listeners.delete(res);
+    });
+  }
+
+  /**
+   * Tells every listener that the data of some topics changed. A topic's
+   * first change is sent at once; further changes within the coalescing
+   * interval are sent as one event with the latest details when it ends.
+   * @param topics The changed topics
+   * @param details Extra fields for the event, e.g. the id of a new audit run
+   */
+  publish(topics: ChangeTopic | ChangeTopic[], details: Record<string, unknown> = {}): void {
+    if (this.listeners.size === 0) return;
+
+    for (const topic of Array.isArray(topics) ? topics : [topics]) {
+      const topicWindow = this.windows.get(topic);
+      if (topicWindow) {
+        topicWindow.pending = details;
+      } else {
+        this.send(topic, details);
+      }
+    }
+  }
+
+  private send(topic: ChangeTopic, details: Record<string, unknown>): void {
+    const event = `event: change\ndata: ${JSON.stringify({ topic, timestamp: Date.now(), ...details })}\n\n`;
+    for (const listener of this.listeners) {
+      listener.write(event);
+    }
+
+    const timer = setTimeout(() => {
+      const pending = this.windows.get(topic)?.pending;
+      this.windows.delete(topic);
+      if (pending) {
+        this.send(topic, pending);
+      }
+    }, this.coalesceInterval);
+    timer.unref();
+    this.windows.set(topic, { timer });
+  }
+
+  /**
+   * Ends every open stream, e.g. on shutdown
+   */
+  close(): void {
+    for (const { timer } of this.windows.values()) {
+      clearTimeout(timer);
+    }
+    this.windows.clear();
+    for (const listener of this.listeners) {
+      listener.end();
+    }
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Extension Requests for Browser Tools Server
+ *
+ * Requests sent to the Chrome extension over its WebSocket carry a random
+ * requestId, which the extension echoes back in its response. Pending
+ * requests are kept in a map keyed by that id, so concurrent requests never
+ * receive each other's data and a timeout only cancels its own request.
+ */
+
+import { randomUUID } from "crypto";
+import type { WebSocket } from "ws";
+
+export interface PendingCallback {
+  timeout?: ReturnType<typeof setTimeout>;
+}
+
+export type PendingRequest<T> = PendingCallback & {
+  resolve: (value: T) => void;
+  reject: (reason: Error) => void;
+};
+
+export function createRequestId(): string {
+  return randomUUID();
+}
+
+/**
+ * Removes and returns the callback registered for a requestId, cancelling
+ * its timeout
+ * @param callbacks The pending requests of one response type
+ * @param requestId The requestId echoed by the extension
+ * @returns The callback, or undefined if the request is unknown or timed out
+ */
+export function takeCallback<T extends PendingCallback>(
+  callbacks: Map<string, T>,
+  requestId: unknown
+): T | undefined {
+  if (typeof requestId !== "string") return undefined;
+  const callback = callbacks.get(requestId);
+  if (callback) {
+    clearTimeout(callback.timeout);
+    callbacks.delete(requestId);
+  }
+  return callback;
+}
+
+/**
+ * Sends a request to the extension and waits for the matching response
+ * @param connection The extension's WebSocket
+ * @param callbacks The pending requests the response handler looks in
+ * @param message The request; a requestId is added
+ * @param description Names the request in the timeout error, e.g. "Cookies"
+ * @param timeoutMs How long to wait for the response
+ */
+export function requestFromExtension<T>(
+  connection: WebSocket,
+  callbacks: Map<string, PendingRequest<T>>,
+  message: Record<string, unknown>,
+  description: string,
+  timeoutMs = 10000
+): Promise<T> {
+  const requestId = createRequestId();
+
+  return new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      if (callbacks.delete(requestId)) {
+        reject(
+          new Error(
+            `${description} request timed out - no response from Chrome extension`
+          )
+        );
+      }
+    }, timeoutMs);
+
+    callbacks.set(requestId, { resolve, reject, timeout });
+    connection.send(JSON.stringify({ ...message, requestId }));
+  });
+}
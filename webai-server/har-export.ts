@@ -0,0 +1,227 @@
+/**
+ * HAR Export for Browser Tools Server
+ *
+ * Converts the `network-request` entries captured by the extension into a
+ * HAR 1.2 document (http://www.softwareishard.com/blog/har-12-spec/) that can
+ * be opened in Chrome DevTools, Charles and other HAR viewers.
+ */
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: Array<{ name: string; value: string }>;
+    headers: HarHeader[];
+    queryString: Array<{ name: string; value: string }>;
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: Array<{ name: string; value: string }>;
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: HarTimings;
+  comment?: string;
+}
+
+export interface HarDocument {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: never[];
+    entries: HarEntry[];
+    comment?: string;
+  };
+}
+
+// Normalizes headers sent either as HAR name/value arrays or as plain objects
+function toHarHeaders(headers: unknown): HarHeader[] {
+  if (Array.isArray(headers)) {
+    return headers
+      .filter((h) => h && typeof h.name === "string")
+      .map((h) => ({ name: h.name, value: String(h.value ?? "") }));
+  }
+  if (headers && typeof headers === "object") {
+    return Object.entries(headers as Record<string, unknown>).map(
+      ([name, value]) => ({ name, value: String(value ?? "") })
+    );
+  }
+  return [];
+}
+
+function findHeader(headers: HarHeader[], name: string): string | undefined {
+  return headers.find((h) => h.name.toLowerCase() === name.toLowerCase())
+    ?.value;
+}
+
+function parseQueryString(url: string): Array<{ name: string; value: string }> {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(
+      ([name, value]) => ({ name, value })
+    );
+  } catch {
+    return [];
+  }
+}
+
+function parseCookieHeader(
+  header: string | undefined
+): Array<{ name: string; value: string }> {
+  if (!header) return [];
+  return header
+    .split(";")
+    .map((part) => part.trim())
+    .filter((part) => part)
+    .map((part) => {
+      const equalsPos = part.indexOf("=");
+      return equalsPos === -1
+        ? { name: part, value: "" }
+        : { name: part.substring(0, equalsPos), value: part.substring(equalsPos + 1) };
+    });
+}
+
+function toHarTimings(timings: any, time: number): HarTimings {
+  // HAR requires send, wait and receive to be non-negative; the rest use -1 for "unknown"
+  const optional = (value: unknown) =>
+    typeof value === "number" && value >= 0 ? value : -1;
+  const required = (value: unknown) =>
+    typeof value === "number" && value >= 0 ? value : 0;
+
+  if (!timings || typeof timings !== "object") {
+    return { blocked: -1, dns: -1, connect: -1, send: 0, wait: time, receive: 0, ssl: -1 };
+  }
+
+  return {
+    blocked: optional(timings.blocked),
+    dns: optional(timings.dns),
+    connect: optional(timings.connect),
+    send: required(timings.send),
+    wait: required(timings.wait),
+    receive: required(timings.receive),
+    ssl: optional(timings.ssl),
+  };
+}
+
+/**
+ * Converts a single captured network request into a HAR entry
+ * @param log A `network-request` log entry
+ * @returns The HAR entry
+ */
+export function toHarEntry(log: any): HarEntry {
+  const requestHeaders = toHarHeaders(log.requestHeaders);
+  const responseHeaders = toHarHeaders(log.responseHeaders);
+  const httpVersion = typeof log.httpVersion === "string" ? log.httpVersion : "HTTP/1.1";
+  const time = typeof log.time === "number" && log.time >= 0 ? log.time : 0;
+
+  const startedDateTime =
+    typeof log.startedDateTime === "string"
+      ? log.startedDateTime
+      : new Date(log.timestamp || Date.now()).toISOString();
+
+  const requestBody = typeof log.requestBody === "string" ? log.requestBody : "";
+  const responseBody = typeof log.responseBody === "string" ? log.responseBody : "";
+  const responseMimeType =
+    log.mimeType || findHeader(responseHeaders, "content-type") || "x-unknown";
+
+  const entry: HarEntry = {
+    startedDateTime,
+    time,
+    request: {
+      method: log.method || "GET",
+      url: log.url || "",
+      httpVersion,
+      cookies: parseCookieHeader(findHeader(requestHeaders, "cookie")),
+      headers: requestHeaders,
+      queryString: parseQueryString(log.url || ""),
+      headersSize: -1,
+      bodySize: requestBody ? Buffer.byteLength(requestBody) : 0,
+    },
+    response: {
+      status: typeof log.status === "number" ? log.status : 0,
+      statusText: log.statusText || "",
+      httpVersion,
+      cookies: [],
+      headers: responseHeaders,
+      content: {
+        size: Buffer.byteLength(responseBody),
+        mimeType: responseMimeType,
+        ...(responseBody && { text: responseBody }),
+      },
+      redirectURL: findHeader(responseHeaders, "location") || "",
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: toHarTimings(log.timings, time),
+  };
+
+  if (requestBody) {
+    entry.request.postData = {
+      mimeType: findHeader(requestHeaders, "content-type") || "application/octet-stream",
+      text: requestBody,
+    };
+  }
+
+  if (/\.\.\. \(truncated\)/.test(requestBody + responseBody)) {
+    entry.comment = "Bodies were truncated by the extension's string size limit";
+  }
+
+  return entry;
+}
+
+/**
+ * Builds a HAR 1.2 document from captured network requests
+ * @param logs `network-request` log entries, in any order
+ * @param creator Name and version recorded as the HAR creator
+ * @returns The HAR document, with entries sorted by start time
+ */
+export function buildHar(
+  logs: any[],
+  creator: { name: string; version: string }
+): HarDocument {
+  const entries = logs
+    .filter((log) => log && log.type === "network-request")
+    .map(toHarEntry)
+    .sort(
+      (a, b) =>
+        new Date(a.startedDateTime).getTime() -
+        new Date(b.startedDateTime).getTime()
+    );
+
+  return {
+    log: {
+      version: "1.2",
+      creator,
+      pages: [],
+      entries,
+      comment: "Exported by WebAI-MCP. Only XHR and fetch requests are captured.",
+    },
+  };
+}
@@ -1,6 +1,11 @@
 import { Result as LighthouseResult } from "lighthouse";
-import { AuditCategory, LighthouseReport } from "./types.js";
-import { runLighthouseAudit } from "./index.js";
+import {
+  AuditCategory,
+  AuditSession,
+  AuditSettings,
+  LighthouseReport,
+} from "./types.js";
+import { runLighthouseAudit, createReportMetadata } from "./index.js";
 
 // === Accessibility Report Types ===
 
@@ -95,14 +100,23 @@ const DETAIL_LIMITS = {
 /**
  * Runs an accessibility audit on the specified URL
  * @param url The URL to audit
+ * @param settings Form factor, throttling, screen emulation and locale
+ * @param session Cookies and localStorage to audit the page as a signed-in user
  * @returns Promise resolving to AI-optimized accessibility audit results
  */
 export async function runAccessibilityAudit(
-  url: string
+  url: string,
+  settings: AuditSettings = {},
+  session?: AuditSession
 ): Promise<AIOptimizedAccessibilityReport> {
   try {
-    const lhr = await runLighthouseAudit(url, [AuditCategory.ACCESSIBILITY]);
-    return extractAIOptimizedData(lhr, url);
+    const lhr = await runLighthouseAudit(
+      url,
+      [AuditCategory.ACCESSIBILITY],
+      settings,
+      session
+    );
+    return extractAccessibilityReport(lhr, url);
   } catch (error) {
     throw new Error(
       `Accessibility audit failed: ${
@@ -115,7 +129,7 @@ export async function runAccessibilityAudit(
 /**
  * Extract AI-optimized accessibility data from Lighthouse results
  */
-const extractAIOptimizedData = (
+export const extractAccessibilityReport = (
   lhr: LighthouseResult,
   url: string
 ): AIOptimizedAccessibilityReport => {
@@ -123,12 +137,7 @@ const extractAIOptimizedData = (
   const audits = lhr.audits || {};
 
   // Add metadata
-  const metadata = {
-    url,
-    timestamp: lhr.fetchTime || new Date().toISOString(),
-    device: "desktop", // This could be made configurable
-    lighthouseVersion: lhr.lighthouseVersion,
-  };
+  const metadata = createReportMetadata(lhr, url);
 
   // Initialize variables
   const issues: AIAccessibilityIssue[] = [];
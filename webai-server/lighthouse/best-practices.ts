@@ -1,6 +1,11 @@
 import { Result as LighthouseResult } from "lighthouse";
-import { AuditCategory, LighthouseReport } from "./types.js";
-import { runLighthouseAudit } from "./index.js";
+import {
+  AuditCategory,
+  AuditSession,
+  AuditSettings,
+  LighthouseReport,
+} from "./types.js";
+import { runLighthouseAudit, createReportMetadata } from "./index.js";
 
 // === Best Practices Report Types ===
 
@@ -76,14 +81,23 @@ const DETAIL_LIMITS: Record<string, number> = {
 /**
  * Runs a Best Practices audit on the specified URL
  * @param url The URL to audit
+ * @param settings Form factor, throttling, screen emulation and locale
+ * @param session Cookies and localStorage to audit the page as a signed-in user
  * @returns Promise resolving to AI-optimized Best Practices audit results
  */
 export async function runBestPracticesAudit(
-  url: string
+  url: string,
+  settings: AuditSettings = {},
+  session?: AuditSession
 ): Promise<AIOptimizedBestPracticesReport> {
   try {
-    const lhr = await runLighthouseAudit(url, [AuditCategory.BEST_PRACTICES]);
-    return extractAIOptimizedData(lhr, url);
+    const lhr = await runLighthouseAudit(
+      url,
+      [AuditCategory.BEST_PRACTICES],
+      settings,
+      session
+    );
+    return extractBestPracticesReport(lhr, url);
   } catch (error) {
     throw new Error(
       `Best Practices audit failed: ${
@@ -96,7 +110,7 @@ export async function runBestPracticesAudit(
 /**
  * Extract AI-optimized Best Practices data from Lighthouse results
  */
-const extractAIOptimizedData = (
+export const extractBestPracticesReport = (
   lhr: LighthouseResult,
   url: string
 ): AIOptimizedBestPracticesReport => {
@@ -104,12 +118,7 @@ const extractAIOptimizedData = (
   const audits = lhr.audits || {};
 
   // Add metadata
-  const metadata = {
-    url,
-    timestamp: lhr.fetchTime || new Date().toISOString(),
-    device: lhr.configSettings?.formFactor || "desktop",
-    lighthouseVersion: lhr.lighthouseVersion || "unknown",
-  };
+  const metadata = createReportMetadata(lhr, url);
 
   // Process audit results
   const issues: AIBestPracticesIssue[] = [];
@@ -0,0 +1,343 @@
+import fs from "fs";
+import type { Result as LighthouseResult } from "lighthouse";
+
+// === Budget Types ===
+
+/**
+ * Resource types of Lighthouse's resource summary
+ */
+export type BudgetResourceType =
+  | "document"
+  | "font"
+  | "image"
+  | "media"
+  | "other"
+  | "script"
+  | "stylesheet"
+  | "third-party"
+  | "total";
+
+/**
+ * A performance budget in Lighthouse's budget.json format
+ * (https://github.com/GoogleChrome/budget.json). Sizes are in KiB, timings
+ * in milliseconds, except cumulative-layout-shift which is unitless.
+ */
+export interface PerformanceBudget {
+  path?: string; // Pages the budget applies to, e.g. "/checkout/*"; all pages if omitted
+  timings?: Array<{ metric: string; budget: number; tolerance?: number }>;
+  resourceSizes?: Array<{ resourceType: BudgetResourceType; budget: number }>;
+  resourceCounts?: Array<{ resourceType: BudgetResourceType; budget: number }>;
+}
+
+/**
+ * Outcome of a single budget line
+ */
+export interface BudgetResult {
+  type: "timing" | "resource_size" | "resource_count";
+  id: string; // Metric or resource type, e.g. "largest-contentful-paint", "script"
+  budget: number;
+  actual: number;
+  over_by: number; // 0 when within budget
+  unit: "ms" | "kb" | "requests" | "unitless";
+  passed: boolean;
+}
+
+/**
+ * Budget evaluation included in the performance report
+ */
+export interface BudgetReport {
+  passed: boolean;
+  path?: string; // Path pattern of the budget that applied
+  failed_count: number;
+  results: BudgetResult[]; // Failed budgets first, largest overrun first
+}
+
+// Lighthouse audit IDs of the metrics a timing budget can use
+const TIMING_METRICS: Record<string, string> = {
+  "first-contentful-paint": "first-contentful-paint",
+  "largest-contentful-paint": "largest-contentful-paint",
+  "speed-index": "speed-index",
+  interactive: "interactive",
+  "total-blocking-time": "total-blocking-time",
+  "cumulative-layout-shift": "cumulative-layout-shift",
+  "max-potential-fid": "max-potential-fid",
+  // Short names used elsewhere in the performance report
+  fcp: "first-contentful-paint",
+  lcp: "largest-contentful-paint",
+  si: "speed-index",
+  tti: "interactive",
+  tbt: "total-blocking-time",
+  cls: "cumulative-layout-shift",
+};
+
+const RESOURCE_TYPES: BudgetResourceType[] = [
+  "document",
+  "font",
+  "image",
+  "media",
+  "other",
+  "script",
+  "stylesheet",
+  "third-party",
+  "total",
+];
+
+// Checks that a budget value is a non-negative number
+function checkBudgetValue(value: unknown, name: string) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+}
+
+/**
+ * Validates budgets received from a request or read from a budget file
+ * @param input A budget.json array, or a single budget object
+ * @returns The validated budgets, with metric names normalized to audit IDs
+ * @throws Error describing the first invalid entry
+ */
+export function parseBudgets(input: unknown): PerformanceBudget[] {
+  const budgets = Array.isArray(input) ? input : [input];
+  if (budgets.length === 0) {
+    throw new Error("budgets must contain at least one budget");
+  }
+
+  return budgets.map((budget: any, index) => {
+    const name = `budgets[${index}]`;
+    if (!budget || typeof budget !== "object" || Array.isArray(budget)) {
+      throw new Error(`${name} must be an object`);
+    }
+
+    const { path, timings, resourceSizes, resourceCounts } = budget;
+    if (path !== undefined && (typeof path !== "string" || !path.startsWith("/"))) {
+      throw new Error(`${name}.path must be a string starting with "/"`);
+    }
+
+    for (const [key, list] of Object.entries({
+      timings,
+      resourceSizes,
+      resourceCounts,
+    })) {
+      if (list !== undefined && !Array.isArray(list)) {
+        throw new Error(`${name}.${key} must be an array`);
+      }
+    }
+
+    const parsedTimings = (timings || []).map((timing: any, i: number) => {
+      const metric = TIMING_METRICS[timing?.metric];
+      if (!metric) {
+        throw new Error(
+          `${name}.timings[${i}].metric must be one of: ${Object.keys(
+            TIMING_METRICS
+          ).join(", ")}`
+        );
+      }
+      checkBudgetValue(timing.budget, `${name}.timings[${i}].budget`);
+      if (timing.tolerance !== undefined) {
+        checkBudgetValue(timing.tolerance, `${name}.timings[${i}].tolerance`);
+      }
+      return { metric, budget: timing.budget, tolerance: timing.tolerance };
+    });
+
+    const parseResourceBudgets = (list: any[] | undefined, key: string) =>
+      (list || []).map((entry: any, i: number) => {
+        if (!RESOURCE_TYPES.includes(entry?.resourceType)) {
+          throw new Error(
+            `${name}.${key}[${i}].resourceType must be one of: ${RESOURCE_TYPES.join(
+              ", "
+            )}`
+          );
+        }
+        checkBudgetValue(entry.budget, `${name}.${key}[${i}].budget`);
+        return {
+          resourceType: entry.resourceType as BudgetResourceType,
+          budget: entry.budget,
+        };
+      });
+
+    const parsed: PerformanceBudget = {
+      path,
+      timings: parsedTimings,
+      resourceSizes: parseResourceBudgets(resourceSizes, "resourceSizes"),
+      resourceCounts: parseResourceBudgets(resourceCounts, "resourceCounts"),
+    };
+
+    if (
+      parsed.timings!.length === 0 &&
+      parsed.resourceSizes!.length === 0 &&
+      parsed.resourceCounts!.length === 0
+    ) {
+      throw new Error(
+        `${name} must define timings, resourceSizes or resourceCounts`
+      );
+    }
+    return parsed;
+  });
+}
+
+/**
+ * Reads and validates a budget file
+ * @param filePath Path to a budget.json file
+ * @returns The validated budgets
+ * @throws Error if the file cannot be read or is not a valid budget file
+ */
+export function loadBudgetFile(filePath: string): PerformanceBudget[] {
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read budget file ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  return parseBudgets(content);
+}
+
+// Matches a URL against a budget.json path pattern, where "*" matches any
+// characters and a trailing "$" anchors the end of the path
+function matchesBudgetPath(pattern: string | undefined, url: string): boolean {
+  if (pattern === undefined) return true;
+
+  let pathname: string;
+  try {
+    const parsedUrl = new URL(url);
+    pathname = parsedUrl.pathname + parsedUrl.search;
+  } catch {
+    return false;
+  }
+
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(pathname);
+}
+
+/**
+ * Finds the budget that applies to a URL; like Lighthouse, the last matching
+ * budget in the file wins
+ */
+export function findBudgetForUrl(
+  budgets: PerformanceBudget[],
+  url: string
+): PerformanceBudget | undefined {
+  return [...budgets].reverse().find((budget) => matchesBudgetPath(budget.path, url));
+}
+
+function createResult(
+  type: BudgetResult["type"],
+  id: string,
+  budget: number,
+  actual: number,
+  unit: BudgetResult["unit"],
+  tolerance = 0
+): BudgetResult {
+  const overBy = actual - budget;
+  return {
+    type,
+    id,
+    budget,
+    actual,
+    over_by: overBy > 0 ? Math.round(overBy * 1000) / 1000 : 0,
+    unit,
+    passed: overBy <= tolerance,
+  };
+}
+
+/**
+ * Checks a Lighthouse result against the budget for the audited URL
+ * @param lhr The Lighthouse result
+ * @param url The audited URL
+ * @param budgets Budgets from a budget file or request
+ * @returns The evaluation, or undefined if no budget applies to the URL
+ */
+export function evaluateBudgets(
+  lhr: LighthouseResult,
+  url: string,
+  budgets: PerformanceBudget[]
+): BudgetReport | undefined {
+  const budget = findBudgetForUrl(budgets, url);
+  if (!budget) return undefined;
+
+  const audits = lhr.audits || {};
+  const results: BudgetResult[] = [];
+
+  for (const timing of budget.timings || []) {
+    const value = audits[timing.metric]?.numericValue;
+    if (value === undefined) continue;
+
+    const isLayoutShift = timing.metric === "cumulative-layout-shift";
+    results.push(
+      createResult(
+        "timing",
+        timing.metric,
+        timing.budget,
+        isLayoutShift ? Math.round(value * 1000) / 1000 : Math.round(value),
+        isLayoutShift ? "unitless" : "ms",
+        timing.tolerance
+      )
+    );
+  }
+
+  // Request counts and transfer sizes per resource type
+  const summaryItems =
+    ((audits["resource-summary"]?.details as any)?.items as Array<{
+      resourceType: string;
+      requestCount: number;
+      transferSize: number;
+    }>) || [];
+  const summary = new Map(summaryItems.map((item) => [item.resourceType, item]));
+
+  for (const size of budget.resourceSizes || []) {
+    const item = summary.get(size.resourceType);
+    results.push(
+      createResult(
+        "resource_size",
+        size.resourceType,
+        size.budget,
+        Math.round((item?.transferSize || 0) / 1024),
+        "kb"
+      )
+    );
+  }
+
+  for (const count of budget.resourceCounts || []) {
+    const item = summary.get(count.resourceType);
+    results.push(
+      createResult(
+        "resource_count",
+        count.resourceType,
+        count.budget,
+        item?.requestCount || 0,
+        "requests"
+      )
+    );
+  }
+
+  const failed = results
+    .filter((result) => !result.passed)
+    .sort((a, b) => b.over_by / (b.budget || 1) - a.over_by / (a.budget || 1));
+
+  return {
+    passed: failed.length === 0,
+    path: budget.path,
+    failed_count: failed.length,
+    results: [...failed, ...results.filter((result) => result.passed)],
+  };
+}
+
+/**
+ * Formats a failed budget for recommendations and CLI output,
+ * e.g. "script size is 512 KB, 212 KB over the 300 KB budget"
+ */
+export function describeBudgetResult(result: BudgetResult): string {
+  const unit =
+    result.unit === "unitless" ? "" : result.unit === "kb" ? " KB" : ` ${result.unit}`;
+  const label =
+    result.type === "timing"
+      ? result.id
+      : `${result.id} ${result.type === "resource_size" ? "size" : "requests"}`;
+  return `${label} is ${result.actual}${unit}, ${result.over_by}${unit} over the ${result.budget}${unit} budget`;
+}
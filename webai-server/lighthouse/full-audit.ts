@@ -0,0 +1,108 @@
+import {
+  AuditCategory,
+  AuditSession,
+  AuditSettings,
+  LighthouseReport,
+} from "./types.js";
+import { runLighthouseAudit, createReportMetadata } from "./index.js";
+import {
+  AccessibilityReportContent,
+  extractAccessibilityReport,
+} from "./accessibility.js";
+import {
+  PerformanceReportContent,
+  extractPerformanceReport,
+} from "./performance.js";
+import { SEOReportContent, extractSEOReport } from "./seo.js";
+import {
+  BestPracticesReportContent,
+  extractBestPracticesReport,
+} from "./best-practices.js";
+
+// === Full Audit Report Types ===
+
+/**
+ * Combined report of every category, built from a single Lighthouse run
+ */
+export interface FullAuditReportContent {
+  scores: {
+    // Category scores (0-100)
+    accessibility: number;
+    performance: number;
+    seo: number;
+    best_practices: number;
+  };
+  accessibility: AccessibilityReportContent;
+  performance: PerformanceReportContent;
+  seo: SEOReportContent;
+  best_practices: BestPracticesReportContent;
+}
+
+/**
+ * Full AI-optimized audit report
+ */
+export type AIOptimizedFullAuditReport =
+  LighthouseReport<FullAuditReportContent>;
+
+const FULL_AUDIT_CATEGORIES = [
+  AuditCategory.ACCESSIBILITY,
+  AuditCategory.PERFORMANCE,
+  AuditCategory.SEO,
+  AuditCategory.BEST_PRACTICES,
+];
+
+/**
+ * Runs the accessibility, performance, SEO and best practices audits in one
+ * Lighthouse pass, so the page is loaded once instead of four times
+ * @param url The URL to audit
+ * @param settings Form factor, throttling, screen emulation, locale and
+ * performance budgets
+ * @param session Cookies and localStorage to audit the page as a signed-in user
+ * @returns Promise resolving to the combined AI-optimized report
+ */
+export async function runFullAudit(
+  url: string,
+  settings: AuditSettings = {},
+  session?: AuditSession
+): Promise<AIOptimizedFullAuditReport> {
+  try {
+    const lhr = await runLighthouseAudit(
+      url,
+      FULL_AUDIT_CATEGORIES,
+      settings,
+      session
+    );
+
+    // Each extractor only reads its own category from the shared result
+    const accessibility = extractAccessibilityReport(lhr, url).report!;
+    const performance = extractPerformanceReport(
+      lhr,
+      url,
+      settings.budgets
+    ).report!;
+    const seo = extractSEOReport(lhr, url).report!;
+    const bestPractices = extractBestPracticesReport(lhr, url).report!;
+
+    return {
+      metadata: createReportMetadata(lhr, url),
+      report: {
+        scores: {
+          accessibility: accessibility.score,
+          performance: performance.score,
+          seo: seo.score,
+          best_practices: bestPractices.score,
+        },
+        accessibility,
+        performance,
+        seo,
+        best_practices: bestPractices,
+      },
+    };
+  } catch (error) {
+    throw new Error(
+      `Full audit failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
@@ -1,54 +1,447 @@
-import lighthouse from "lighthouse";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+import lighthouse, { generateReport } from "lighthouse";
 import type { Result as LighthouseResult, Flags } from "lighthouse";
 import {
   connectToHeadlessBrowser,
+  clearHeadlessSession,
   scheduleBrowserCleanup,
 } from "../puppeteer-service.js";
-import { LighthouseConfig, AuditCategory } from "./types.js";
+import {
+  LighthouseConfig,
+  LighthouseReport,
+  RawReportFiles,
+  AuditCategory,
+  AuditSettings,
+  AuditRunSettings,
+  AuditSession,
+  ScreenEmulation,
+  ThrottlingPreset,
+  ThrottlingValues,
+} from "./types.js";
+import { PerformanceBudget, parseBudgets, loadBudgetFile } from "./budgets.js";
+
+// Values match Lighthouse's own mobile and desktop presets
+const THROTTLING_PRESETS: Record<
+  Exclude<ThrottlingPreset, "none" | "custom">,
+  ThrottlingValues
+> = {
+  simulated4G: { rttMs: 40, throughputKbps: 10 * 1024, cpuSlowdownMultiplier: 1 },
+  slow4G: { rttMs: 150, throughputKbps: 1.6 * 1024, cpuSlowdownMultiplier: 4 },
+};
+
+const FORM_FACTOR_DEFAULTS: Record<
+  "mobile" | "desktop",
+  {
+    throttling: keyof typeof THROTTLING_PRESETS;
+    screenEmulation: ScreenEmulation;
+    userAgent: string;
+  }
+> = {
+  mobile: {
+    throttling: "slow4G",
+    screenEmulation: { width: 412, height: 823, deviceScaleFactor: 1.75, mobile: true },
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Mobile Safari/537.36",
+  },
+  desktop: {
+    throttling: "simulated4G",
+    screenEmulation: { width: 1350, height: 940, deviceScaleFactor: 1, mobile: false },
+    userAgent:
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36",
+  },
+};
+
+// BCP 47 language tags such as "en", "de-DE" or "zh-Hant-TW"
+const LOCALE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+const THROTTLING_PRESET_NAMES: ThrottlingPreset[] = [
+  "none",
+  "simulated4G",
+  "slow4G",
+  "custom",
+];
+
+// Checks that a value is a number within [min, max]
+function checkNumber(value: unknown, name: string, min: number, max: number) {
+  if (value === undefined) return;
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new Error(`${name} must be a number between ${min} and ${max}`);
+  }
+}
+
+export interface ParseAuditSettingsOptions {
+  // Accept budgetPath; only the command line tools may name files to read,
+  // HTTP clients could otherwise make the server read any file
+  allowBudgetPath?: boolean;
+  // Fall back to the PERFORMANCE_BUDGETS file; only for the performance and
+  // full audits, so a broken budget file does not fail unrelated audits
+  useDefaultBudgets?: boolean;
+}
+
+/**
+ * Validates audit settings received from a request
+ * @param input The request's settings, which may be undefined
+ * @param options Where budgets may be loaded from
+ * @returns The validated settings
+ * @throws Error describing the first invalid setting
+ */
+export function parseAuditSettings(
+  input: any,
+  options: ParseAuditSettingsOptions = {}
+): AuditSettings {
+  const {
+    formFactor,
+    throttling,
+    customThrottling,
+    screenEmulation,
+    locale,
+    budgets,
+    budgetPath,
+    saveRawReport,
+  } = input || {};
+
+  if (
+    formFactor !== undefined &&
+    formFactor !== "mobile" &&
+    formFactor !== "desktop"
+  ) {
+    throw new Error('formFactor must be "mobile" or "desktop"');
+  }
+  if (throttling !== undefined && !THROTTLING_PRESET_NAMES.includes(throttling)) {
+    throw new Error(
+      `throttling must be one of: ${THROTTLING_PRESET_NAMES.join(", ")}`
+    );
+  }
+  if (customThrottling !== undefined) {
+    if (throttling !== "custom") {
+      throw new Error('customThrottling requires throttling to be "custom"');
+    }
+    checkNumber(customThrottling.rttMs, "customThrottling.rttMs", 0, 10000);
+    checkNumber(
+      customThrottling.throughputKbps,
+      "customThrottling.throughputKbps",
+      0,
+      1000000
+    );
+    checkNumber(
+      customThrottling.cpuSlowdownMultiplier,
+      "customThrottling.cpuSlowdownMultiplier",
+      1,
+      20
+    );
+  }
+  if (screenEmulation !== undefined) {
+    checkNumber(screenEmulation.width, "screenEmulation.width", 1, 10000);
+    checkNumber(screenEmulation.height, "screenEmulation.height", 1, 10000);
+    checkNumber(
+      screenEmulation.deviceScaleFactor,
+      "screenEmulation.deviceScaleFactor",
+      0.1,
+      10
+    );
+    if (
+      screenEmulation.mobile !== undefined &&
+      typeof screenEmulation.mobile !== "boolean"
+    ) {
+      throw new Error("screenEmulation.mobile must be a boolean");
+    }
+
+    // Lighthouse refuses to run when the two disagree
+    const mobileFormFactor = (formFactor || "desktop") === "mobile";
+    if (
+      screenEmulation.mobile !== undefined &&
+      screenEmulation.mobile !== mobileFormFactor
+    ) {
+      throw new Error(
+        `screenEmulation.mobile must be ${mobileFormFactor} for the ${
+          formFactor || "desktop"
+        } form factor`
+      );
+    }
+  }
+  if (
+    locale !== undefined &&
+    (typeof locale !== "string" || !LOCALE_PATTERN.test(locale))
+  ) {
+    throw new Error('locale must be a language tag such as "en-US"');
+  }
+
+  if (saveRawReport !== undefined && typeof saveRawReport !== "boolean") {
+    throw new Error("saveRawReport must be a boolean");
+  }
+  if (budgets !== undefined && budgetPath !== undefined) {
+    throw new Error("Provide either budgets or budgetPath, not both");
+  }
+  if (budgetPath !== undefined && !options.allowBudgetPath) {
+    throw new Error(
+      "budgetPath is only accepted on the command line; send budgets inline or set PERFORMANCE_BUDGETS on the server"
+    );
+  }
+  if (budgetPath !== undefined && typeof budgetPath !== "string") {
+    throw new Error("budgetPath must be a string");
+  }
+
+  // Inline budgets win over a budget file, which wins over PERFORMANCE_BUDGETS
+  let parsedBudgets: PerformanceBudget[] | undefined;
+  if (budgets !== undefined) {
+    parsedBudgets = parseBudgets(budgets);
+  } else if (budgetPath) {
+    parsedBudgets = loadBudgetFile(budgetPath);
+  } else if (options.useDefaultBudgets && process.env.PERFORMANCE_BUDGETS) {
+    parsedBudgets = loadBudgetFile(process.env.PERFORMANCE_BUDGETS);
+  }
+
+  return {
+    formFactor,
+    throttling,
+    customThrottling,
+    screenEmulation,
+    locale,
+    budgets: parsedBudgets,
+    saveRawReport: saveRawReport ?? process.env.SAVE_RAW_REPORTS === "true",
+  };
+}
+
+/**
+ * Fills in the defaults for the chosen form factor
+ * @param settings The caller's settings
+ * @returns The complete settings the audit will run with
+ */
+export function resolveAuditSettings(settings: AuditSettings = {}): AuditRunSettings {
+  const formFactor = settings.formFactor || "desktop";
+  const defaults = FORM_FACTOR_DEFAULTS[formFactor];
+  const preset = settings.throttling || defaults.throttling;
+
+  let values: ThrottlingValues;
+  if (preset === "none") {
+    values = { rttMs: 0, throughputKbps: 0, cpuSlowdownMultiplier: 1 };
+  } else if (preset === "custom") {
+    values = {
+      ...THROTTLING_PRESETS[defaults.throttling],
+      ...settings.customThrottling,
+    };
+  } else {
+    values = THROTTLING_PRESETS[preset];
+  }
+
+  return {
+    formFactor,
+    throttling: {
+      preset,
+      method: preset === "none" ? "provided" : "simulate",
+      ...values,
+    },
+    screenEmulation: {
+      ...defaults.screenEmulation,
+      ...settings.screenEmulation,
+    },
+    ...(settings.locale && { locale: settings.locale }),
+  };
+}
 
 /**
  * Creates a Lighthouse configuration object
  * @param categories Array of categories to audit
+ * @param settings Form factor, throttling, screen emulation and locale
  * @returns Lighthouse configuration and flags
  */
 export function createLighthouseConfig(
-  categories: string[] = [AuditCategory.ACCESSIBILITY]
+  categories: string[] = [AuditCategory.ACCESSIBILITY],
+  settings: AuditSettings = {}
 ): LighthouseConfig {
+  const resolved = resolveAuditSettings(settings);
+  const { preset, method, ...throttling } = resolved.throttling;
+
   return {
     flags: {
       output: ["json"],
       onlyCategories: categories,
-      formFactor: "desktop",
       port: undefined as number | undefined,
-      screenEmulation: {
-        mobile: false,
-        width: 1350,
-        height: 940,
-        deviceScaleFactor: 1,
-        disabled: false,
-      },
     },
     config: {
       extends: "lighthouse:default",
       settings: {
         onlyCategories: categories,
-        emulatedFormFactor: "desktop",
-        throttling: { cpuSlowdownMultiplier: 1 },
+        formFactor: resolved.formFactor,
+        screenEmulation: { ...resolved.screenEmulation, disabled: false },
+        emulatedUserAgent: FORM_FACTOR_DEFAULTS[resolved.formFactor].userAgent,
+        throttlingMethod: method,
+        throttling,
+        ...(resolved.locale && {
+          extraHeaders: { "Accept-Language": resolved.locale },
+        }),
       },
     },
   };
 }
 
+// Files saved for a Lighthouse result, keyed by the result so that every
+// extractor reading it (e.g. in a full audit) reports the same files
+const rawReportFiles = new WeakMap<LighthouseResult, RawReportFiles>();
+
+/**
+ * Directory raw Lighthouse reports are saved to: LIGHTHOUSE_REPORTS_DIR, or
+ * ~/.webai-mcp/lighthouse-reports
+ */
+export function getRawReportDirectory(): string {
+  return (
+    process.env.LIGHTHOUSE_REPORTS_DIR ||
+    path.join(os.homedir(), ".webai-mcp", "lighthouse-reports")
+  );
+}
+
+/**
+ * Saves the complete Lighthouse result as JSON and as Lighthouse's HTML report
+ * @param lhr The Lighthouse result, after session values were scrubbed
+ * @param url The audited URL
+ * @param categories The audited categories, used in the file names
+ * @returns The absolute paths of the saved files
+ */
+export function saveRawReport(
+  lhr: LighthouseResult,
+  url: string,
+  categories: string[]
+): RawReportFiles {
+  const directory = path.resolve(getRawReportDirectory());
+  fs.mkdirSync(directory, { recursive: true });
+
+  const timestamp = (lhr.fetchTime || new Date().toISOString()).replace(
+    /[:.]/g,
+    "-"
+  );
+  const host = new URL(url).host.replace(/[^A-Za-z0-9.-]/g, "_");
+  const baseName = `${timestamp}-${host}-${categories.join("_")}-${randomBytes(
+    3
+  ).toString("hex")}`;
+
+  const files: RawReportFiles = {
+    jsonPath: path.join(directory, `${baseName}.json`),
+    htmlPath: path.join(directory, `${baseName}.html`),
+  };
+  fs.writeFileSync(files.jsonPath, JSON.stringify(lhr, null, 2));
+  fs.writeFileSync(files.htmlPath, generateReport(lhr, "html"));
+  console.log(`Saved raw Lighthouse report to ${files.htmlPath}`);
+
+  return files;
+}
+
+/**
+ * Builds report metadata from the settings Lighthouse reports it ran with
+ * @param lhr The Lighthouse result
+ * @param url The audited URL
+ * @returns The metadata for an AI-optimized report
+ */
+export function createReportMetadata(
+  lhr: LighthouseResult,
+  url: string
+): LighthouseReport["metadata"] {
+  const configSettings = lhr.configSettings;
+  const formFactor =
+    configSettings.formFactor === "mobile" ? "mobile" : "desktop";
+  const method =
+    configSettings.throttlingMethod === "provided" ? "provided" : "simulate";
+  const values: ThrottlingValues = {
+    rttMs: configSettings.throttling?.rttMs ?? 0,
+    throughputKbps: configSettings.throttling?.throughputKbps ?? 0,
+    cpuSlowdownMultiplier:
+      configSettings.throttling?.cpuSlowdownMultiplier ?? 1,
+  };
+
+  // Lighthouse does not record the preset name, so recover it from the values
+  const presetNames = Object.keys(THROTTLING_PRESETS) as Array<
+    keyof typeof THROTTLING_PRESETS
+  >;
+  const valueKeys = Object.keys(values) as Array<keyof ThrottlingValues>;
+  const preset: ThrottlingPreset =
+    method === "provided"
+      ? "none"
+      : presetNames.find((name) =>
+          valueKeys.every((key) => THROTTLING_PRESETS[name][key] === values[key])
+        ) || "custom";
+
+  const screenEmulation = configSettings.screenEmulation;
+  const locale = configSettings.extraHeaders?.["Accept-Language"];
+
+  return {
+    url,
+    timestamp: lhr.fetchTime || new Date().toISOString(),
+    device: formFactor,
+    lighthouseVersion: lhr.lighthouseVersion,
+    settings: {
+      formFactor,
+      throttling: { preset, method, ...values },
+      screenEmulation: {
+        width: screenEmulation.width ?? 0,
+        height: screenEmulation.height ?? 0,
+        deviceScaleFactor: screenEmulation.deviceScaleFactor ?? 1,
+        mobile: screenEmulation.mobile ?? formFactor === "mobile",
+      },
+      ...(locale && { locale }),
+    },
+    ...(rawReportFiles.has(lhr) && { rawReport: rawReportFiles.get(lhr) }),
+  };
+}
+
+// Session values shorter than this are too common to scrub without
+// mangling unrelated text
+const MIN_SCRUBBED_VALUE_LENGTH = 6;
+
+/**
+ * Replaces the injected cookie and localStorage values wherever they appear
+ * in a Lighthouse result, e.g. in request URLs or page text
+ * @param lhr The Lighthouse result
+ * @param session The injected session
+ * @returns A copy of the result without the session values
+ */
+export function scrubSessionValues<T>(lhr: T, session: AuditSession): T {
+  const values = new Set<string>();
+  for (const value of [
+    ...session.cookies.map((cookie) => cookie.value),
+    ...Object.values(session.localStorage || {}),
+  ]) {
+    if (typeof value !== "string" || value.length < MIN_SCRUBBED_VALUE_LENGTH) {
+      continue;
+    }
+    values.add(value);
+    values.add(encodeURIComponent(value));
+  }
+  if (values.size === 0) return lhr;
+
+  // Longest first, so a value containing another is replaced whole
+  const sorted = Array.from(values).sort((a, b) => b.length - a.length);
+  const scrub = (text: string) =>
+    sorted.reduce(
+      (result, value) => result.split(value).join("[SESSION VALUE REDACTED]"),
+      text
+    );
+
+  return JSON.parse(JSON.stringify(lhr), (_key, value) =>
+    typeof value === "string" ? scrub(value) : value
+  );
+}
+
 /**
  * Runs a Lighthouse audit on the specified URL via CDP
  * @param url The URL to audit
  * @param categories Array of categories to audit, defaults to ["accessibility"]
+ * @param settings Form factor, throttling, screen emulation and locale
+ * @param session Cookies and localStorage to audit the page as a signed-in user
  * @returns Promise resolving to the Lighthouse result
  * @throws Error if the URL is invalid or if the audit fails
  */
 export async function runLighthouseAudit(
   url: string,
-  categories: string[]
+  categories: string[],
+  settings: AuditSettings = {},
+  session?: AuditSession
 ): Promise<LighthouseResult> {
   console.log(`Starting Lighthouse ${categories.join(", ")} audit for: ${url}`);
 
@@ -69,20 +462,29 @@ export async function runLighthouseAudit(
     // For performance audits, we want to load all resources
     // For accessibility or other audits, we can block non-essential resources
     try {
-      const { port } = await connectToHeadlessBrowser(url, {
+      const { port, page } = await connectToHeadlessBrowser(url, {
         blockResources: !isPerformanceAudit,
+        cookies: session?.cookies,
+        localStorage: session?.localStorage,
       });
 
       console.log(`Connected to browser on port: ${port}`);
 
       // Create Lighthouse config
-      const { flags, config } = createLighthouseConfig(categories);
+      const { flags, config } = createLighthouseConfig(categories, settings);
       flags.port = port;
 
       console.log(
         `Running Lighthouse with categories: ${categories.join(", ")}`
       );
-      const runnerResult = await lighthouse(url, flags as Flags, config);
+      let runnerResult;
+      try {
+        runnerResult = await lighthouse(url, flags as Flags, config);
+      } finally {
+        if (session) {
+          await clearHeadlessSession(page, url);
+        }
+      }
       console.log("Lighthouse scan completed");
 
       if (!runnerResult?.lhr) {
@@ -94,7 +496,18 @@ export async function runLighthouseAudit(
       scheduleBrowserCleanup();
 
       // Return the result
-      const result = runnerResult.lhr;
+      const result = session
+        ? scrubSessionValues(runnerResult.lhr, session)
+        : runnerResult.lhr;
+
+      // A failed save should not cost the caller the audit itself
+      if (settings.saveRawReport) {
+        try {
+          rawReportFiles.set(result, saveRawReport(result, url, categories));
+        } catch (error) {
+          console.error("Failed to save raw Lighthouse report:", error);
+        }
+      }
 
       return result;
     } catch (browserError) {
@@ -131,4 +544,7 @@ export async function runLighthouseAudit(
 export * from "./accessibility.js";
 export * from "./performance.js";
 export * from "./seo.js";
+export * from "./full-audit.js";
+export * from "./pwa.js";
+export * from "./budgets.js";
 export * from "./types.js";
@@ -1,6 +1,17 @@
 import { Result as LighthouseResult } from "lighthouse";
-import { AuditCategory, LighthouseReport } from "./types.js";
-import { runLighthouseAudit } from "./index.js";
+import {
+  AuditCategory,
+  AuditSession,
+  AuditSettings,
+  LighthouseReport,
+} from "./types.js";
+import { runLighthouseAudit, createReportMetadata } from "./index.js";
+import {
+  BudgetReport,
+  PerformanceBudget,
+  describeBudgetResult,
+  evaluateBudgets,
+} from "./budgets.js";
 
 // === Performance Report Types ===
 
@@ -20,6 +31,7 @@ export interface PerformanceReportContent {
   metrics: AIOptimizedMetric[];
   opportunities: AIOptimizedOpportunity[];
   page_stats?: AIPageStats; // Optional page statistics
+  budgets?: BudgetReport; // Only when a budget applies to the URL
   prioritized_recommendations?: string[]; // Ordered list of recommendations
 }
 
@@ -87,11 +99,18 @@ const DETAIL_LIMITS = {
  * - Only actionable data that an AI can use for recommendations
  */
 export async function runPerformanceAudit(
-  url: string
+  url: string,
+  settings: AuditSettings = {},
+  session?: AuditSession
 ): Promise<AIOptimizedPerformanceReport> {
   try {
-    const lhr = await runLighthouseAudit(url, [AuditCategory.PERFORMANCE]);
-    return extractAIOptimizedData(lhr, url);
+    const lhr = await runLighthouseAudit(
+      url,
+      [AuditCategory.PERFORMANCE],
+      settings,
+      session
+    );
+    return extractPerformanceReport(lhr, url, settings.budgets);
   } catch (error) {
     throw new Error(
       `Performance audit failed: ${
@@ -103,22 +122,19 @@ export async function runPerformanceAudit(
 
 /**
  * Extract AI-optimized performance data from Lighthouse results
+ * @param budgets Optional budgets to check the results against
  */
-const extractAIOptimizedData = (
+export const extractPerformanceReport = (
   lhr: LighthouseResult,
-  url: string
+  url: string,
+  budgets?: PerformanceBudget[]
 ): AIOptimizedPerformanceReport => {
   const audits = lhr.audits || {};
   const categoryData = lhr.categories[AuditCategory.PERFORMANCE];
   const score = Math.round((categoryData?.score || 0) * 100);
 
   // Add metadata
-  const metadata = {
-    url,
-    timestamp: lhr.fetchTime || new Date().toISOString(),
-    device: "desktop", // This could be made configurable
-    lighthouseVersion: lhr.lighthouseVersion,
-  };
+  const metadata = createReportMetadata(lhr, url);
 
   // Count audits by type
   const auditRefs = categoryData?.auditRefs || [];
@@ -589,9 +605,20 @@ const extractAIOptimizedData = (
     }
   }
 
+  const budgetReport = budgets ? evaluateBudgets(lhr, url, budgets) : undefined;
+
   // Generate prioritized recommendations
   const prioritized_recommendations: string[] = [];
 
+  // Budget overruns come first, since they are what a merge gate checks
+  budgetReport?.results
+    .filter((result) => !result.passed)
+    .forEach((result) => {
+      prioritized_recommendations.push(
+        `Meet the budget: ${describeBudgetResult(result)}`
+      );
+    });
+
   // Add key recommendations based on failed audits with high impact
   if (
     audits["render-blocking-resources"] &&
@@ -665,6 +692,7 @@ const extractAIOptimizedData = (
     metrics,
     opportunities,
     page_stats,
+    budgets: budgetReport,
     prioritized_recommendations:
       prioritized_recommendations.length > 0
         ? prioritized_recommendations
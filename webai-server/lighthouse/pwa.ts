@@ -0,0 +1,576 @@
+import type { CDPSession, Page } from "puppeteer-core";
+import { AuditSession, AuditSettings, LighthouseReport } from "./types.js";
+import { scrubSessionValues } from "./index.js";
+import {
+  connectToHeadlessBrowser,
+  clearHeadlessSession,
+  scheduleBrowserCleanup,
+} from "../puppeteer-service.js";
+
+// === PWA Report Types ===
+
+/**
+ * PWA-specific report content structure
+ */
+export interface PWAReportContent {
+  score: number; // Share of PWA checks passed (0-100)
+  audit_counts: {
+    failed: number;
+    passed: number;
+    not_applicable: number;
+  };
+  installable: boolean; // Whether Chrome reports no installability errors
+  installability_errors: string[];
+  manifest: AIPWAManifest;
+  service_worker: AIPWAServiceWorker;
+  offline: AIPWAOffline;
+  issues: AIPWAIssue[];
+  prioritized_recommendations?: string[]; // Ordered list of recommendations
+}
+
+/**
+ * Full PWA report implementing the base LighthouseReport interface
+ */
+export type AIOptimizedPWAReport = LighthouseReport<PWAReportContent>;
+
+// Summary of the web app manifest
+interface AIPWAManifest {
+  present: boolean;
+  url?: string;
+  parse_errors?: string[];
+  name?: string;
+  short_name?: string;
+  start_url?: string;
+  display?: string;
+  theme_color?: string;
+  background_color?: string;
+  icon_sizes: string[]; // e.g. ["192x192", "512x512"]
+  has_maskable_icon: boolean;
+}
+
+// Service worker registration for the page's scope
+interface AIPWAServiceWorker {
+  registered: boolean;
+  active: boolean;
+  scope?: string;
+  script_url?: string;
+  controls_page: boolean; // Whether the worker handles the page's requests after a reload
+}
+
+// Result of loading the start URL without a network connection
+interface AIPWAOffline {
+  works_offline: boolean;
+  tested_url: string;
+  status_code?: number;
+  from_service_worker?: boolean;
+  error?: string;
+}
+
+/**
+ * AI-optimized PWA issue
+ */
+interface AIPWAIssue {
+  id: string; // e.g., "manifest-icons"
+  title: string; // e.g., "Manifest has 192px and 512px icons"
+  impact: "critical" | "serious" | "moderate" | "minor";
+  category: "installability" | "manifest" | "service_worker" | "offline" | "ux";
+  issue?: string; // What is wrong, when it can be described more precisely
+}
+
+interface PWACheck extends AIPWAIssue {
+  passed: boolean | null; // null when the check does not apply
+  recommendation: string;
+}
+
+// What the page exposes to the checks, gathered in the headless browser
+interface PWAGatherResult {
+  manifest: AIPWAManifest & { raw?: any };
+  installabilityErrors: string[];
+  serviceWorker: AIPWAServiceWorker;
+  offline: AIPWAOffline;
+  hasViewportMeta: boolean;
+  hasThemeColorMeta: boolean;
+  hasAppleTouchIcon: boolean;
+}
+
+const IMPACT_ORDER = { critical: 0, serious: 1, moderate: 2, minor: 3 };
+
+const INSTALLABLE_DISPLAY_MODES = ["standalone", "fullscreen", "minimal-ui"];
+
+// Reported because of how the headless browser runs, not because of the app
+const IGNORED_INSTALLABILITY_ERRORS = ["in-incognito"];
+
+// How long to wait for a registered service worker to activate
+const SERVICE_WORKER_TIMEOUT = 5000;
+const OFFLINE_NAVIGATION_TIMEOUT = 10000;
+
+/**
+ * PWA audit adapted for AI consumption
+ *
+ * Lighthouse 12 no longer has a PWA category, so the manifest, service worker
+ * and offline checks run directly in the headless browser through CDP.
+ * @param url The URL to audit
+ * @param settings Form factor and locale; throttling does not apply
+ * @param session Cookies and localStorage to audit the page as a signed-in user
+ * @returns Promise resolving to the AI-optimized PWA report
+ */
+export async function runPWAAudit(
+  url: string,
+  settings: AuditSettings = {},
+  session?: AuditSession
+): Promise<AIOptimizedPWAReport> {
+  if (!url || url === "about:blank") {
+    throw new Error(
+      "Cannot run audit on an empty page or about:blank. Please navigate to a valid URL first."
+    );
+  }
+
+  let page: Page | undefined;
+  try {
+    console.log(`Starting PWA audit for: ${url}`);
+    ({ page } = await connectToHeadlessBrowser(url, {
+      emulateDevice: settings.formFactor,
+      locale: settings.locale,
+      cookies: session?.cookies,
+      localStorage: session?.localStorage,
+    }));
+
+    const gathered = await gatherPWAData(page, url);
+    const report = extractPWAReport(gathered, url, settings);
+    return session ? scrubSessionValues(report, session) : report;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (
+      message.includes("Chrome could not be found") ||
+      message.includes("Failed to launch browser") ||
+      message.includes("spawn ENOENT")
+    ) {
+      throw new Error(
+        "PWA audit failed: Chrome or Edge browser could not be found. Please ensure that Chrome or Edge is installed on your system to run audits."
+      );
+    }
+    throw new Error(`PWA audit failed: ${message}`);
+  } finally {
+    if (page) {
+      if (session) await clearHeadlessSession(page, url);
+      await page.close().catch(() => {});
+    }
+    scheduleBrowserCleanup();
+  }
+}
+
+// Collects manifest, installability, service worker and offline data
+async function gatherPWAData(
+  page: Page,
+  url: string
+): Promise<PWAGatherResult> {
+  const client = await page.createCDPSession();
+
+  try {
+    const manifest = await getManifest(client);
+    const { installabilityErrors } = await client.send(
+      "Page.getInstallabilityErrors"
+    );
+
+    const pageInfo = await page.evaluate(() => ({
+      hasViewportMeta: /width=/.test(
+        document.querySelector('meta[name="viewport"]')?.getAttribute("content") || ""
+      ),
+      hasThemeColorMeta: !!document.querySelector('meta[name="theme-color"]'),
+      hasAppleTouchIcon: !!document.querySelector('link[rel~="apple-touch-icon"]'),
+    }));
+
+    // A worker registered during the first load only controls later loads
+    const registration = await page.evaluate(async (timeout: number) => {
+      if (!("serviceWorker" in navigator)) return null;
+      const existing = await navigator.serviceWorker.getRegistration();
+      if (!existing) return null;
+
+      const ready = await Promise.race([
+        navigator.serviceWorker.ready,
+        new Promise<null>((resolve) => setTimeout(() => resolve(null), timeout)),
+      ]);
+      const worker = ready?.active || existing.active;
+      return {
+        scope: existing.scope,
+        active: !!worker,
+        scriptUrl: worker?.scriptURL || existing.installing?.scriptURL,
+      };
+    }, SERVICE_WORKER_TIMEOUT);
+
+    let controlsPage = false;
+    if (registration?.active) {
+      await page.reload({ waitUntil: "networkidle2" });
+      controlsPage = await page.evaluate(
+        () => !!navigator.serviceWorker.controller
+      );
+    }
+
+    const serviceWorker: AIPWAServiceWorker = {
+      registered: !!registration,
+      active: !!registration?.active,
+      scope: registration?.scope,
+      script_url: registration?.scriptUrl,
+      controls_page: controlsPage,
+    };
+
+    const offline = await checkOffline(page, manifest.start_url || url);
+
+    return {
+      manifest,
+      installabilityErrors: installabilityErrors
+        .filter((error) => !IGNORED_INSTALLABILITY_ERRORS.includes(error.errorId))
+        .map((error) =>
+          error.errorArguments.length > 0
+            ? `${error.errorId} (${error.errorArguments
+                .map((arg) => `${arg.name}: ${arg.value}`)
+                .join(", ")})`
+            : error.errorId
+        ),
+      serviceWorker,
+      offline,
+      ...pageInfo,
+    };
+  } finally {
+    await client.detach().catch(() => {});
+  }
+}
+
+// Reads the manifest Chrome found for the page and summarizes its fields
+async function getManifest(
+  client: CDPSession
+): Promise<AIPWAManifest & { raw?: any }> {
+  const { url, errors, data } = await client.send("Page.getAppManifest");
+  const manifest: AIPWAManifest & { raw?: any } = {
+    present: !!url && data !== undefined,
+    icon_sizes: [],
+    has_maskable_icon: false,
+  };
+  if (!manifest.present) return manifest;
+
+  manifest.url = url;
+  if (errors.length > 0) {
+    manifest.parse_errors = errors.map((error) => error.message);
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(data!);
+  } catch {
+    manifest.parse_errors = [...(manifest.parse_errors || []), "Manifest is not valid JSON"];
+    return manifest;
+  }
+
+  const resolve = (value: unknown) => {
+    if (typeof value !== "string") return undefined;
+    try {
+      return new URL(value, url).href;
+    } catch {
+      return undefined;
+    }
+  };
+  const icons: any[] = Array.isArray(raw.icons) ? raw.icons : [];
+
+  return {
+    ...manifest,
+    raw,
+    name: typeof raw.name === "string" ? raw.name : undefined,
+    short_name: typeof raw.short_name === "string" ? raw.short_name : undefined,
+    start_url: resolve(raw.start_url),
+    display: typeof raw.display === "string" ? raw.display : undefined,
+    theme_color: typeof raw.theme_color === "string" ? raw.theme_color : undefined,
+    background_color:
+      typeof raw.background_color === "string" ? raw.background_color : undefined,
+    icon_sizes: Array.from(
+      new Set(
+        icons.flatMap((icon) =>
+          typeof icon?.sizes === "string" ? icon.sizes.split(/\s+/) : []
+        )
+      )
+    ).filter(Boolean),
+    has_maskable_icon: icons.some(
+      (icon) => typeof icon?.purpose === "string" && /\bmaskable\b/.test(icon.purpose)
+    ),
+  };
+}
+
+// Loads a URL with the network disabled to see whether the worker serves it
+async function checkOffline(
+  page: Page,
+  testedUrl: string
+): Promise<AIPWAOffline> {
+  await page.setOfflineMode(true);
+  try {
+    const response = await page.goto(testedUrl, {
+      waitUntil: "domcontentloaded",
+      timeout: OFFLINE_NAVIGATION_TIMEOUT,
+    });
+    const status = response?.status();
+    return {
+      works_offline: status === 200,
+      tested_url: testedUrl,
+      status_code: status,
+      from_service_worker: response?.fromServiceWorker(),
+    };
+  } catch (error) {
+    return {
+      works_offline: false,
+      tested_url: testedUrl,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    await page.setOfflineMode(false);
+  }
+}
+
+// Whether an icon of at least the given size is listed ("any" fits every size)
+function hasIconOfSize(sizes: string[], minimum: number): boolean {
+  return sizes.some((size) => {
+    if (size === "any") return true;
+    const [width, height] = size.split("x").map(Number);
+    return width >= minimum && height >= minimum;
+  });
+}
+
+function isSecureOrigin(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (
+      protocol === "https:" ||
+      hostname === "localhost" ||
+      hostname === "127.0.0.1" ||
+      hostname === "[::1]"
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turns the gathered PWA data into an AI-optimized report
+ * @param gathered Data collected in the headless browser
+ * @param url The audited URL
+ * @param settings The settings the audit ran with
+ */
+export function extractPWAReport(
+  gathered: PWAGatherResult,
+  url: string,
+  settings: AuditSettings = {}
+): AIOptimizedPWAReport {
+  const { manifest, serviceWorker, offline } = gathered;
+  const hasManifest = manifest.present && !!manifest.raw;
+  const appName = manifest.short_name || manifest.name;
+
+  const checks: PWACheck[] = [
+    {
+      id: "is-on-https",
+      title: "Page is served over HTTPS",
+      impact: "critical",
+      category: "installability",
+      passed: isSecureOrigin(url),
+      recommendation: "Serve the app over HTTPS",
+    },
+    {
+      id: "installable-manifest",
+      title: "Chrome considers the app installable",
+      impact: "critical",
+      category: "installability",
+      passed: gathered.installabilityErrors.length === 0,
+      issue: gathered.installabilityErrors.join("; ") || undefined,
+      recommendation: "Fix the installability errors Chrome reports",
+    },
+    {
+      id: "manifest-present",
+      title: "Page links a valid web app manifest",
+      impact: "critical",
+      category: "manifest",
+      passed: hasManifest,
+      issue: manifest.parse_errors?.join("; "),
+      recommendation: 'Add a web app manifest with <link rel="manifest">',
+    },
+    {
+      id: "manifest-name",
+      title: "Manifest has a name or short_name",
+      impact: "serious",
+      category: "manifest",
+      passed: hasManifest ? !!appName : null,
+      recommendation: "Set name and short_name in the manifest",
+    },
+    {
+      id: "manifest-short-name-length",
+      title: "short_name fits on the home screen (12 characters or fewer)",
+      impact: "minor",
+      category: "manifest",
+      passed: hasManifest && appName ? appName.length <= 12 : null,
+      issue:
+        appName && appName.length > 12
+          ? `"${appName}" is ${appName.length} characters`
+          : undefined,
+      recommendation: "Shorten short_name to 12 characters or fewer",
+    },
+    {
+      id: "manifest-start-url",
+      title: "Manifest has a start_url",
+      impact: "serious",
+      category: "manifest",
+      passed: hasManifest ? !!manifest.start_url : null,
+      recommendation: "Set start_url in the manifest",
+    },
+    {
+      id: "manifest-display",
+      title: "Manifest display mode opens the app in its own window",
+      impact: "serious",
+      category: "manifest",
+      passed: hasManifest
+        ? INSTALLABLE_DISPLAY_MODES.includes(manifest.display || "")
+        : null,
+      issue: manifest.display ? `display is "${manifest.display}"` : undefined,
+      recommendation: 'Set display to "standalone", "fullscreen" or "minimal-ui"',
+    },
+    {
+      id: "manifest-icons",
+      title: "Manifest has 192px and 512px icons",
+      impact: "serious",
+      category: "manifest",
+      passed: hasManifest
+        ? hasIconOfSize(manifest.icon_sizes, 192) &&
+          hasIconOfSize(manifest.icon_sizes, 512)
+        : null,
+      issue:
+        manifest.icon_sizes.length > 0
+          ? `Icon sizes: ${manifest.icon_sizes.join(", ")}`
+          : undefined,
+      recommendation: "Add 192x192 and 512x512 PNG icons to the manifest",
+    },
+    {
+      id: "maskable-icon",
+      title: "Manifest has a maskable icon",
+      impact: "minor",
+      category: "manifest",
+      passed: hasManifest ? manifest.has_maskable_icon : null,
+      recommendation: 'Add an icon with purpose "maskable" so it fills adaptive icon shapes',
+    },
+    {
+      id: "splash-screen",
+      title: "Manifest provides a custom splash screen",
+      impact: "moderate",
+      category: "ux",
+      passed: hasManifest
+        ? !!manifest.name &&
+          !!manifest.background_color &&
+          !!manifest.theme_color &&
+          hasIconOfSize(manifest.icon_sizes, 512)
+        : null,
+      recommendation:
+        "Set name, background_color and theme_color and add a 512px icon for the splash screen",
+    },
+    {
+      id: "themed-omnibox",
+      title: "Sets a theme color for the address bar",
+      impact: "minor",
+      category: "ux",
+      passed: !!manifest.theme_color || gathered.hasThemeColorMeta,
+      recommendation: 'Set theme_color and add <meta name="theme-color">',
+    },
+    {
+      id: "viewport",
+      title: "Has a viewport meta tag with width",
+      impact: "moderate",
+      category: "ux",
+      passed: gathered.hasViewportMeta,
+      recommendation:
+        'Add <meta name="viewport" content="width=device-width, initial-scale=1">',
+    },
+    {
+      id: "apple-touch-icon",
+      title: "Provides an apple-touch-icon",
+      impact: "minor",
+      category: "ux",
+      passed: gathered.hasAppleTouchIcon,
+      recommendation: 'Add <link rel="apple-touch-icon"> for iOS home screens',
+    },
+    {
+      id: "service-worker",
+      title: "Registers an active service worker",
+      impact: "critical",
+      category: "service_worker",
+      passed: serviceWorker.active,
+      issue:
+        serviceWorker.registered && !serviceWorker.active
+          ? "A service worker is registered but did not activate"
+          : undefined,
+      recommendation: "Register a service worker",
+    },
+    {
+      id: "service-worker-controls-page",
+      title: "Service worker controls the page",
+      impact: "serious",
+      category: "service_worker",
+      passed: serviceWorker.active ? serviceWorker.controls_page : null,
+      issue: serviceWorker.scope ? `Worker scope is ${serviceWorker.scope}` : undefined,
+      recommendation: "Make sure the service worker's scope covers the page and start_url",
+    },
+    {
+      id: "offline-start-url",
+      title: "start_url responds with 200 when offline",
+      impact: "serious",
+      category: "offline",
+      passed: offline.works_offline,
+      issue:
+        offline.error ||
+        (offline.status_code !== undefined && offline.status_code !== 200
+          ? `Responded with ${offline.status_code}`
+          : undefined),
+      recommendation: "Cache the start_url in the service worker so the app opens offline",
+    },
+  ];
+
+  const applicable = checks.filter((check) => check.passed !== null);
+  const failed = applicable
+    .filter((check) => !check.passed)
+    .sort((a, b) => IMPACT_ORDER[a.impact] - IMPACT_ORDER[b.impact]);
+  const passedCount = applicable.length - failed.length;
+
+  const issues: AIPWAIssue[] = failed.map(({ id, title, impact, category, issue }) => ({
+    id,
+    title,
+    impact,
+    category,
+    ...(issue && { issue }),
+  }));
+
+  const { raw: _raw, ...manifestSummary } = manifest;
+
+  const reportContent: PWAReportContent = {
+    score:
+      applicable.length === 0
+        ? 0
+        : Math.round((passedCount / applicable.length) * 100),
+    audit_counts: {
+      failed: failed.length,
+      passed: passedCount,
+      not_applicable: checks.length - applicable.length,
+    },
+    installable: gathered.installabilityErrors.length === 0,
+    installability_errors: gathered.installabilityErrors,
+    manifest: manifestSummary,
+    service_worker: serviceWorker,
+    offline,
+    issues,
+    prioritized_recommendations:
+      failed.length > 0
+        ? failed.map((check) => check.recommendation)
+        : undefined,
+  };
+
+  return {
+    metadata: {
+      url,
+      timestamp: new Date().toISOString(),
+      device: settings.formFactor || "desktop",
+      // The checks run in the headless browser rather than in Lighthouse
+      lighthouseVersion: "n/a",
+    },
+    report: reportContent,
+  };
+}
@@ -1,6 +1,11 @@
 import { Result as LighthouseResult } from "lighthouse";
-import { AuditCategory, LighthouseReport } from "./types.js";
-import { runLighthouseAudit } from "./index.js";
+import {
+  AuditCategory,
+  AuditSession,
+  AuditSettings,
+  LighthouseReport,
+} from "./types.js";
+import { runLighthouseAudit, createReportMetadata } from "./index.js";
 
 // === SEO Report Types ===
 
@@ -79,12 +84,23 @@ const DETAIL_LIMITS = {
 /**
  * Runs an SEO audit on the specified URL
  * @param url The URL to audit
+ * @param settings Form factor, throttling, screen emulation and locale
+ * @param session Cookies and localStorage to audit the page as a signed-in user
  * @returns Promise resolving to AI-optimized SEO audit results
  */
-export async function runSEOAudit(url: string): Promise<AIOptimizedSEOReport> {
+export async function runSEOAudit(
+  url: string,
+  settings: AuditSettings = {},
+  session?: AuditSession
+): Promise<AIOptimizedSEOReport> {
   try {
-    const lhr = await runLighthouseAudit(url, [AuditCategory.SEO]);
-    return extractAIOptimizedData(lhr, url);
+    const lhr = await runLighthouseAudit(
+      url,
+      [AuditCategory.SEO],
+      settings,
+      session
+    );
+    return extractSEOReport(lhr, url);
   } catch (error) {
     throw new Error(
       `SEO audit failed: ${
@@ -97,7 +113,7 @@ export async function runSEOAudit(url: string): Promise<AIOptimizedSEOReport> {
 /**
  * Extract AI-optimized SEO data from Lighthouse results
  */
-const extractAIOptimizedData = (
+export const extractSEOReport = (
   lhr: LighthouseResult,
   url: string
 ): AIOptimizedSEOReport => {
@@ -105,12 +121,7 @@ const extractAIOptimizedData = (
   const audits = lhr.audits || {};
 
   // Add metadata
-  const metadata = {
-    url,
-    timestamp: lhr.fetchTime || new Date().toISOString(),
-    device: "desktop", // This could be made configurable
-    lighthouseVersion: lhr.lighthouseVersion,
-  };
+  const metadata = createReportMetadata(lhr, url);
 
   // Initialize variables
   const issues: AISEOIssue[] = [];
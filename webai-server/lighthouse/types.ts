@@ -1,3 +1,5 @@
+import type { PerformanceBudget } from "./budgets.js";
+
 /**
  * Audit categories available in Lighthouse
  */
@@ -6,7 +8,7 @@ export enum AuditCategory {
   PERFORMANCE = "performance",
   SEO = "seo",
   BEST_PRACTICES = "best-practices", // Not yet implemented
-  PWA = "pwa", // Not yet implemented
+  PWA = "pwa", // Checked in the headless browser, Lighthouse 12 dropped it
 }
 
 /**
@@ -18,6 +20,8 @@ export interface LighthouseReport<T = any> {
     timestamp: string; // ISO 8601, e.g., "2025-02-27T14:30:00Z"
     device: string; // e.g., "mobile", "desktop"
     lighthouseVersion: string; // e.g., "10.4.0"
+    settings?: AuditRunSettings; // The settings the audit actually ran with
+    rawReport?: RawReportFiles; // Only when saveRawReport was set
   };
 
   // For backward compatibility with existing report formats
@@ -33,6 +37,85 @@ export interface LighthouseReport<T = any> {
   report?: T; // Generic report data that will be specialized by each audit type
 }
 
+/**
+ * Network and CPU throttling presets
+ * - none: no throttling, the page loads at the host's real speed
+ * - simulated4G: a fast 4G connection (Lighthouse's desktop default)
+ * - slow4G: a slow 4G connection on a mid-tier phone (Lighthouse's mobile default)
+ * - custom: the values given in customThrottling
+ */
+export type ThrottlingPreset = "none" | "simulated4G" | "slow4G" | "custom";
+
+export interface ThrottlingValues {
+  rttMs: number; // Round trip time
+  throughputKbps: number; // Download throughput
+  cpuSlowdownMultiplier: number; // 1 means no CPU slowdown
+}
+
+export interface ScreenEmulation {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  mobile: boolean;
+}
+
+/**
+ * Settings a caller can choose for a Lighthouse run; everything is optional
+ * and defaults to the values for the form factor
+ */
+export interface AuditSettings {
+  formFactor?: "mobile" | "desktop";
+  throttling?: ThrottlingPreset;
+  customThrottling?: Partial<ThrottlingValues>;
+  screenEmulation?: Partial<ScreenEmulation>;
+  locale?: string; // Sent to the page as Accept-Language, e.g. "de-DE"
+  budgets?: PerformanceBudget[]; // Checked by the performance and full audits
+  saveRawReport?: boolean; // Save the full Lighthouse JSON and HTML reports
+}
+
+/**
+ * Complete Lighthouse reports saved for a run
+ */
+export interface RawReportFiles {
+  jsonPath: string; // The full Lighthouse result (LHR)
+  htmlPath: string; // Lighthouse's own HTML report
+}
+
+/**
+ * The settings an audit ran with, as reported in its metadata
+ */
+export interface AuditRunSettings {
+  formFactor: "mobile" | "desktop";
+  throttling: ThrottlingValues & {
+    preset: ThrottlingPreset;
+    method: "simulate" | "provided";
+  };
+  screenEmulation: ScreenEmulation;
+  locale?: string;
+}
+
+/**
+ * A cookie copied from the developer's browser
+ */
+export interface AuditCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  expires?: number; // Seconds since the epoch; absent for session cookies
+}
+
+/**
+ * Browser session injected into the headless browser for authenticated audits
+ */
+export interface AuditSession {
+  cookies: AuditCookie[];
+  localStorage?: Record<string, string>;
+}
+
 /**
  * Configuration options for Lighthouse audits
  */
@@ -40,24 +123,18 @@ export interface LighthouseConfig {
   flags: {
     output: string[];
     onlyCategories: string[];
-    formFactor: string;
     port: number | undefined;
-    screenEmulation: {
-      mobile: boolean;
-      width: number;
-      height: number;
-      deviceScaleFactor: number;
-      disabled: boolean;
-    };
   };
   config: {
     extends: string;
     settings: {
       onlyCategories: string[];
-      emulatedFormFactor: string;
-      throttling: {
-        cpuSlowdownMultiplier: number;
-      };
+      formFactor: "mobile" | "desktop";
+      screenEmulation: ScreenEmulation & { disabled: boolean };
+      emulatedUserAgent: string;
+      throttlingMethod: "simulate" | "provided";
+      throttling: ThrottlingValues;
+      extraHeaders?: Record<string, string>;
     };
   };
 }
@@ -0,0 +1,266 @@
+/**
+ * Log Query for Browser Tools Server
+ *
+ * Parses the query-string filters accepted by the log endpoints and applies
+ * them, together with cursor-based pagination, to the in-memory log buffers.
+ */
+
+export type LogOrder = "asc" | "desc";
+
+export interface LogQuery {
+  tabId?: string; // Inspected tab the entry was captured in
+  levels?: string[]; // Console levels, e.g. ["error", "warning"]
+  url?: string; // Case-insensitive URL substring
+  urlPattern?: RegExp; // URL regular expression
+  methods?: string[]; // HTTP methods, upper-cased
+  statusMin?: number;
+  statusMax?: number;
+  since?: number; // Epoch ms, inclusive
+  until?: number; // Epoch ms, inclusive
+  search?: string; // Case-insensitive text search
+  cursor?: number; // Id of the last entry of the previous page
+  limit?: number; // Maximum number of entries per page
+  order: LogOrder;
+}
+
+export interface LogPage<T = any> {
+  logs: T[];
+  total: number; // Number of entries matching the filters
+  returned: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Raised when a query parameter cannot be parsed; endpoints map it to a 400
+ */
+export class LogQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogQueryError";
+  }
+}
+
+// Fields that text search looks at
+const SEARCHABLE_FIELDS = [
+  "message",
+  "url",
+  "method",
+  "requestBody",
+  "responseBody",
+];
+
+function firstValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    return firstValue(value[0]);
+  }
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const str = String(value).trim();
+  return str === "" ? undefined : str;
+}
+
+function parseList(value: unknown): string[] | undefined {
+  const values = Array.isArray(value) ? value : [value];
+  const items = values
+    .filter((v) => v !== undefined && v !== null)
+    .flatMap((v) => String(v).split(","))
+    .map((v) => v.trim())
+    .filter((v) => v !== "");
+  return items.length > 0 ? items : undefined;
+}
+
+function parseInteger(name: string, value: unknown): number | undefined {
+  const str = firstValue(value);
+  if (str === undefined) return undefined;
+  const num = Number(str);
+  if (!Number.isInteger(num)) {
+    throw new LogQueryError(`Invalid ${name}: expected an integer, got "${str}"`);
+  }
+  return num;
+}
+
+function parseTime(name: string, value: unknown): number | undefined {
+  const str = firstValue(value);
+  if (str === undefined) return undefined;
+
+  // Accept both epoch milliseconds and ISO 8601 strings
+  const time = /^\d+$/.test(str) ? Number(str) : Date.parse(str);
+  if (isNaN(time)) {
+    throw new LogQueryError(
+      `Invalid ${name}: expected epoch milliseconds or an ISO 8601 date, got "${str}"`
+    );
+  }
+  return time;
+}
+
+/**
+ * Parses an Express query object into a LogQuery
+ * @param query The request query object
+ * @returns The parsed query
+ * @throws LogQueryError if a parameter is malformed
+ */
+export function parseLogQuery(query: Record<string, unknown> = {}): LogQuery {
+  // Newest first by default, so a query without a cursor returns recent entries
+  const parsed: LogQuery = { order: "desc" };
+
+  parsed.tabId = firstValue(query.tabId);
+  parsed.levels = parseList(query.level)?.map((l) => l.toLowerCase());
+  parsed.methods = parseList(query.method)?.map((m) => m.toUpperCase());
+  parsed.url = firstValue(query.url)?.toLowerCase();
+  parsed.search = firstValue(query.search)?.toLowerCase();
+
+  const urlPattern = firstValue(query.urlPattern);
+  if (urlPattern !== undefined) {
+    try {
+      parsed.urlPattern = new RegExp(urlPattern, "i");
+    } catch (e) {
+      throw new LogQueryError(`Invalid urlPattern: ${(e as Error).message}`);
+    }
+  }
+
+  parsed.statusMin = parseInteger("statusMin", query.statusMin);
+  parsed.statusMax = parseInteger("statusMax", query.statusMax);
+  if (
+    parsed.statusMin !== undefined &&
+    parsed.statusMax !== undefined &&
+    parsed.statusMin > parsed.statusMax
+  ) {
+    throw new LogQueryError("statusMin must not be greater than statusMax");
+  }
+
+  parsed.since = parseTime("since", query.since);
+  parsed.until = parseTime("until", query.until);
+
+  parsed.cursor = parseInteger("cursor", query.cursor);
+
+  parsed.limit = parseInteger("limit", query.limit);
+  if (parsed.limit !== undefined && parsed.limit < 1) {
+    throw new LogQueryError("limit must be at least 1");
+  }
+
+  const order = firstValue(query.order);
+  if (order !== undefined) {
+    if (order !== "asc" && order !== "desc") {
+      throw new LogQueryError(`Invalid order: expected "asc" or "desc", got "${order}"`);
+    }
+    parsed.order = order;
+  }
+
+  return parsed;
+}
+
+function matchesQuery(log: any, query: LogQuery): boolean {
+  if (query.tabId !== undefined && String(log.tabId) !== query.tabId) {
+    return false;
+  }
+
+  if (query.levels && !query.levels.includes(String(log.level).toLowerCase())) {
+    return false;
+  }
+
+  if (query.methods && !query.methods.includes(String(log.method).toUpperCase())) {
+    return false;
+  }
+
+  if (query.url || query.urlPattern) {
+    const url = typeof log.url === "string" ? log.url : "";
+    if (query.url && !url.toLowerCase().includes(query.url)) return false;
+    if (query.urlPattern && !query.urlPattern.test(url)) return false;
+  }
+
+  if (query.statusMin !== undefined || query.statusMax !== undefined) {
+    if (typeof log.status !== "number") return false;
+    if (query.statusMin !== undefined && log.status < query.statusMin) return false;
+    if (query.statusMax !== undefined && log.status > query.statusMax) return false;
+  }
+
+  if (query.since !== undefined || query.until !== undefined) {
+    const time = new Date(log.timestamp).getTime();
+    if (isNaN(time)) return false;
+    if (query.since !== undefined && time < query.since) return false;
+    if (query.until !== undefined && time > query.until) return false;
+  }
+
+  if (query.search) {
+    const found = SEARCHABLE_FIELDS.some((field) => {
+      const value = log[field];
+      return typeof value === "string" && value.toLowerCase().includes(query.search!);
+    });
+    if (!found) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Returns the logs matching the query's filters, ignoring pagination
+ * @param logs The log buffer to filter
+ * @param query The parsed query
+ * @returns The matching logs in their original order
+ */
+export function filterLogs<T = any>(logs: T[], query: LogQuery): T[] {
+  return logs.filter((log) => matchesQuery(log, query));
+}
+
+/**
+ * Filters logs and returns one page of results
+ *
+ * Logs must carry the numeric `id` assigned on ingestion; pages are ordered by
+ * it and the cursor is the id of the last entry returned. A page ends when
+ * `limit` entries were collected or the next entry would exceed `maxSize`
+ * characters, whichever comes first.
+ *
+ * @param logs The log buffer to query
+ * @param query The parsed query
+ * @param maxSize Character budget for the page (the queryLimit setting)
+ * @param transform Applied to each entry before it is measured and returned
+ * @returns The requested page
+ */
+export function queryLogs<T = any>(
+  logs: any[],
+  query: LogQuery,
+  maxSize: number,
+  transform: (log: any) => T = (log) => log
+): LogPage<T> {
+  const matching = filterLogs(logs, query).sort((a, b) =>
+    query.order === "asc" ? a.id - b.id : b.id - a.id
+  );
+
+  let start = 0;
+  if (query.cursor !== undefined) {
+    const cursor = query.cursor;
+    start = matching.findIndex((log) =>
+      query.order === "asc" ? log.id > cursor : log.id < cursor
+    );
+    if (start === -1) start = matching.length;
+  }
+
+  const page: T[] = [];
+  let currentSize = 0;
+  let index = start;
+
+  for (; index < matching.length; index++) {
+    if (query.limit !== undefined && page.length >= query.limit) break;
+
+    const entry = transform(matching[index]);
+    const entrySize = JSON.stringify(entry).length;
+
+    // Always return at least one entry so that pagination makes progress
+    if (page.length > 0 && currentSize + entrySize > maxSize) break;
+
+    page.push(entry);
+    currentSize += entrySize;
+  }
+
+  const hasMore = index < matching.length;
+
+  return {
+    logs: page,
+    total: matching.length,
+    returned: page.length,
+    nextCursor: hasMore && index > start ? String(matching[index - 1].id) : null,
+    hasMore,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Persistent Log Store for Browser Tools Server
+ *
+ * Optionally appends every log entry received from the extension to a JSONL
+ * file per named debugging session, so logs survive a server restart and can
+ * be reloaded later. Session files are readable only by the current user.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export interface LogSessionInfo {
+  id: string;
+  name: string;
+  startedAt: string; // ISO 8601
+  entryCount: number;
+  sizeBytes: number;
+  active: boolean;
+}
+
+export interface LogSessionData {
+  session: LogSessionInfo;
+  entries: any[];
+}
+
+// First line of every session file
+interface SessionHeader {
+  kind: "session";
+  id: string;
+  name: string;
+  startedAt: string;
+}
+
+// Every following line
+interface SessionRecord {
+  kind: "log";
+  entry: any;
+}
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+export class LogStore {
+  private directory: string;
+  private activeSession: SessionHeader | null = null;
+  private activeEntryCount = 0;
+
+  constructor(directory: string = LogStore.getDefaultDirectory()) {
+    this.directory = directory;
+  }
+
+  static getDefaultDirectory(): string {
+    return path.join(os.homedir(), ".webai-mcp", "sessions");
+  }
+
+  /**
+   * Creates a store from environment variables:
+   * - LOG_STORE_DIR: directory for session files
+   * - PERSIST_LOGS: "true" to start recording a session on startup
+   * - SESSION_NAME: name of that initial session
+   */
+  static createFromEnvironment(): LogStore {
+    const store = new LogStore(
+      process.env.LOG_STORE_DIR || LogStore.getDefaultDirectory()
+    );
+
+    if (process.env.PERSIST_LOGS === "true") {
+      try {
+        store.startSession(process.env.SESSION_NAME);
+      } catch (error) {
+        console.error("Failed to start persistent log session:", error);
+      }
+    }
+
+    return store;
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  isRecording(): boolean {
+    return this.activeSession !== null;
+  }
+
+  /**
+   * Starts recording a new session; any active session is stopped first
+   * @param name Human-readable session name
+   * @returns The new session
+   */
+  startSession(name?: string): LogSessionInfo {
+    const startedAt = new Date().toISOString();
+    const sessionName = name?.trim() || `session ${startedAt}`;
+    const slug = sessionName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .substring(0, 40);
+    const id = `${startedAt.replace(/[:.]/g, "-")}${slug ? `-${slug}` : ""}`;
+
+    fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+
+    const header: SessionHeader = { kind: "session", id, name: sessionName, startedAt };
+    fs.writeFileSync(this.getSessionPath(id), JSON.stringify(header) + "\n", {
+      mode: 0o600,
+    });
+
+    this.activeSession = header;
+    this.activeEntryCount = 0;
+    console.log(`Log store: recording session "${sessionName}" (${id})`);
+
+    return this.getSessionInfo(id)!;
+  }
+
+  /**
+   * Stops recording; the session file stays on disk
+   * @returns The stopped session, or null if none was active
+   */
+  stopSession(): LogSessionInfo | null {
+    if (!this.activeSession) return null;
+
+    const id = this.activeSession.id;
+    this.activeSession = null;
+    this.activeEntryCount = 0;
+    console.log(`Log store: stopped recording session ${id}`);
+
+    return this.getSessionInfo(id);
+  }
+
+  getActiveSession(): LogSessionInfo | null {
+    return this.activeSession ? this.getSessionInfo(this.activeSession.id) : null;
+  }
+
+  /**
+   * Appends a log entry to the active session, if any
+   * @param entry The log entry as stored in memory
+   */
+  append(entry: any): void {
+    if (!this.activeSession) return;
+
+    const record: SessionRecord = { kind: "log", entry };
+    try {
+      fs.appendFileSync(
+        this.getSessionPath(this.activeSession.id),
+        JSON.stringify(record) + "\n"
+      );
+      this.activeEntryCount++;
+    } catch (error) {
+      console.error("Log store: failed to append entry:", error);
+    }
+  }
+
+  /**
+   * Lists the sessions found in the store directory, newest first
+   */
+  listSessions(): LogSessionInfo[] {
+    if (!fs.existsSync(this.directory)) return [];
+
+    return fs
+      .readdirSync(this.directory)
+      .filter((file) => file.endsWith(".jsonl"))
+      .map((file) => file.slice(0, -".jsonl".length))
+      // Skip stray files that could not have been written by this store
+      .filter((id) => SESSION_ID_PATTERN.test(id))
+      .map((id) => this.getSessionInfo(id))
+      .filter((info): info is LogSessionInfo => info !== null)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Reads every entry of a session
+   * @param id The session id
+   * @returns The session and its entries, or null if it does not exist
+   * @throws Error if the id is malformed
+   */
+  readSession(id: string): LogSessionData | null {
+    const filePath = this.getSessionPath(id);
+    if (!fs.existsSync(filePath)) return null;
+
+    const entries: any[] = [];
+    const lines = fs.readFileSync(filePath, "utf8").split("\n");
+
+    for (const line of lines.slice(1)) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as SessionRecord;
+        if (record.kind === "log" && record.entry) {
+          entries.push(record.entry);
+        }
+      } catch {
+        // A partially written last line is expected after a crash
+        console.warn(`Log store: skipping unreadable line in session ${id}`);
+      }
+    }
+
+    return { session: this.getSessionInfo(id)!, entries };
+  }
+
+  private getSessionPath(id: string): string {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.jsonl`);
+  }
+
+  private getSessionInfo(id: string): LogSessionInfo | null {
+    const filePath = this.getSessionPath(id);
+
+    try {
+      const content = fs.readFileSync(filePath, "utf8");
+      const newline = content.indexOf("\n");
+      const header = JSON.parse(
+        newline === -1 ? content : content.substring(0, newline)
+      ) as SessionHeader;
+
+      if (header.kind !== "session") return null;
+
+      const active = this.activeSession?.id === id;
+      const entryCount = active
+        ? this.activeEntryCount
+        : content.split("\n").filter((line) => line.trim()).length - 1;
+
+      return {
+        id,
+        name: header.name,
+        startedAt: header.startedAt,
+        entryCount,
+        sizeBytes: Buffer.byteLength(content),
+        active,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
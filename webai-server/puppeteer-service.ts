@@ -695,7 +695,12 @@ export async function connectToHeadlessBrowser(
       value: string;
       domain?: string;
       path?: string;
+      secure?: boolean;
+      httpOnly?: boolean;
+      sameSite?: "Strict" | "Lax" | "None";
+      expires?: number;
     }>;
+    localStorage?: Record<string, string>;
     headers?: Record<string, string>;
   } = {}
 ): Promise<{
@@ -762,6 +767,18 @@ export async function connectToHeadlessBrowser(
       console.log(`Set ${options.cookies.length} cookies`);
     }
 
+    // Set localStorage items for the page's origin if provided
+    if (options.localStorage && Object.keys(options.localStorage).length > 0) {
+      await page.evaluate((items: Record<string, string>) => {
+        for (const [key, value] of Object.entries(items)) {
+          localStorage.setItem(key, value);
+        }
+      }, options.localStorage);
+      console.log(
+        `Set ${Object.keys(options.localStorage).length} localStorage items`
+      );
+    }
+
     // Set custom viewport if specified
     if (options.viewport) {
       await page.setViewport(options.viewport);
@@ -923,3 +940,88 @@ export async function connectToHeadlessBrowser(
     );
   }
 }
+
+/**
+ * Removes cookies and localStorage injected for an audit, so they do not leak
+ * into later audits that reuse the headless browser
+ * @param page A page opened by connectToHeadlessBrowser
+ * @param url The URL whose origin's localStorage should be cleared
+ */
+export async function clearHeadlessSession(
+  page: puppeteer.Page,
+  url: string
+): Promise<void> {
+  try {
+    const client = await page.createCDPSession();
+    await client.send("Network.clearBrowserCookies");
+    await client.send("Storage.clearDataForOrigin", {
+      origin: new URL(url).origin,
+      storageTypes: "local_storage",
+    });
+    await client.detach();
+    console.log("Cleared injected session from the headless browser");
+  } catch (error) {
+    console.error("Failed to clear headless browser session:", error);
+  }
+}
+
+/**
+ * Captures a screenshot of one element or the full page in the headless browser
+ *
+ * Used when the extension cannot capture beyond the viewport itself. The page
+ * is loaded fresh, so it does not share the user's browser session.
+ *
+ * @param url The URL to capture
+ * @param options A CSS selector (with optional padding in pixels) or fullPage
+ * @returns The PNG image, base64-encoded
+ */
+export async function captureHeadlessScreenshot(
+  url: string,
+  options: { selector?: string; padding?: number; fullPage?: boolean }
+): Promise<string> {
+  const { page } = await connectToHeadlessBrowser(url, {
+    viewport: { width: 1280, height: 800 },
+  });
+
+  try {
+    if (!options.selector) {
+      return (await page.screenshot({
+        encoding: "base64",
+        fullPage: options.fullPage === true,
+      })) as string;
+    }
+
+    const element = await page.$(options.selector);
+    if (!element) {
+      throw new Error(`No element matches selector: ${options.selector}`);
+    }
+
+    const box = await element.boundingBox();
+    if (!box || box.width === 0 || box.height === 0) {
+      throw new Error(`Element has no visible size: ${options.selector}`);
+    }
+
+    // boundingBox is relative to the viewport; clip expects document coordinates
+    const scroll = await page.evaluate(() => ({
+      x: window.scrollX,
+      y: window.scrollY,
+    }));
+    const padding = options.padding || 0;
+    const x = Math.max(0, box.x + scroll.x - padding);
+    const y = Math.max(0, box.y + scroll.y - padding);
+
+    return (await page.screenshot({
+      encoding: "base64",
+      captureBeyondViewport: true,
+      clip: {
+        x,
+        y,
+        width: box.x + scroll.x + box.width + padding - x,
+        height: box.y + scroll.y + box.height + padding - y,
+      },
+    })) as string;
+  } finally {
+    await page.close().catch(() => {});
+    scheduleBrowserCleanup();
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * Sensitive Data Redaction for Browser Tools Server
+ *
+ * Redacts credentials and personal data from logs, headers, cookies and
+ * storage before they are returned to a client. Logs are kept unredacted in
+ * memory, so changing the extension's sensitive data setting applies to logs
+ * that were already captured. Session files on disk (see log-store.ts) are
+ * redacted with the mode in effect when each entry was captured.
+ *
+ * Modes (the extension's sensitiveDataMode setting):
+ * - hide-all: like hide-sensitive, and every cookie and storage value is hidden
+ * - hide-sensitive: sensitive headers, body fields and values are hidden
+ * - show-all (or hide-nothing): nothing is redacted
+ *
+ * REDACTION_CONFIG can point to a JSON file that adds header names, field
+ * names and value patterns to the built-in ones:
+ *   { "headers": ["x-session"], "fields": ["customerId"],
+ *     "patterns": [{ "name": "order-id", "pattern": "ORD-\\d{8}" }] }
+ */
+
+import fs from "fs";
+
+export type SensitiveDataMode = "hide-all" | "hide-sensitive" | "show-all";
+
+/**
+ * A pattern whose matches are replaced inside any string
+ */
+export interface RedactionPattern {
+  name: string; // Shown in the replacement, e.g. [REDACTED:jwt]
+  pattern: RegExp; // Must have the global flag
+  validate?: (match: string) => boolean; // Rejects false positives
+}
+
+export interface RedactionConfig {
+  headers: string[]; // Header names whose values are hidden (lowercase)
+  fields: string[]; // Field names whose values are hidden, see isSensitiveField
+  patterns: RedactionPattern[];
+}
+
+export const REDACTED = "[SENSITIVE DATA REDACTED]";
+
+const DEFAULT_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+  "x-auth-token",
+  "x-csrf-token",
+  "x-xsrf-token",
+  "x-amz-security-token",
+];
+
+// Matched against field names with case, "-" and "_" ignored
+const DEFAULT_FIELDS = [
+  "password",
+  "passwd",
+  "secret",
+  "token",
+  "apikey",
+  "credential",
+  "authorization",
+  "sessionid",
+  "cardnumber",
+  "cvv",
+  "cvc",
+  "ssn",
+];
+
+// Field names that only count when they match exactly
+const EXACT_FIELDS = ["pwd", "auth", "pin", "otp", "sid"];
+
+// Luhn checksum, so that long numbers such as timestamps are not redacted
+function isLuhnValid(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const DEFAULT_PATTERNS: RedactionPattern[] = [
+  {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g,
+  },
+  {
+    name: "bearer-token",
+    pattern: /\b(?:Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi,
+  },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "api-key", pattern: /\b(?:sk|pk|rk)_(?:test|live)_[A-Za-z0-9]{16,}/g },
+  { name: "api-key", pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  { name: "api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "api-key", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}/g },
+  { name: "api-key", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    name: "card-number",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isLuhnValid,
+  },
+];
+
+// Values that look like opaque tokens, used for cookies and storage
+const TOKEN_LIKE_VALUE = /^[A-Za-z0-9._~+/=-]{24,}$/;
+
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[-_\s]/g, "");
+}
+
+/**
+ * Normalizes the extension's sensitiveDataMode setting
+ */
+export function parseSensitiveDataMode(value: unknown): SensitiveDataMode {
+  if (value === "show-all" || value === "hide-nothing") return "show-all";
+  if (value === "hide-sensitive") return "hide-sensitive";
+  // Unknown values fail closed
+  return "hide-all";
+}
+
+export class Redactor {
+  private headers: Set<string>;
+  private fields: string[];
+  private patterns: RedactionPattern[];
+
+  constructor(config: Partial<RedactionConfig> = {}) {
+    this.headers = new Set(
+      [...DEFAULT_HEADERS, ...(config.headers || [])].map((name) =>
+        name.toLowerCase()
+      )
+    );
+    this.fields = [...DEFAULT_FIELDS, ...(config.fields || [])].map(
+      normalizeFieldName
+    );
+    this.patterns = [...DEFAULT_PATTERNS, ...(config.patterns || [])];
+  }
+
+  /**
+   * Creates a redactor with the built-in rules and those in REDACTION_CONFIG
+   */
+  static createFromEnvironment(): Redactor {
+    const configPath = process.env.REDACTION_CONFIG;
+    if (!configPath) return new Redactor();
+
+    try {
+      return new Redactor(Redactor.loadConfig(configPath));
+    } catch (error) {
+      console.error(
+        `Failed to load redaction config from ${configPath}, using the built-in rules:`,
+        error
+      );
+      return new Redactor();
+    }
+  }
+
+  /**
+   * Reads a redaction config file
+   * @throws Error if the file is missing or invalid
+   */
+  static loadConfig(configPath: string): Partial<RedactionConfig> {
+    const raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    const readNames = (value: unknown, name: string): string[] => {
+      if (value === undefined) return [];
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        throw new Error(`${name} must be an array of strings`);
+      }
+      return value;
+    };
+
+    const patterns = (raw.patterns ?? []).map((entry: any, index: number) => {
+      if (typeof entry?.name !== "string" || typeof entry?.pattern !== "string") {
+        throw new Error(`patterns[${index}] needs a name and a pattern`);
+      }
+      const flags = typeof entry.flags === "string" ? entry.flags : "";
+      return {
+        name: entry.name,
+        pattern: new RegExp(entry.pattern, flags.includes("g") ? flags : `${flags}g`),
+      };
+    });
+
+    return {
+      headers: readNames(raw.headers, "headers"),
+      fields: readNames(raw.fields, "fields"),
+      patterns,
+    };
+  }
+
+  /**
+   * Whether a header, JSON field, query parameter or storage key holds a secret
+   */
+  isSensitiveField(name: string): boolean {
+    const normalized = normalizeFieldName(name);
+    return (
+      EXACT_FIELDS.includes(normalized) ||
+      this.fields.some((field) => normalized.includes(field))
+    );
+  }
+
+  /**
+   * Replaces every pattern match in a string, e.g. an email becomes
+   * [REDACTED:email]
+   */
+  redactText(text: string): string {
+    let result = text;
+    for (const { name, pattern, validate } of this.patterns) {
+      pattern.lastIndex = 0;
+      result = result.replace(pattern, (match) =>
+        !validate || validate(match) ? `[REDACTED:${name}]` : match
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Redacts sensitive fields and pattern matches in parsed JSON data
+   */
+  redactValue(value: any): any {
+    if (typeof value === "string") return this.redactText(value);
+    if (Array.isArray(value)) return value.map((item) => this.redactValue(item));
+    if (value && typeof value === "object") {
+      const result: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] =
+          this.isSensitiveField(key) && item !== null && item !== ""
+            ? REDACTED
+            : this.redactValue(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  /**
+   * Redacts a request or response body: JSON, form-encoded or plain text
+   */
+  redactBody(body: string): string {
+    const trimmed = body.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      try {
+        return JSON.stringify(this.redactValue(JSON.parse(trimmed)));
+      } catch {
+        // Not JSON after all
+      }
+    }
+
+    if (/^[^=&\s]+=[^&\s]*(?:&[^=&\s]+=[^&\s]*)*$/.test(trimmed)) {
+      return this.redactText(this.redactParameters(trimmed));
+    }
+
+    return this.redactText(body);
+  }
+
+  /**
+   * Redacts sensitive query parameters and pattern matches in a URL
+   */
+  redactUrl(url: string): string {
+    return this.redactText(this.redactParameters(url));
+  }
+
+  // Hides the values of sensitive name=value parameters in a query string
+  // or form-encoded body; the marker is left unencoded so it stays readable
+  private redactParameters(text: string): string {
+    return text.replace(
+      /(^|[?&])([^=&?#\s]+)=([^&#\s]*)/g,
+      (match, separator: string, name: string) => {
+        let decoded = name;
+        try {
+          decoded = decodeURIComponent(name.replace(/\+/g, " "));
+        } catch {
+          // Keep the raw name
+        }
+        return this.isSensitiveField(decoded) ? `${separator}${name}=${REDACTED}` : match;
+      }
+    );
+  }
+
+  /**
+   * Redacts headers given as HAR name/value pairs or as an object
+   */
+  redactHeaders(headers: any): any {
+    const redactHeader = (name: string, value: unknown) =>
+      typeof value !== "string"
+        ? value
+        : this.headers.has(name.toLowerCase()) || this.isSensitiveField(name)
+        ? REDACTED
+        : this.redactText(value);
+
+    if (Array.isArray(headers)) {
+      return headers.map((header) =>
+        header && typeof header.name === "string"
+          ? { ...header, value: redactHeader(header.name, header.value) }
+          : header
+      );
+    }
+    if (headers && typeof headers === "object") {
+      return Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [
+          name,
+          redactHeader(name, value),
+        ])
+      );
+    }
+    return headers;
+  }
+
+  /**
+   * Redacts a console or network log entry
+   */
+  redactLog(log: any, mode: SensitiveDataMode): any {
+    if (mode === "show-all" || !log || typeof log !== "object") return log;
+
+    const result = { ...log };
+    if (typeof result.message === "string") {
+      result.message = this.redactText(result.message);
+    }
+    if (typeof result.url === "string") {
+      result.url = this.redactUrl(result.url);
+    }
+    if (result.requestHeaders) {
+      result.requestHeaders = this.redactHeaders(result.requestHeaders);
+    }
+    if (result.responseHeaders) {
+      result.responseHeaders = this.redactHeaders(result.responseHeaders);
+    }
+    if (typeof result.requestBody === "string") {
+      result.requestBody = this.redactBody(result.requestBody);
+    }
+    if (typeof result.responseBody === "string") {
+      result.responseBody = this.redactBody(result.responseBody);
+    }
+    return result;
+  }
+
+  // Whether a cookie or storage value is hidden as a whole in the given mode
+  private isSensitiveEntry(
+    key: string,
+    value: string,
+    mode: SensitiveDataMode
+  ): boolean {
+    return (
+      mode === "hide-all" ||
+      this.isSensitiveField(key) ||
+      TOKEN_LIKE_VALUE.test(value)
+    );
+  }
+
+  /**
+   * Redacts cookie values
+   */
+  redactCookies(cookies: any[], mode: SensitiveDataMode): any[] {
+    if (mode === "show-all" || !Array.isArray(cookies)) return cookies;
+
+    return cookies.map((cookie) => {
+      if (
+        !cookie ||
+        typeof cookie !== "object" ||
+        typeof cookie.value !== "string" ||
+        cookie.value === REDACTED
+      ) {
+        return cookie;
+      }
+      return {
+        ...cookie,
+        value: this.isSensitiveEntry(cookie.name || "", cookie.value, mode)
+          ? REDACTED
+          : this.redactText(cookie.value),
+      };
+    });
+  }
+
+  /**
+   * Redacts localStorage or sessionStorage values; JSON values that are not
+   * hidden as a whole have their sensitive fields redacted
+   */
+  redactStorage(
+    storage: Record<string, unknown>,
+    mode: SensitiveDataMode
+  ): Record<string, unknown> {
+    if (mode === "show-all" || !storage || typeof storage !== "object") {
+      return storage;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(storage)) {
+      if (value === REDACTED || typeof value !== "string") {
+        result[key] = value;
+      } else if (this.isSensitiveEntry(key, value, mode)) {
+        result[key] = REDACTED;
+      } else {
+        result[key] = this.redactBody(value);
+      }
+    }
+    return result;
+  }
+}
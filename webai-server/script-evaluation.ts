@@ -0,0 +1,100 @@
+/**
+ * Script Evaluation for Browser Tools Server
+ *
+ * Validates requests to run JavaScript in the inspected page. Evaluation is
+ * disabled unless the server is started with ALLOW_SCRIPT_EVALUATION=true,
+ * since a script runs with the page's full privileges (cookies, storage,
+ * authenticated requests).
+ */
+
+import { readInteger } from "./automation.js";
+
+export interface EvaluateRequest {
+  expression: string;
+  maxDepth: number; // Nesting depth of objects and arrays in the result
+  maxProperties: number; // Properties per object and items per array
+  stringSizeLimit: number; // Characters per string in the result
+  maxResultSize: number; // Characters of the serialized result
+  timeout: number; // Milliseconds to wait for the result, including promises
+}
+
+const MAX_EXPRESSION_LENGTH = 100000;
+const MAX_DEPTH = 10;
+const MAX_PROPERTIES = 1000;
+const MAX_RESULT_SIZE = 200000;
+const MAX_TIMEOUT = 60000;
+
+// Time the extension needs beyond the script's own run time
+const RESPONSE_MARGIN = 5000;
+
+/**
+ * Whether the server was started with script evaluation enabled
+ */
+export function isScriptEvaluationEnabled(): boolean {
+  return process.env.ALLOW_SCRIPT_EVALUATION === "true";
+}
+
+/**
+ * Validates the parameters of an evaluation request
+ * @param body The request body
+ * @param defaultStringSizeLimit The string size limit from the extension settings
+ * @throws Error describing the first invalid parameter
+ */
+export function parseEvaluateRequest(
+  body: any,
+  defaultStringSizeLimit: number
+): EvaluateRequest {
+  const params = body || {};
+  if (typeof params.expression !== "string" || !params.expression.trim()) {
+    throw new Error("expression must be a non-empty string");
+  }
+  if (params.expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(
+      `expression must be at most ${MAX_EXPRESSION_LENGTH} characters`
+    );
+  }
+
+  return {
+    expression: params.expression,
+    maxDepth: readInteger(params.maxDepth, "maxDepth", 3, 0, MAX_DEPTH),
+    maxProperties: readInteger(
+      params.maxProperties,
+      "maxProperties",
+      100,
+      1,
+      MAX_PROPERTIES
+    ),
+    stringSizeLimit: readInteger(
+      params.stringSizeLimit,
+      "stringSizeLimit",
+      defaultStringSizeLimit,
+      1,
+      MAX_RESULT_SIZE
+    ),
+    maxResultSize: readInteger(
+      params.maxResultSize,
+      "maxResultSize",
+      50000,
+      1000,
+      MAX_RESULT_SIZE
+    ),
+    timeout: readInteger(params.timeout, "timeout", 10000, 100, MAX_TIMEOUT),
+  };
+}
+
+/**
+ * How long to wait for the extension's response to an evaluation
+ */
+export function getEvaluationResponseTimeout(request: EvaluateRequest): number {
+  return request.timeout + RESPONSE_MARGIN;
+}
+
+/**
+ * HTTP status for a failed evaluation, from the reason the extension reported
+ */
+export function getEvaluationErrorStatus(reason?: string): number {
+  if (reason === "evaluation-error") return 400;
+  if (reason === "timeout") return 408;
+  if (reason === "debugger-unavailable") return 503;
+  return 500;
+}
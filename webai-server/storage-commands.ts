@@ -0,0 +1,186 @@
+/**
+ * Cookie and Storage Writes for Browser Tools Server
+ *
+ * Validates the commands that change the inspected tab's cookies,
+ * localStorage and sessionStorage before they are sent to the extension.
+ * Commands that remove data only run when the request sets `confirm: true`.
+ */
+
+export type StorageOperation =
+  | "set-cookie"
+  | "delete-cookie"
+  | "clear-cookies"
+  | "set-storage-item"
+  | "remove-storage-item"
+  | "clear-storage";
+
+export type StorageArea = "local" | "session";
+
+export type CookieSameSite = "Strict" | "Lax" | "None";
+
+export type StorageCommand =
+  | {
+      operation: "set-cookie";
+      url?: string; // Defaults to the inspected tab's URL
+      name: string;
+      value: string;
+      domain?: string;
+      path?: string;
+      secure?: boolean;
+      httpOnly?: boolean;
+      sameSite?: CookieSameSite;
+      expires?: number; // Seconds since the epoch; omit for a session cookie
+    }
+  | { operation: "delete-cookie"; url?: string; name: string }
+  | { operation: "clear-cookies"; url?: string }
+  | { operation: "set-storage-item"; storage: StorageArea; key: string; value: string }
+  | { operation: "remove-storage-item"; storage: StorageArea; key: string }
+  | { operation: "clear-storage"; storage: StorageArea };
+
+// Endpoint path of each operation
+export const STORAGE_COMMAND_ENDPOINTS: Record<StorageOperation, string> = {
+  "set-cookie": "/cookies/set",
+  "delete-cookie": "/cookies/delete",
+  "clear-cookies": "/cookies/clear",
+  "set-storage-item": "/storage/set",
+  "remove-storage-item": "/storage/remove",
+  "clear-storage": "/storage/clear",
+};
+
+const DESTRUCTIVE_OPERATIONS: StorageOperation[] = [
+  "delete-cookie",
+  "clear-cookies",
+  "remove-storage-item",
+  "clear-storage",
+];
+
+const SAME_SITE_VALUES: CookieSameSite[] = ["Strict", "Lax", "None"];
+
+const MAX_VALUE_LENGTH = 5 * 1024 * 1024;
+
+/**
+ * Raised when a removal is requested without `confirm: true`
+ */
+export class ConfirmationRequiredError extends Error {
+  constructor(operation: StorageOperation) {
+    super(
+      `${operation} removes data from the browser; repeat the request with confirm: true`
+    );
+    this.name = "ConfirmationRequiredError";
+  }
+}
+
+function requireString(value: unknown, name: string, allowEmpty = false): string {
+  if (typeof value !== "string" || (!allowEmpty && !value)) {
+    throw new Error(`${name} must be a ${allowEmpty ? "" : "non-empty "}string`);
+  }
+  if (value.length > MAX_VALUE_LENGTH) {
+    throw new Error(`${name} must be at most ${MAX_VALUE_LENGTH} characters`);
+  }
+  return value;
+}
+
+function optionalBoolean(value: unknown, name: string): boolean | undefined {
+  if (value !== undefined && typeof value !== "boolean") {
+    throw new Error(`${name} must be a boolean`);
+  }
+  return value;
+}
+
+function parseCookieUrl(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  try {
+    const url = new URL(value as string);
+    if (url.protocol === "http:" || url.protocol === "https:") return url.href;
+  } catch {
+    // Reported below
+  }
+  throw new Error("url must be an absolute http or https URL");
+}
+
+function parseStorageArea(value: unknown): StorageArea {
+  if (value !== "local" && value !== "session") {
+    throw new Error('storage must be "local" or "session"');
+  }
+  return value;
+}
+
+/**
+ * Validates the parameters of a cookie or storage write
+ * @param operation The operation, taken from the endpoint path
+ * @param body The request body
+ * @returns The command to send to the extension
+ * @throws ConfirmationRequiredError if a removal is not confirmed
+ * @throws Error describing the first invalid parameter
+ */
+export function parseStorageCommand(
+  operation: StorageOperation,
+  body: any
+): StorageCommand {
+  const params = body || {};
+
+  if (DESTRUCTIVE_OPERATIONS.includes(operation) && params.confirm !== true) {
+    throw new ConfirmationRequiredError(operation);
+  }
+
+  switch (operation) {
+    case "set-cookie": {
+      if (params.sameSite !== undefined && !SAME_SITE_VALUES.includes(params.sameSite)) {
+        throw new Error(`sameSite must be one of: ${SAME_SITE_VALUES.join(", ")}`);
+      }
+      if (
+        params.expires !== undefined &&
+        (typeof params.expires !== "number" || !Number.isFinite(params.expires))
+      ) {
+        throw new Error("expires must be a timestamp in seconds since the epoch");
+      }
+      // Browsers reject SameSite=None cookies that are not Secure
+      if (params.sameSite === "None" && params.secure === false) {
+        throw new Error("Cookies with sameSite None must be secure");
+      }
+      return {
+        operation,
+        url: parseCookieUrl(params.url),
+        name: requireString(params.name, "name"),
+        value: requireString(params.value, "value", true),
+        domain:
+          params.domain === undefined ? undefined : requireString(params.domain, "domain"),
+        path: params.path === undefined ? undefined : requireString(params.path, "path"),
+        secure:
+          optionalBoolean(params.secure, "secure") ??
+          (params.sameSite === "None" ? true : undefined),
+        httpOnly: optionalBoolean(params.httpOnly, "httpOnly"),
+        sameSite: params.sameSite,
+        expires: params.expires,
+      };
+    }
+
+    case "delete-cookie":
+      return {
+        operation,
+        url: parseCookieUrl(params.url),
+        name: requireString(params.name, "name"),
+      };
+
+    case "clear-cookies":
+      return { operation, url: parseCookieUrl(params.url) };
+
+    case "set-storage-item":
+      return {
+        operation,
+        storage: parseStorageArea(params.storage),
+        key: requireString(params.key, "key"),
+        value: requireString(params.value, "value", true),
+      };
+
+    case "remove-storage-item":
+      return {
+        operation,
+        storage: parseStorageArea(params.storage),
+        key: requireString(params.key, "key"),
+      };
+
+    case "clear-storage":
+      return { operation, storage: parseStorageArea(params.storage) };
+  }
+}
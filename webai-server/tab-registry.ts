@@ -0,0 +1,200 @@
+/**
+ * Tab Registry for Browser Tools Server
+ *
+ * Tracks one WebSocket connection per inspected tab, so several DevTools
+ * panels can be connected at once and commands can be routed to a specific
+ * tab. Commands without a tab ID go to the default tab, which is the most
+ * recently connected or navigated one. The element selected in each tab's
+ * Elements panel is kept here too, so reads can target a tab the same way.
+ */
+
+import { WebSocket } from "ws";
+
+export interface TabInfo {
+  tabId: string;
+  url: string;
+  connectedAt: string; // ISO 8601
+  lastActivity: string; // ISO 8601
+  isDefault: boolean;
+}
+
+interface ElementSelection {
+  element: unknown;
+  selectedAt: number;
+}
+
+interface TabConnection {
+  tabId: string;
+  ws: WebSocket;
+  url: string;
+  connectedAt: number;
+  lastActivity: number;
+}
+
+export class TabRegistry {
+  private tabs: Map<string, TabConnection> = new Map();
+  private defaultTabId: string | null = null;
+  private anonymousCount = 0;
+  private selections: Map<string, ElementSelection> = new Map();
+
+  /**
+   * Registers a connection; a previous connection for the same tab is replaced
+   * @param ws The extension's WebSocket
+   * @param tabId The inspected tab, if the extension reported it
+   * @returns The tab ID the connection was registered under
+   */
+  register(ws: WebSocket, tabId?: string | number | null): string {
+    // Older extensions do not send their tab ID
+    const id =
+      tabId !== undefined && tabId !== null && String(tabId) !== ""
+        ? String(tabId)
+        : `unknown-${++this.anonymousCount}`;
+
+    const previous = this.tabs.get(id);
+    if (previous && previous.ws !== ws) {
+      console.log(`Tab registry: replacing existing connection for tab ${id}`);
+      previous.ws.close(1000, "Replaced by a newer connection");
+    }
+
+    const now = Date.now();
+    this.tabs.set(id, {
+      tabId: id,
+      ws,
+      url: previous?.url || "",
+      connectedAt: now,
+      lastActivity: now,
+    });
+    this.defaultTabId = id;
+    console.log(`Tab registry: tab ${id} connected (${this.tabs.size} total)`);
+
+    return id;
+  }
+
+  /**
+   * Removes a connection; the default moves to the most recently active tab
+   * @param ws The closed WebSocket
+   */
+  unregister(ws: WebSocket): void {
+    for (const [id, tab] of this.tabs) {
+      if (tab.ws !== ws) continue;
+
+      this.tabs.delete(id);
+      this.selections.delete(id);
+      console.log(`Tab registry: tab ${id} disconnected (${this.tabs.size} left)`);
+
+      if (this.defaultTabId === id) {
+        const next = Array.from(this.tabs.values()).sort(
+          (a, b) => b.lastActivity - a.lastActivity
+        )[0];
+        this.defaultTabId = next ? next.tabId : null;
+      }
+    }
+  }
+
+  /**
+   * Records a URL reported for a tab and makes it the default tab
+   */
+  updateUrl(tabId: string | number, url: string): void {
+    const tab = this.tabs.get(String(tabId));
+    if (!tab) return;
+
+    tab.url = url;
+    tab.lastActivity = Date.now();
+    this.defaultTabId = tab.tabId;
+  }
+
+  /**
+   * Returns the connection for a tab, or for the default tab if none is given
+   */
+  getConnection(tabId?: string | number | null): WebSocket | null {
+    const id = this.resolveTabId(tabId);
+    return id ? this.tabs.get(id)!.ws : null;
+  }
+
+  /**
+   * Returns the last URL reported for a tab, or for the default tab
+   */
+  getUrl(tabId?: string | number | null): string | null {
+    const id = this.resolveTabId(tabId);
+    return id ? this.tabs.get(id)!.url : null;
+  }
+
+  /**
+   * Resolves an optional tab ID to a connected tab
+   * @returns The tab ID, or null if that tab (or any tab) is not connected
+   */
+  resolveTabId(tabId?: string | number | null): string | null {
+    if (tabId !== undefined && tabId !== null && String(tabId) !== "") {
+      return this.tabs.has(String(tabId)) ? String(tabId) : null;
+    }
+    return this.defaultTabId;
+  }
+
+  /**
+   * Records the element selected in a tab's Elements panel
+   * @param tabId The tab the element was selected in, if the extension reported it
+   * @param element The element details, or null to clear the selection
+   */
+  setSelectedElement(tabId: string | number | null | undefined, element: unknown): void {
+    const id = tabId !== undefined && tabId !== null ? String(tabId) : "";
+    if (element === null || element === undefined) {
+      this.selections.delete(id);
+      return;
+    }
+    this.selections.set(id, { element, selectedAt: Date.now() });
+  }
+
+  /**
+   * Returns the element selected in a tab; without a tab ID, the default
+   * tab's selection or else the most recent selection in any tab
+   */
+  getSelectedElement(tabId?: string | number | null): unknown | null {
+    if (tabId !== undefined && tabId !== null && String(tabId) !== "") {
+      return this.selections.get(String(tabId))?.element ?? null;
+    }
+
+    const selection =
+      (this.defaultTabId && this.selections.get(this.defaultTabId)) ||
+      Array.from(this.selections.values()).sort(
+        (a, b) => b.selectedAt - a.selectedAt
+      )[0];
+    return selection ? selection.element : null;
+  }
+
+  /**
+   * Forgets the selected element of one tab, or of every tab
+   */
+  clearSelectedElements(tabId?: string | number | null): void {
+    if (tabId !== undefined && tabId !== null && String(tabId) !== "") {
+      this.selections.delete(String(tabId));
+    } else {
+      this.selections.clear();
+    }
+  }
+
+  hasConnections(): boolean {
+    return this.tabs.size > 0;
+  }
+
+  getConnections(): WebSocket[] {
+    return Array.from(this.tabs.values()).map((tab) => tab.ws);
+  }
+
+  list(): TabInfo[] {
+    return Array.from(this.tabs.values())
+      .sort((a, b) => b.lastActivity - a.lastActivity)
+      .map((tab) => ({
+        tabId: tab.tabId,
+        url: tab.url,
+        connectedAt: new Date(tab.connectedAt).toISOString(),
+        lastActivity: new Date(tab.lastActivity).toISOString(),
+        isDefault: tab.tabId === this.defaultTabId,
+      }));
+  }
+
+  clear(): void {
+    this.tabs.clear();
+    this.selections.clear();
+    this.defaultTabId = null;
+  }
+}
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Response } from "express";
+import { ChangeEvents } from "../change-events.js";
+
+// Collects the change events written to an event stream
+class FakeEventStream {
+  events: any[] = [];
+  private onClose?: () => void;
+
+  writeHead(): void {}
+
+  write(chunk: string): void {
+    const data = chunk.match(/^event: change\ndata: (.*)\n\n$/);
+    if (data) this.events.push(JSON.parse(data[1]));
+  }
+
+  on(event: string, listener: () => void): void {
+    if (event === "close") this.onClose = listener;
+  }
+
+  end(): void {
+    this.onClose?.();
+  }
+
+  asResponse(): Response {
+    return this as unknown as Response;
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("a burst of changes sends the first at once and the latest when the interval ends", async () => {
+  const changeEvents = new ChangeEvents(20);
+  const stream = new FakeEventStream();
+  changeEvents.addListener(stream.asResponse());
+
+  for (let i = 0; i < 5; i++) {
+    changeEvents.publish("screenshots", { name: `shot-${i}.png` });
+  }
+  assert.deepEqual(
+    stream.events.map((event) => event.name),
+    ["shot-0.png"]
+  );
+
+  await wait(40);
+  assert.deepEqual(
+    stream.events.map((event) => event.name),
+    ["shot-0.png", "shot-4.png"]
+  );
+
+  changeEvents.close();
+});
+
+test("topics are coalesced separately", async () => {
+  const changeEvents = new ChangeEvents(20);
+  const stream = new FakeEventStream();
+  changeEvents.addListener(stream.asResponse());
+
+  changeEvents.publish("console-logs");
+  changeEvents.publish(["console-logs", "console-errors"]);
+  assert.deepEqual(
+    stream.events.map((event) => event.topic),
+    ["console-logs", "console-errors"]
+  );
+
+  await wait(40);
+  assert.deepEqual(
+    stream.events.map((event) => event.topic),
+    ["console-logs", "console-errors", "console-logs"]
+  );
+
+  changeEvents.close();
+});
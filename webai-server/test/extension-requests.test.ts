@@ -0,0 +1,94 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { WebSocket } from "ws";
+import {
+  requestFromExtension,
+  takeCallback,
+  type PendingRequest,
+} from "../extension-requests.js";
+
+type CookiesResult = { cookies: any[] };
+
+// Records what the server sends and answers it the way the connector's
+// message handler does: by looking up the callback for the echoed requestId
+class FakeExtensionSocket {
+  sent: any[] = [];
+
+  constructor(private callbacks: Map<string, PendingRequest<CookiesResult>>) {}
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  respond(requestId: string, cookies: any[]): boolean {
+    const callback = takeCallback(this.callbacks, requestId);
+    callback?.resolve({ cookies });
+    return callback !== undefined;
+  }
+
+  asWebSocket(): WebSocket {
+    return this as unknown as WebSocket;
+  }
+}
+
+test("concurrent requests answered out of order get their own payloads", async () => {
+  const callbacks = new Map<string, PendingRequest<CookiesResult>>();
+  const socket = new FakeExtensionSocket(callbacks);
+
+  const first = requestFromExtension<CookiesResult>(
+    socket.asWebSocket(),
+    callbacks,
+    { type: "get-cookies", url: "https://a.example" },
+    "Cookies"
+  );
+  const second = requestFromExtension<CookiesResult>(
+    socket.asWebSocket(),
+    callbacks,
+    { type: "get-cookies", url: "https://b.example" },
+    "Cookies"
+  );
+
+  assert.equal(socket.sent.length, 2);
+  const [firstRequest, secondRequest] = socket.sent;
+  assert.notEqual(firstRequest.requestId, secondRequest.requestId);
+  assert.equal(callbacks.size, 2);
+
+  // The extension answers the second request first
+  assert.ok(socket.respond(secondRequest.requestId, [{ name: "b" }]));
+  assert.ok(socket.respond(firstRequest.requestId, [{ name: "a" }]));
+
+  assert.deepEqual(await first, { cookies: [{ name: "a" }] });
+  assert.deepEqual(await second, { cookies: [{ name: "b" }] });
+  assert.equal(callbacks.size, 0);
+});
+
+test("a timed-out request removes only its own callback", async () => {
+  const callbacks = new Map<string, PendingRequest<CookiesResult>>();
+  const socket = new FakeExtensionSocket(callbacks);
+
+  const slow = requestFromExtension<CookiesResult>(
+    socket.asWebSocket(),
+    callbacks,
+    { type: "get-cookies" },
+    "Cookies",
+    20
+  );
+  const pending = requestFromExtension<CookiesResult>(
+    socket.asWebSocket(),
+    callbacks,
+    { type: "get-cookies" },
+    "Cookies",
+    5000
+  );
+  const [slowRequest, pendingRequest] = socket.sent;
+
+  await assert.rejects(slow, /Cookies request timed out/);
+  assert.deepEqual(Array.from(callbacks.keys()), [pendingRequest.requestId]);
+
+  // A late answer to the timed-out request is ignored
+  assert.equal(socket.respond(slowRequest.requestId, [{ name: "late" }]), false);
+
+  assert.ok(socket.respond(pendingRequest.requestId, [{ name: "still-pending" }]));
+  assert.deepEqual(await pending, { cookies: [{ name: "still-pending" }] });
+  assert.equal(callbacks.size, 0);
+});
@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LogQueryError, parseLogQuery, queryLogs } from "../log-query.js";
+
+// Five console entries with ids 1 to 5, stored oldest first like the buffers
+const logs = [1, 2, 3, 4, 5].map((id) => ({
+  id,
+  type: "console-log",
+  level: id % 2 === 0 ? "error" : "log",
+  message: `message ${id}`,
+  timestamp: id * 1000,
+}));
+
+const ids = (page: { logs: { id: number }[] }) => page.logs.map((log) => log.id);
+
+test("pages are newest first by default", () => {
+  assert.equal(parseLogQuery({}).order, "desc");
+
+  const page = queryLogs(logs, parseLogQuery({ limit: "2" }), 100000);
+  assert.deepEqual(ids(page), [5, 4]);
+  assert.equal(page.total, 5);
+  assert.equal(page.returned, 2);
+  assert.equal(page.nextCursor, "4");
+  assert.equal(page.hasMore, true);
+});
+
+test("the cursor continues after the last entry in either order", () => {
+  const desc = queryLogs(logs, parseLogQuery({ limit: "2", cursor: "4" }), 100000);
+  assert.deepEqual(ids(desc), [3, 2]);
+  assert.equal(desc.nextCursor, "2");
+
+  const asc = queryLogs(logs, parseLogQuery({ order: "asc", limit: "2", cursor: "2" }), 100000);
+  assert.deepEqual(ids(asc), [3, 4]);
+  assert.equal(asc.nextCursor, "4");
+});
+
+test("the last page has no next cursor", () => {
+  const page = queryLogs(logs, parseLogQuery({ limit: "2", cursor: "2" }), 100000);
+  assert.deepEqual(ids(page), [1]);
+  assert.equal(page.nextCursor, null);
+  assert.equal(page.hasMore, false);
+
+  const pastEnd = queryLogs(logs, parseLogQuery({ cursor: "1" }), 100000);
+  assert.deepEqual(ids(pastEnd), []);
+  assert.equal(pastEnd.hasMore, false);
+});
+
+test("filters apply before paging and count toward total", () => {
+  const page = queryLogs(logs, parseLogQuery({ level: "error", limit: "1" }), 100000);
+  assert.deepEqual(ids(page), [4]);
+  assert.equal(page.total, 2);
+  assert.equal(page.nextCursor, "4");
+});
+
+test("the size budget ends a page but always returns one entry", () => {
+  // Room for entries 5 and 4 but not for 3
+  const budget = JSON.stringify(logs[4]).length + JSON.stringify(logs[3]).length;
+
+  const page = queryLogs(logs, parseLogQuery({}), budget);
+  assert.deepEqual(ids(page), [5, 4]);
+  assert.equal(page.hasMore, true);
+  assert.equal(page.nextCursor, "4");
+
+  const tiny = queryLogs(logs, parseLogQuery({}), 1);
+  assert.deepEqual(ids(tiny), [5]);
+  assert.equal(tiny.nextCursor, "5");
+});
+
+test("the transform is applied to returned entries", () => {
+  const page = queryLogs(logs, parseLogQuery({ limit: "1" }), 100000, (log) => ({
+    id: log.id,
+  }));
+  assert.deepEqual(page.logs, [{ id: 5 }]);
+});
+
+test("malformed parameters raise a LogQueryError", () => {
+  const invalidQueries = [
+    { limit: "0" },
+    { limit: "ten" },
+    { cursor: "abc" },
+    { order: "newest" },
+    { since: "yesterday" },
+    { urlPattern: "(" },
+    { statusMin: "500", statusMax: "400" },
+  ];
+  for (const query of invalidQueries) {
+    assert.throws(() => parseLogQuery(query), LogQueryError, JSON.stringify(query));
+  }
+});
@@ -0,0 +1,157 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { REDACTED, Redactor, parseSensitiveDataMode } from "../redaction.js";
+
+const redactor = new Redactor();
+
+test("card numbers are redacted only when their Luhn checksum is valid", () => {
+  assert.equal(
+    redactor.redactText("paid with 4111 1111 1111 1111"),
+    "paid with [REDACTED:card-number]"
+  );
+  assert.equal(
+    redactor.redactText("card 4111-1111-1111-1111 declined"),
+    "card [REDACTED:card-number] declined"
+  );
+  assert.equal(redactor.redactText("order 4111111111111112"), "order 4111111111111112");
+});
+
+test("pattern matches are replaced inside text", () => {
+  assert.equal(
+    redactor.redactText("mail jane@example.com with Bearer abcdefgh12345678"),
+    "mail [REDACTED:email] with [REDACTED:bearer-token]"
+  );
+  assert.equal(
+    redactor.redactText("token eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl"),
+    "token [REDACTED:jwt]"
+  );
+});
+
+test("sensitive field names ignore case, dashes and underscores", () => {
+  assert.ok(redactor.isSensitiveField("password"));
+  assert.ok(redactor.isSensitiveField("X-Api-Key"));
+  assert.ok(redactor.isSensitiveField("refresh_token"));
+  assert.ok(redactor.isSensitiveField("Card-Number"));
+  // Short names only count as a whole
+  assert.ok(redactor.isSensitiveField("PIN"));
+  assert.ok(!redactor.isSensitiveField("spinner"));
+  assert.ok(!redactor.isSensitiveField("username"));
+});
+
+test("fields from the config are added to the built-in ones", () => {
+  const configured = new Redactor({ fields: ["customer_id"] });
+  assert.ok(configured.isSensitiveField("customerId"));
+  assert.ok(!redactor.isSensitiveField("customerId"));
+});
+
+test("sensitive query parameters are hidden and others kept", () => {
+  assert.equal(
+    redactor.redactUrl("https://app.example/login?user=jane&access_token=abc123&page=2"),
+    `https://app.example/login?user=jane&access_token=${REDACTED}&page=2`
+  );
+  assert.equal(
+    redactor.redactUrl("https://app.example/?api%5Fkey=abc#top"),
+    `https://app.example/?api%5Fkey=${REDACTED}#top`
+  );
+});
+
+test("bodies are redacted as JSON, form-encoded data or text", () => {
+  assert.equal(
+    redactor.redactBody('{"user":"jane","password":"hunter2","profile":{"apiKey":"k"}}'),
+    JSON.stringify({ user: "jane", password: REDACTED, profile: { apiKey: REDACTED } })
+  );
+  assert.equal(
+    redactor.redactBody("user=jane&password=hunter2"),
+    `user=jane&password=${REDACTED}`
+  );
+  assert.equal(redactor.redactBody("contact jane@example.com"), "contact [REDACTED:email]");
+});
+
+test("headers are redacted by name in both HAR and object form", () => {
+  assert.deepEqual(
+    redactor.redactHeaders([
+      { name: "Authorization", value: "Basic dXNlcjpwYXNz" },
+      { name: "Accept", value: "application/json" },
+    ]),
+    [
+      { name: "Authorization", value: REDACTED },
+      { name: "Accept", value: "application/json" },
+    ]
+  );
+  assert.deepEqual(
+    redactor.redactHeaders({ Cookie: "sid=1", "X-Request-Id": "42" }),
+    { Cookie: REDACTED, "X-Request-Id": "42" }
+  );
+});
+
+test("show-all leaves logs, cookies and storage unchanged", () => {
+  const log = { type: "console-log", message: "jane@example.com" };
+  const cookies = [{ name: "session", value: "abc" }];
+  const storage = { token: "abc" };
+
+  assert.equal(redactor.redactLog(log, "show-all"), log);
+  assert.equal(redactor.redactCookies(cookies, "show-all"), cookies);
+  assert.equal(redactor.redactStorage(storage, "show-all"), storage);
+});
+
+test("logs are redacted the same in hide-sensitive and hide-all", () => {
+  const log = {
+    type: "network-request",
+    url: "https://api.example/?token=abc",
+    requestHeaders: { Authorization: "Bearer abcdefgh12345678" },
+    requestBody: '{"password":"hunter2"}',
+  };
+  const expected = {
+    type: "network-request",
+    url: `https://api.example/?token=${REDACTED}`,
+    requestHeaders: { Authorization: REDACTED },
+    requestBody: JSON.stringify({ password: REDACTED }),
+  };
+
+  assert.deepEqual(redactor.redactLog(log, "hide-sensitive"), expected);
+  assert.deepEqual(redactor.redactLog(log, "hide-all"), expected);
+});
+
+test("hide-sensitive hides only sensitive cookie and storage values", () => {
+  assert.deepEqual(
+    redactor.redactCookies(
+      [
+        { name: "theme", value: "dark" },
+        { name: "session_id", value: "abc" },
+        { name: "prefs", value: "a".repeat(32) },
+      ],
+      "hide-sensitive"
+    ),
+    [
+      { name: "theme", value: "dark" },
+      { name: "session_id", value: REDACTED },
+      { name: "prefs", value: REDACTED },
+    ]
+  );
+  assert.deepEqual(
+    redactor.redactStorage(
+      { lang: "en", authToken: "abc", user: '{"name":"jane","password":"x"}' },
+      "hide-sensitive"
+    ),
+    {
+      lang: "en",
+      authToken: REDACTED,
+      user: JSON.stringify({ name: "jane", password: REDACTED }),
+    }
+  );
+});
+
+test("hide-all hides every cookie and storage value", () => {
+  assert.deepEqual(redactor.redactCookies([{ name: "theme", value: "dark" }], "hide-all"), [
+    { name: "theme", value: REDACTED },
+  ]);
+  assert.deepEqual(redactor.redactStorage({ lang: "en" }, "hide-all"), { lang: REDACTED });
+});
+
+test("unknown sensitive data modes fail closed", () => {
+  assert.equal(parseSensitiveDataMode("show-all"), "show-all");
+  assert.equal(parseSensitiveDataMode("hide-nothing"), "show-all");
+  assert.equal(parseSensitiveDataMode("hide-sensitive"), "hide-sensitive");
+  assert.equal(parseSensitiveDataMode("hide-everything"), "hide-all");
+  assert.equal(parseSensitiveDataMode(undefined), "hide-all");
+});
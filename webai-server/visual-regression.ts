@@ -0,0 +1,326 @@
+/**
+ * Visual Regression for Browser Tools Server
+ *
+ * Stores named baseline screenshots and pixel-diffs new captures against
+ * them, producing a diff image, the mismatch percentage and the bounding
+ * boxes of the changed areas.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PNG } from "pngjs";
+import pixelmatch from "pixelmatch";
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BaselineInfo {
+  name: string;
+  width: number;
+  height: number;
+  updatedAt: string; // ISO 8601
+  sizeBytes: number;
+}
+
+export interface CompareOptions {
+  threshold?: number; // Per-pixel color distance, 0 (strict) to 1 (lenient)
+  ignoreRegions?: Region[]; // Excluded from the comparison
+}
+
+export interface CompareResult {
+  mismatchedPixels: number;
+  totalPixels: number;
+  mismatchPercentage: number;
+  dimensionsMatch: boolean;
+  baselineSize: { width: number; height: number };
+  currentSize: { width: number; height: number };
+  changedRegions: Region[]; // Largest first
+  diffImage: Buffer; // PNG
+}
+
+const BASELINE_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+// Size of the grid cells changed pixels are grouped into for bounding boxes
+const REGION_CELL_SIZE = 8;
+const MAX_CHANGED_REGIONS = 20;
+
+export class BaselineStore {
+  private directory: string;
+
+  constructor(directory: string = BaselineStore.getDefaultDirectory()) {
+    this.directory = directory;
+  }
+
+  static getDefaultDirectory(): string {
+    return path.join(os.homedir(), ".webai-mcp", "baselines");
+  }
+
+  /**
+   * Creates a store in BASELINE_DIR, or the default directory
+   */
+  static createFromEnvironment(): BaselineStore {
+    return new BaselineStore(
+      process.env.BASELINE_DIR || BaselineStore.getDefaultDirectory()
+    );
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Saves (or replaces) a baseline
+   * @param name Baseline name
+   * @param png The PNG image
+   * @throws Error if the name is malformed or the image is not a PNG
+   */
+  save(name: string, png: Buffer): BaselineInfo {
+    // Decode first so that only valid PNGs become baselines
+    PNG.sync.read(png);
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.getBaselinePath(name), png);
+    console.log(`Baseline store: saved baseline "${name}"`);
+
+    return this.getInfo(name)!;
+  }
+
+  /**
+   * Reads a baseline image
+   * @returns The PNG, or null if there is no baseline with that name
+   */
+  read(name: string): Buffer | null {
+    const filePath = this.getBaselinePath(name);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+  }
+
+  /**
+   * Deletes a baseline
+   * @returns Whether a baseline was deleted
+   */
+  delete(name: string): boolean {
+    const filePath = this.getBaselinePath(name);
+    if (!fs.existsSync(filePath)) return false;
+
+    fs.unlinkSync(filePath);
+    console.log(`Baseline store: deleted baseline "${name}"`);
+    return true;
+  }
+
+  /**
+   * Lists the stored baselines, most recently updated first
+   */
+  list(): BaselineInfo[] {
+    if (!fs.existsSync(this.directory)) return [];
+
+    return fs
+      .readdirSync(this.directory)
+      .filter((file) => file.endsWith(".png"))
+      .map((file) => this.getInfo(file.slice(0, -".png".length)))
+      .filter((info): info is BaselineInfo => info !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  private getBaselinePath(name: string): string {
+    if (!BASELINE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid baseline name: ${name} (use letters, digits, ".", "_" and "-")`
+      );
+    }
+    return path.join(this.directory, `${name}.png`);
+  }
+
+  private getInfo(name: string): BaselineInfo | null {
+    try {
+      const filePath = this.getBaselinePath(name);
+      const content = fs.readFileSync(filePath);
+      const stats = fs.statSync(filePath);
+
+      // Width and height are stored at fixed offsets of the IHDR chunk
+      return {
+        name,
+        width: content.readUInt32BE(16),
+        height: content.readUInt32BE(20),
+        updatedAt: stats.mtime.toISOString(),
+        sizeBytes: stats.size,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Copies an image onto a transparent canvas of the given size
+function padImage(image: PNG, width: number, height: number): PNG {
+  if (image.width === width && image.height === height) return image;
+
+  const padded = new PNG({ width, height });
+  PNG.bitblt(image, padded, 0, 0, image.width, image.height, 0, 0);
+  return padded;
+}
+
+// Paints a region in the same color on both images so it never differs
+function maskRegion(images: PNG[], region: Region) {
+  for (const image of images) {
+    const x0 = Math.max(0, Math.floor(region.x));
+    const y0 = Math.max(0, Math.floor(region.y));
+    const x1 = Math.min(image.width, Math.ceil(region.x + region.width));
+    const y1 = Math.min(image.height, Math.ceil(region.y + region.height));
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const offset = (y * image.width + x) * 4;
+        image.data[offset] = 0;
+        image.data[offset + 1] = 0;
+        image.data[offset + 2] = 0;
+        image.data[offset + 3] = 255;
+      }
+    }
+  }
+}
+
+// Groups changed pixels into grid cells and merges adjacent cells into boxes
+function findChangedRegions(
+  diffMask: Uint8Array,
+  width: number,
+  height: number
+): Region[] {
+  const columns = Math.ceil(width / REGION_CELL_SIZE);
+  const rows = Math.ceil(height / REGION_CELL_SIZE);
+  const cells = new Uint8Array(columns * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (diffMask[y * width + x]) {
+        cells[
+          Math.floor(y / REGION_CELL_SIZE) * columns +
+            Math.floor(x / REGION_CELL_SIZE)
+        ] = 1;
+      }
+    }
+  }
+
+  const regions: Region[] = [];
+  const visited = new Uint8Array(cells.length);
+
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || visited[start]) continue;
+
+    // Flood fill over the 8-connected changed cells
+    let minColumn = columns;
+    let minRow = rows;
+    let maxColumn = 0;
+    let maxRow = 0;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = column + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= columns || r >= rows) continue;
+          const neighbor = r * columns + c;
+          if (cells[neighbor] && !visited[neighbor]) {
+            visited[neighbor] = 1;
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+
+    const x = minColumn * REGION_CELL_SIZE;
+    const y = minRow * REGION_CELL_SIZE;
+    regions.push({
+      x,
+      y,
+      width: Math.min(width, (maxColumn + 1) * REGION_CELL_SIZE) - x,
+      height: Math.min(height, (maxRow + 1) * REGION_CELL_SIZE) - y,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .slice(0, MAX_CHANGED_REGIONS);
+}
+
+/**
+ * Pixel-diffs two PNG screenshots
+ *
+ * Images of different sizes are compared on a canvas of the larger size, so
+ * the area covered by only one of them counts as changed.
+ *
+ * @param baselinePng The baseline PNG
+ * @param currentPng The new PNG
+ * @param options Color threshold and regions to ignore
+ * @returns The comparison result, including a PNG diff image
+ */
+export function compareScreenshots(
+  baselinePng: Buffer,
+  currentPng: Buffer,
+  options: CompareOptions = {}
+): CompareResult {
+  const baseline = PNG.sync.read(baselinePng);
+  const current = PNG.sync.read(currentPng);
+
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const paddedBaseline = padImage(baseline, width, height);
+  const paddedCurrent = padImage(current, width, height);
+
+  // Padding may return the decoded image itself, which is fine to mask
+  for (const region of options.ignoreRegions || []) {
+    maskRegion([paddedBaseline, paddedCurrent], region);
+  }
+
+  const diff = new PNG({ width, height });
+  const mismatchedPixels = pixelmatch(
+    paddedBaseline.data,
+    paddedCurrent.data,
+    diff.data,
+    width,
+    height,
+    { threshold: options.threshold ?? 0.1 }
+  );
+
+  // pixelmatch paints differing pixels red (255, 0, 0) in the diff output
+  const diffMask = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const offset = i * 4;
+    diffMask[i] =
+      diff.data[offset] === 255 &&
+      diff.data[offset + 1] === 0 &&
+      diff.data[offset + 2] === 0
+        ? 1
+        : 0;
+  }
+
+  const totalPixels = width * height;
+  return {
+    mismatchedPixels,
+    totalPixels,
+    mismatchPercentage:
+      totalPixels === 0
+        ? 0
+        : Math.round((mismatchedPixels / totalPixels) * 10000) / 100,
+    dimensionsMatch:
+      baseline.width === current.width && baseline.height === current.height,
+    baselineSize: { width: baseline.width, height: baseline.height },
+    currentSize: { width: current.width, height: current.height },
+    changedRegions: findChangedRegions(diffMask, width, height),
+    diffImage: PNG.sync.write(diff),
+  };
+}